@@ -3,7 +3,10 @@
  * Handles communication between popup, content scripts, and devtools
  */
 
-import { setPendingEyedropper, clearEyedropperActive } from '@/lib/storage'
+import { setPendingEyedropper, clearEyedropperActive, addToHistory, saveCurrentColors } from '@/lib/storage'
+import { parseColor } from '@/lib/color-utils'
+import { calculateContrastRatio } from '@/lib/contrast'
+import { FrameInfo, ScanResult, ScanOptions, tagFrameResults } from '@/lib/scanner'
 
 // Listen for extension install/update
 chrome.runtime.onInstalled.addListener((details) => {
@@ -18,6 +21,10 @@ chrome.runtime.onInstalled.addListener((details) => {
         darkMode: false,
         showNotifications: true,
         maxHistoryItems: 20,
+        contrastMetric: 'wcag2',
+        pixelSampling: false,
+        focusIndicators: false,
+        interactiveStates: true,
       },
       wcag_color_history: [],
       wcag_saved_palettes: [],
@@ -73,6 +80,62 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       sendResponse({ success: true })
       break
 
+    case 'PAIR_PICKED': {
+      // From the hover inspector or the pair picker; the popup opens with this pair in the checker
+      const foreground = parseColor(message.foreground)
+      const background = parseColor(message.background)
+      if (!foreground || !background) {
+        sendResponse({ success: false, error: 'Invalid colors' })
+        break
+      }
+      // Saved colors keep the pin after the pending pick expires; the pending pair
+      // replaces any older single pick that would overwrite one side
+      Promise.all([
+        saveCurrentColors(message.foreground, message.background),
+        setPendingEyedropper(message.foreground, 'pair', message.background),
+        addToHistory(foreground, background, calculateContrastRatio(foreground, background)),
+      ])
+        .then(() => {
+          clearEyedropperActive()
+          chrome.action.setBadgeText({ text: '●' })
+          chrome.action.setBadgeBackgroundColor({ color: message.foreground })
+          setTimeout(() => {
+            chrome.action.setBadgeText({ text: '' })
+          }, 5000)
+        })
+        .catch((error) => {
+          console.error('Error storing picked pair:', error)
+        })
+      sendResponse({ success: true })
+      break
+    }
+
+    case 'SCAN_ALL_FRAMES':
+      // Top frame asks us to scan every frame in its tab and merge the results
+      if (sender.tab?.id !== undefined) {
+        scanAllFrames(sender.tab.id, message.level, message.options)
+          .then((results) => sendResponse({ success: true, results }))
+          .catch((error) => sendResponse({ success: false, error: error.message }))
+      }
+      return true
+
+    case 'CAPTURE_VISIBLE_TAB':
+      // Content scripts can't capture the tab themselves
+      if (sender.tab?.windowId !== undefined) {
+        chrome.tabs.captureVisibleTab(sender.tab.windowId, { format: 'png' })
+          .then((dataUrl) => sendResponse({ success: true, dataUrl }))
+          .catch((error) => sendResponse({ success: false, error: error.message }))
+      }
+      return true
+
+    case 'SCAN_PROGRESS':
+      // Broadcast by content scripts for the popup and DevTools panel
+      break
+
+    case 'FIX_PREVIEWS_REVERTED':
+      // Broadcast by content scripts for the DevTools panel
+      break
+
     case 'SCAN_RESULTS':
       // Store scan results for devtools panel
       chrome.storage.local.set({
@@ -98,6 +161,62 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
 })
 
+/**
+ * Scan every frame in a tab (including cross-origin iframes) and merge results
+ * Each content script instance only sees its own document, so we fan out
+ * SCAN_FRAME to each frame individually and tag what comes back. Frames
+ * report their own URL and parent, which builds the frame paths.
+ */
+async function scanAllFrames(
+  tabId: number,
+  level: 'AA' | 'AAA',
+  options: ScanOptions = {}
+): Promise<ScanResult[]> {
+  const frameIds = await getFrameIds(tabId)
+
+  const perFrame = await Promise.all(
+    frameIds.map(async (frameId) => {
+      try {
+        const response = await chrome.tabs.sendMessage(
+          tabId,
+          { type: 'SCAN_FRAME', level, options },
+          { frameId }
+        )
+        const frame: FrameInfo = {
+          frameId,
+          parentFrameId: response?.parentFrameId ?? (frameId === 0 ? -1 : 0),
+          url: response?.url ?? '',
+        }
+        return { frame, results: (response?.results ?? []) as ScanResult[] }
+      } catch {
+        // Frame has no content script (about:blank, restricted or still loading)
+        return null
+      }
+    })
+  )
+
+  const scanned = perFrame.filter((entry): entry is { frame: FrameInfo; results: ScanResult[] } => entry !== null)
+  const frames = scanned.map(({ frame }) => frame)
+  return scanned.flatMap(({ frame, results }) => tagFrameResults(results, frame, frames))
+}
+
+/**
+ * IDs of every frame in a tab, read from a no-op injection
+ * Uses the scripting permission the extension already has, so listing frames
+ * needs no extra install-time permission. Falls back to the top frame.
+ */
+async function getFrameIds(tabId: number): Promise<number[]> {
+  try {
+    const injections = await chrome.scripting.executeScript({
+      target: { tabId, allFrames: true },
+      func: () => true,
+    })
+    return injections.length > 0 ? injections.map((injection) => injection.frameId) : [0]
+  } catch {
+    return [0]
+  }
+}
+
 // Handle keyboard shortcuts
 chrome.commands?.onCommand?.addListener((command) => {
   console.log('Command received:', command)
@@ -120,6 +239,17 @@ chrome.commands?.onCommand?.addListener((command) => {
         }
       })
       break
+
+    case 'toggle-annotations':
+      // Only the top frame draws badges
+      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+        if (tabs[0]?.id) {
+          chrome.tabs.sendMessage(tabs[0].id, { type: 'TOGGLE_ANNOTATIONS' }, { frameId: 0 }).catch(() => {
+            // No content script on this page (browser pages, or opened before install)
+          })
+        }
+      })
+      break
   }
 })
 
@@ -0,0 +1,255 @@
+/**
+ * Annotation layer
+ * Draws a badge with the contrast ratio over every scanned element and keeps
+ * the badges on their elements as the page scrolls or resizes. Clicking a
+ * badge opens a popover with the colors and the nearest passing text color.
+ */
+
+import { parseColor, rgbToHex } from '@/lib/color-utils'
+import { calculateContrastRatio } from '@/lib/contrast'
+import { findPassingColor } from '@/lib/css-patch'
+import { INTERACTIVE_STATE_LABELS } from '@/lib/interactive-states'
+import { ScanResult, ScanStatus, NON_TEXT_COMPONENT_LABELS, getScanStatus } from '@/lib/scanner'
+import {
+  AnnotationFilter,
+  AnnotationTarget,
+  ANNOTATION_STATUS_LABELS,
+  DEFAULT_ANNOTATION_FILTER,
+  countAnnotationTargets,
+  formatBadgeLabel,
+  getAnnotationTargets,
+} from '@/lib/annotations'
+import { resolveSelector } from './shadow-dom'
+
+export interface AnnotationCallbacks {
+  onPreview: (result: ScanResult, color: string) => void
+  onClose: () => void
+}
+
+export interface AnnotationLayer {
+  update: (results: ScanResult[]) => void // replace every badge
+  merge: (results: ScanResult[]) => void // replace the badges of the elements in `results`
+  destroy: () => void
+}
+
+interface Badge {
+  target: AnnotationTarget
+  element: HTMLElement
+  button: HTMLButtonElement
+}
+
+const BADGE_OFFSET_PX = 18 // badges sit just above the element's top edge
+
+function describeResult(result: ScanResult): string {
+  if (result.focusIndicator) return 'Focus indicator'
+  if (result.link) return 'Link vs text'
+  if (result.component) return NON_TEXT_COMPONENT_LABELS[result.component]
+  if (result.state) return `Text ${INTERACTIVE_STATE_LABELS[result.state]}`
+  if (result.pseudoElement) return `Text ${result.pseudoElement}`
+  return 'Text'
+}
+
+function createSwatch(color: string): HTMLSpanElement {
+  const swatch = document.createElement('span')
+  swatch.className = 'thewcag-annotation-swatch'
+  swatch.style.background = color
+  return swatch
+}
+
+/**
+ * Draw badges for the given results inside the overlay container
+ */
+export function createAnnotationLayer(
+  container: HTMLElement,
+  initialResults: ScanResult[],
+  callbacks: AnnotationCallbacks
+): AnnotationLayer {
+  const layer = document.createElement('div')
+  layer.className = 'thewcag-annotations'
+  const toolbar = document.createElement('div')
+  toolbar.className = 'thewcag-annotations-toolbar'
+  layer.appendChild(toolbar)
+  container.appendChild(layer)
+
+  const filter: AnnotationFilter = { ...DEFAULT_ANNOTATION_FILTER }
+  let results = initialResults
+  let badges: Badge[] = []
+  let popover: { element: HTMLDivElement; badge: Badge } | null = null
+  let frame: number | null = null
+
+  const closePopover = () => {
+    popover?.element.remove()
+    popover = null
+  }
+
+  const position = () => {
+    frame = null
+    badges.forEach(({ target, element, button }) => {
+      const rect = element.getBoundingClientRect()
+      const visible = filter[target.status] && element.isConnected &&
+        rect.width > 0 && rect.height > 0 &&
+        rect.bottom > 0 && rect.right > 0 && rect.top < window.innerHeight && rect.left < window.innerWidth
+      button.style.display = visible ? '' : 'none'
+      if (!visible) return
+      button.style.left = `${Math.max(0, rect.left)}px`
+      button.style.top = `${Math.max(0, rect.top - BADGE_OFFSET_PX)}px`
+    })
+
+    if (!popover) return
+    if (popover.badge.button.style.display === 'none') {
+      closePopover()
+      return
+    }
+    const anchor = popover.badge.button.getBoundingClientRect()
+    const width = popover.element.offsetWidth
+    popover.element.style.left = `${Math.max(8, Math.min(anchor.left, window.innerWidth - width - 8))}px`
+    popover.element.style.top = `${anchor.bottom + 4}px`
+  }
+
+  const schedule = () => {
+    if (frame === null) frame = requestAnimationFrame(position)
+  }
+
+  const renderToolbar = () => {
+    const counts = countAnnotationTargets(badges.map((badge) => badge.target))
+    toolbar.replaceChildren()
+
+    const title = document.createElement('span')
+    title.textContent = 'Contrast'
+    toolbar.appendChild(title)
+
+    ;(['fail', 'warning', 'pass'] as ScanStatus[]).forEach((status) => {
+      const toggle = document.createElement('button')
+      toggle.type = 'button'
+      toggle.className = `thewcag-annotations-filter thewcag-annotation-${status}`
+      toggle.textContent = `${ANNOTATION_STATUS_LABELS[status]} ${counts[status]}`
+      toggle.setAttribute('aria-pressed', String(filter[status]))
+      toggle.addEventListener('click', () => {
+        filter[status] = !filter[status]
+        renderToolbar()
+        schedule()
+      })
+      toolbar.appendChild(toggle)
+    })
+
+    const close = document.createElement('button')
+    close.type = 'button'
+    close.className = 'thewcag-annotations-close'
+    close.textContent = '×'
+    close.setAttribute('aria-label', 'Hide annotations')
+    close.addEventListener('click', callbacks.onClose)
+    toolbar.appendChild(close)
+  }
+
+  const openPopover = (badge: Badge) => {
+    const wasOpen = popover?.badge === badge
+    closePopover()
+    if (wasOpen) return
+
+    const element = document.createElement('div')
+    element.className = 'thewcag-annotation-popover'
+
+    const selector = document.createElement('code')
+    selector.textContent = badge.target.selector
+    element.appendChild(selector)
+
+    badge.target.results.forEach((result) => {
+      const row = document.createElement('div')
+      row.className = 'thewcag-annotation-row'
+      const label = document.createElement('span')
+      label.textContent = describeResult(result)
+      const colors = document.createElement('span')
+      colors.append(createSwatch(result.foreground), ` ${result.foreground} on `, createSwatch(result.background), ` ${result.background}`)
+      const ratio = document.createElement('strong')
+      ratio.className = `thewcag-annotation-${getScanStatus(result)}-text`
+      ratio.textContent = `${result.ratio.toFixed(2)}:1`
+      ratio.title = `Needs ${result.requiredRatio}:1`
+      row.append(label, colors, ratio)
+      element.appendChild(row)
+    })
+
+    // Suggest a text color for the worst failing text result
+    const failing = badge.target.results.find((result) => result.category === 'text' && !result.passes)
+    const foreground = failing && parseColor(failing.foreground)
+    const background = failing && parseColor(failing.background)
+    if (failing && foreground && background) {
+      const suggested = findPassingColor(foreground, [background], failing.requiredRatio)
+      const hex = rgbToHex(suggested)
+      const suggestion = document.createElement('div')
+      suggestion.className = 'thewcag-annotation-row'
+      const text = document.createElement('span')
+      text.append('Try ', createSwatch(hex), ` ${hex} · ${calculateContrastRatio(suggested, background).toFixed(2)}:1`)
+      const preview = document.createElement('button')
+      preview.type = 'button'
+      preview.textContent = 'Preview'
+      preview.addEventListener('click', () => callbacks.onPreview(failing, hex))
+      suggestion.append(text, preview)
+      element.appendChild(suggestion)
+    }
+
+    layer.appendChild(element)
+    popover = { element, badge }
+    position()
+  }
+
+  const render = () => {
+    closePopover()
+    badges.forEach((badge) => badge.button.remove())
+    badges = []
+
+    getAnnotationTargets(results).forEach((target) => {
+      const element = resolveSelector(target.selector)
+      if (!element) return
+      const button = document.createElement('button')
+      button.type = 'button'
+      button.className = `thewcag-annotation-badge thewcag-annotation-${target.status}`
+      button.textContent = formatBadgeLabel(target)
+      button.title = `${target.selector} · needs ${target.result.requiredRatio}:1`
+      const badge = { target, element, button }
+      button.addEventListener('click', (e) => {
+        e.stopPropagation()
+        openPopover(badge)
+      })
+      layer.appendChild(button)
+      badges.push(badge)
+    })
+
+    renderToolbar()
+    position()
+  }
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape' && popover) closePopover()
+  }
+
+  // Clicks on the page close the popover; badge clicks toggle it themselves
+  const handleClick = (e: MouseEvent) => {
+    if (popover && !layer.contains(e.target as Node)) closePopover()
+  }
+
+  window.addEventListener('scroll', schedule, { capture: true, passive: true })
+  window.addEventListener('resize', schedule)
+  document.addEventListener('keydown', handleKeydown, true)
+  document.addEventListener('click', handleClick, true)
+  render()
+
+  return {
+    update: (next) => {
+      results = next
+      render()
+    },
+    merge: (next) => {
+      const selectors = new Set(next.map((result) => result.selector))
+      results = [...results.filter((result) => !selectors.has(result.selector)), ...next]
+      render()
+    },
+    destroy: () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', schedule, { capture: true })
+      window.removeEventListener('resize', schedule)
+      document.removeEventListener('keydown', handleKeydown, true)
+      document.removeEventListener('click', handleClick, true)
+      layer.remove()
+    },
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Declared color sources from the CSSOM
+ * Finds the rule that sets an element's `color` or `background-color`, following
+ * inheritance up the composed tree, and traces var() references back to the
+ * design tokens they read
+ */
+
+import { ColorSource, TokenTrace } from '@/lib/scanner'
+import { getCustomPropertyName } from '@/lib/grouping'
+import { traceVarChain } from '@/lib/custom-properties'
+import { Specificity, splitSelectorList, calculateSpecificity, compareSpecificity } from '@/lib/interactive-states'
+import { RuleIndex, createRuleIndex } from '@/lib/rule-index'
+import { StyleSheetSnapshot, collectStyleRules, getStyleSheetSnapshot, isRuleInScope, isSameSnapshot } from './cssom'
+import { getComposedParent } from './shadow-dom'
+
+interface IndexedRule {
+  rule: CSSStyleRule
+  order: number
+  selectors: Array<{ selector: string; specificity: Specificity }>
+}
+
+interface Candidate {
+  entry: IndexedRule
+  specificity: Specificity
+  important: boolean
+  value: string
+}
+
+interface Declaration {
+  value: string
+  selector: string // rule selector, or `style attribute`
+  stylesheet: string
+  element: HTMLElement // where the declaration applies (an ancestor when inherited)
+}
+
+type IndexedSelector = { entry: IndexedRule; selector: string; specificity: Specificity }
+
+// Rules and their per-property indexes, reused across scans (watch mode
+// re-scans often) until the stylesheets change
+let ruleCache: {
+  snapshot: StyleSheetSnapshot
+  rules: IndexedRule[]
+  indexByProperty: Map<string, RuleIndex<IndexedSelector>>
+} | null = null
+
+async function getIndexedRules(checkpoint: () => Promise<unknown>): Promise<NonNullable<typeof ruleCache>> {
+  const snapshot = getStyleSheetSnapshot()
+  if (ruleCache && isSameSnapshot(ruleCache.snapshot, snapshot)) return ruleCache
+
+  const rules: IndexedRule[] = []
+  for (const rule of collectStyleRules(() => true)) {
+    rules.push({
+      rule,
+      order: rules.length,
+      selectors: splitSelectorList(rule.selectorText).map((selector) => ({
+        selector,
+        specificity: calculateSpecificity(selector),
+      })),
+    })
+    await checkpoint()
+  }
+
+  ruleCache = { snapshot, rules, indexByProperty: new Map() }
+  return ruleCache
+}
+
+export interface ColorSourceLookup {
+  getColorSource: (element: HTMLElement) => ColorSource | null
+  // Token behind a color; background is traced on the element that paints it
+  getTokenTrace: (element: HTMLElement, property: 'color' | 'background-color') => TokenTrace | null
+}
+
+// Values that defer to the parent's value
+const INHERITING_VALUES = new Set(['inherit', 'unset', 'revert', 'revert-layer'])
+
+function describeStyleSheet(sheet: CSSStyleSheet | null): string {
+  if (!sheet?.href) return '<style>'
+  try {
+    const path = new URL(sheet.href).pathname
+    return path.split('/').filter(Boolean).pop() || sheet.href
+  } catch {
+    return sheet.href
+  }
+}
+
+function isBetter(next: Candidate, current: Candidate | null): boolean {
+  if (!current) return true
+  if (next.important !== current.important) return next.important
+  const bySpecificity = compareSpecificity(next.specificity, current.specificity)
+  if (bySpecificity !== 0) return bySpecificity > 0
+  return next.entry.order > current.entry.order
+}
+
+/**
+ * Declared value of a property in one style block
+ * A var() in the `background` shorthand leaves `background-color` empty, so
+ * the shorthand is read instead.
+ */
+function readDeclared(style: CSSStyleDeclaration, property: string): { value: string; important: boolean } | null {
+  const names = property === 'background-color' ? [property, 'background'] : [property]
+  for (const name of names) {
+    const value = style.getPropertyValue(name).trim()
+    if (value) return { value, important: style.getPropertyPriority(name) === 'important' }
+  }
+  return null
+}
+
+/**
+ * Build a lookup for the current stylesheets
+ * Rules are read in slices (awaiting `checkpoint`) and kept until the
+ * stylesheets change, indexed per property on first use, and results memoized
+ * per element, so shared ancestors are matched only once and each element is
+ * only tested against rules that could match it
+ */
+export async function createColorSourceLookup(
+  describeElement: (element: HTMLElement) => string,
+  checkpoint: () => Promise<unknown> = async () => false
+): Promise<ColorSourceLookup> {
+  const { rules: allRules, indexByProperty } = await getIndexedRules(checkpoint)
+  const cacheByProperty = new Map<string, WeakMap<HTMLElement, Declaration | null>>()
+
+  const getIndex = (property: string) => {
+    let index = indexByProperty.get(property)
+    if (!index) {
+      const created = createRuleIndex<IndexedSelector>()
+      allRules
+        .filter((entry) => readDeclared(entry.rule.style, property))
+        .forEach((entry) => entry.selectors.forEach(({ selector, specificity }) => {
+          created.add(selector, { entry, selector, specificity })
+        }))
+      indexByProperty.set(property, created)
+      index = created
+    }
+    return index
+  }
+
+  // The declaration that wins on the element itself, or null when there is none
+  const findOwnDeclaration = (element: HTMLElement, property: string): Declaration | null => {
+    let winner: Candidate | null = null
+    for (const { entry, selector, specificity } of getIndex(property).candidates(element)) {
+      if (!isRuleInScope(entry.rule, element)) continue
+      let matches = false
+      try {
+        matches = element.matches(selector)
+      } catch {
+        continue // selector uses syntax matches() rejects
+      }
+      if (!matches) continue
+      const declared = readDeclared(entry.rule.style, property)!
+      const candidate = { entry, specificity, ...declared }
+      if (isBetter(candidate, winner)) winner = candidate
+    }
+
+    const inline = element.style ? readDeclared(element.style, property) : null
+    if (inline && (inline.important || !winner?.important)) {
+      return { value: inline.value, selector: 'style attribute', stylesheet: 'inline', element }
+    }
+    if (!winner) return null
+    return {
+      value: winner.value,
+      selector: winner.entry.rule.selectorText,
+      stylesheet: describeStyleSheet(winner.entry.rule.parentStyleSheet),
+      element,
+    }
+  }
+
+  // Custom properties and `color` inherit; `background-color` does not
+  const resolve = (element: HTMLElement, property: string, inherits: boolean): Declaration | null => {
+    let cache = cacheByProperty.get(property)
+    if (!cache) {
+      cache = new WeakMap()
+      cacheByProperty.set(property, cache)
+    }
+    const cached = cache.get(element)
+    if (cached !== undefined) return cached
+
+    let declaration = findOwnDeclaration(element, property)
+    if (declaration && INHERITING_VALUES.has(declaration.value)) declaration = null
+    if (!declaration && inherits) {
+      const parent = getComposedParent(element)
+      declaration = parent ? resolve(parent, property, true) : null
+    }
+    cache.set(element, declaration)
+    return declaration
+  }
+
+  const getColorSource = (element: HTMLElement): ColorSource | null => {
+    const declaration = resolve(element, 'color', true)
+    if (!declaration) return null
+    return {
+      selector: declaration.selector,
+      stylesheet: declaration.stylesheet,
+      customProperty: getCustomPropertyName(declaration.value) ?? undefined,
+    }
+  }
+
+  const getTokenTrace = (element: HTMLElement, property: 'color' | 'background-color'): TokenTrace | null => {
+    let target: HTMLElement | null = element
+    if (property === 'background-color') {
+      // The nearest element that actually paints a background
+      while (target && /^(transparent|rgba\(.*,\s*0\))$/.test(window.getComputedStyle(target).backgroundColor)) {
+        target = getComposedParent(target)
+      }
+      if (!target) return null
+    }
+
+    const declaration = resolve(target, property, property === 'color')
+    if (!declaration) return null
+
+    // Each token resolves in the context of the element that defines the previous one
+    let context = declaration.element
+    const definers: HTMLElement[] = []
+    const chain = traceVarChain(declaration.value, (name) => {
+      const definition = resolve(context, name, true)
+      if (!definition) return null
+      definers.push(definition.element)
+      context = definition.element
+      return definition.value
+    })
+    if (chain.length === 0) return null
+
+    // describeElement has no selector for the root element, so name it the way stylesheets do
+    const definedOn = definers[0] === document.documentElement ? ':root' : describeElement(definers[0])
+    return { name: chain[0], chain, definedOn }
+  }
+
+  return { getColorSource, getTokenTrace }
+}
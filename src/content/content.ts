@@ -3,16 +3,102 @@
  * Runs on web pages to enable eyedropper, page scanning, and overlay UI
  */
 
-import { parseColor, rgbToHex } from '@/lib/color-utils'
-import { calculateContrastRatio, analyzeContrast } from '@/lib/contrast'
+import { RGB, parseColor, rgbToHex } from '@/lib/color-utils'
+import { calculateContrastRatio, analyzeContrast, ContrastMetric } from '@/lib/contrast'
+import { formatApcaContrast } from '@/lib/apca'
+import { InteractiveState, INTERACTIVE_STATES, INTERACTIVE_STATE_LABELS } from '@/lib/interactive-states'
+import { TextPseudoElement, parseContentText, isIconGlyphText, getMarkerText } from '@/lib/pseudo-text'
+import { getPreferences } from '@/lib/storage'
+import { WATCH_PORT_NAME } from '@/lib/watch'
+import { getSelectorSuffix } from '@/lib/css-patch'
+import { CvdSimulation } from '@/lib/cvd'
+import { classifyLinkDistinction, declaresUnderline } from '@/lib/link-distinction'
+import { TextEffect, findOutlineEffect } from '@/lib/text-effects'
+import { parseBoxShadow } from '@/lib/focus-indicator'
+import {
+  ScanResult,
+  ScanOptions,
+  NON_TEXT_COMPONENT_LABELS,
+  createScanProgress,
+  classifyTextContrast,
+  classifyNonTextContrast,
+  classifyFocusIndicator,
+  getScanStatus,
+  isLargeTextStyle,
+  parseFontWeight,
+} from '@/lib/scanner'
+import { SampledContrast, samplePixelsInRect, summarizeSampledContrast } from '@/lib/pixel-sampling'
+import {
+  SHADOW_SELECTOR_SEPARATOR,
+  querySelectorAllDeep,
+  getComposedParent,
+  getShadowHost,
+  containsComposed,
+  resolveSelector,
+  deepElementFromPoint,
+} from './shadow-dom'
+import { captureBackgroundFrame, captureViewportFrame, isFrameAligned } from './pixel-sampler'
+import { parseCssColorToRgb } from './css-color'
+import { hasMediaBehind, needsPaintProbe, resolvePaintedBackgrounds } from './stacking-context'
+import { findNonTextTargets } from './non-text'
+import { findColorOnlyLinks } from './link-distinction'
+import { checkFocusIndicators } from './focus-indicators'
+import { StateStyleMap, collectStateStyles, resolveDeclaredColor } from './state-styles'
+import { startWatch, writeOwnStyle } from './watch-mode'
+import { createTimeSlicer } from './time-slice'
+import { pickElement } from './region-picker'
+import { createColorSourceLookup } from './color-source'
+import { PreviewProperty, applyFixPreview, revertFixPreviews, getFixPreviewCount } from './fix-preview'
+import { AnnotationLayer, createAnnotationLayer } from './annotations'
+import { HeatmapLayer, createHeatmap } from './heatmap'
+import { InspectedPair, InspectorSession, startInspector } from './inspector'
+import { PixelPickerSession, startPixelPicker } from './pixel-picker'
+import { PairPickerSession, startPairPicker } from './pair-picker'
+import { VisionFilterLayer, createVisionFilter } from './vision-filter'
 
 // State
 let eyedropperActive = false
 let eyedropperType: 'foreground' | 'background' = 'foreground'
 let overlayContainer: HTMLDivElement | null = null
-let colorPreview: HTMLDivElement | null = null
 let isScanning = false
-let cssColorProbeEl: HTMLDivElement | null = null
+let scanCancelled = false
+// Scans share the cancel flag and background cache, so they run one at a time
+let scanQueue: Promise<unknown> = Promise.resolve()
+let annotationLayer: AnnotationLayer | null = null
+let heatmapLayer: HeatmapLayer | null = null
+let inspector: InspectorSession | null = null
+let pixelPicker: PixelPickerSession | null = null
+let pairPicker: PairPickerSession | null = null
+let visionFilter: { layer: VisionFilterLayer; simulation: CvdSimulation } | null = null
+
+// Effective backgrounds memoized per element for the duration of one scan
+let backgroundCache: WeakMap<HTMLElement, { r: number; g: number; b: number }> | null = null
+// Painted backgrounds and whether an element needs probing at all, for the same scan
+let paintedCache: WeakMap<HTMLElement, Array<{ r: number; g: number; b: number }> | null> | null = null
+let paintProbeCache: WeakMap<HTMLElement, boolean> | null = null
+
+// The content script runs in every frame; page-level UI (eyedropper, results
+// panel) belongs to the top frame, while child frames only scan and highlight
+const isTopFrame = window === window.top
+const FRAME_MESSAGE_TYPES = new Set([
+  'SCAN_FRAME',
+  'CANCEL_SCAN',
+  'SCROLL_TO_ELEMENT',
+  'HIGHLIGHT_ELEMENT',
+  'PREVIEW_FIX',
+  'REVERT_FIX_PREVIEWS',
+])
+// A selector can match in several frames, so child frames only act on these
+// when the sender names a frame (the message also goes to that frame alone)
+const FRAME_TARGETED_TYPES = new Set(['SCROLL_TO_ELEMENT', 'HIGHLIGHT_ELEMENT'])
+
+// Elements that typically contain text - expanded list including div
+const TEXT_ELEMENT_SELECTOR =
+  'p, h1, h2, h3, h4, h5, h6, span, a, button, label, li, td, th, ' +
+  'article, section, main, header, footer, nav, aside, ' +
+  'blockquote, figcaption, caption, summary, details, ' +
+  'strong, em, b, i, u, small, mark, del, ins, sub, sup, code, pre, ' +
+  'div, time, address, cite, q, abbr, data, dfn, kbd, samp, var'
 
 // Initialize when DOM is ready
 if (document.readyState === 'loading') {
@@ -25,6 +111,7 @@ function init() {
   console.log('TheWCAG Content Script initialized')
   createOverlayContainer()
   setupMessageListener()
+  if (isTopFrame) setupWatchListener()
 }
 
 /**
@@ -39,87 +126,15 @@ function createOverlayContainer() {
   document.body.appendChild(overlayContainer)
 }
 
-/**
- * Create (once) a hidden element we can use to normalize any CSS color string
- * into a computed rgb/rgba value that our parser understands.
- */
-function getCssColorProbe(): HTMLDivElement {
-  if (cssColorProbeEl) return cssColorProbeEl
-  cssColorProbeEl = document.createElement('div')
-  cssColorProbeEl.style.position = 'fixed'
-  cssColorProbeEl.style.left = '-99999px'
-  cssColorProbeEl.style.top = '-99999px'
-  cssColorProbeEl.style.width = '1px'
-  cssColorProbeEl.style.height = '1px'
-  cssColorProbeEl.style.pointerEvents = 'none'
-  cssColorProbeEl.style.opacity = '0'
-  document.documentElement.appendChild(cssColorProbeEl)
-  return cssColorProbeEl
-}
-
-function parseAlphaFromCssColor(str: string): number {
-  const s = str.trim().toLowerCase()
-  if (s === 'transparent') return 0
-
-  // rgba(1, 2, 3, 0.5)
-  let m = s.match(/rgba\s*\(\s*[\d.]+\s*,\s*[\d.]+\s*,\s*[\d.]+\s*,\s*([\d.]+)\s*\)/)
-  if (m) return Math.min(1, Math.max(0, parseFloat(m[1])))
-
-  // rgb(1 2 3 / 50%) or rgb(1 2 3 / 0.5)
-  m = s.match(/rgb[a]?\s*\(\s*[\d.]+\s+[\d.]+\s+[\d.]+\s*\/\s*([\d.]+%?)\s*\)/)
-  if (m) {
-    const raw = m[1]
-    if (raw.endsWith('%')) return Math.min(1, Math.max(0, parseFloat(raw) / 100))
-    return Math.min(1, Math.max(0, parseFloat(raw)))
-  }
-
-  // color(srgb r g b / a)
-  m = s.match(/color\s*\(\s*srgb\s+[\d.]+\s+[\d.]+\s+[\d.]+\s*\/\s*([\d.]+%?)\s*\)/)
-  if (m) {
-    const raw = m[1]
-    if (raw.endsWith('%')) return Math.min(1, Math.max(0, parseFloat(raw) / 100))
-    return Math.min(1, Math.max(0, parseFloat(raw)))
-  }
-
-  // If no alpha specified, assume opaque.
-  return 1
-}
-
-/**
- * Parse a CSS color string into RGB, with a browser-based fallback for modern syntaxes
- * like `oklab()`, `color(display-p3 ...)`, CSS variables, etc.
- */
-function parseCssColorToRgb(colorStr: string, property: 'color' | 'backgroundColor' = 'color'): { rgb: { r: number; g: number; b: number } | null; alpha: number } {
-  // First try our pure parser
-  const direct = parseColor(colorStr)
-  if (direct) {
-    return { rgb: direct, alpha: parseAlphaFromCssColor(colorStr) }
-  }
-
-  // Fallback: let the browser compute it
-  try {
-    const probe = getCssColorProbe()
-    if (property === 'color') {
-      probe.style.color = ''
-      probe.style.color = colorStr
-      const computed = window.getComputedStyle(probe).color
-      return { rgb: parseColor(computed), alpha: parseAlphaFromCssColor(computed) }
-    }
-
-    probe.style.backgroundColor = ''
-    probe.style.backgroundColor = colorStr
-    const computed = window.getComputedStyle(probe).backgroundColor
-    return { rgb: parseColor(computed), alpha: parseAlphaFromCssColor(computed) }
-  } catch {
-    return { rgb: null, alpha: 1 }
-  }
-}
-
 /**
  * Setup message listener for popup/background communication
  */
 function setupMessageListener() {
   chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    // Stay silent in child frames so the top frame's response wins
+    if (!isTopFrame && !FRAME_MESSAGE_TYPES.has(message.type)) return
+    if (!isTopFrame && FRAME_TARGETED_TYPES.has(message.type) && message.frameId === undefined) return
+
     console.log('Content script received message:', message)
 
     switch (message.type) {
@@ -133,6 +148,16 @@ function setupMessageListener() {
         sendResponse({ success: true })
         break
 
+      case 'START_INSPECTOR':
+        startInspecting()
+        sendResponse({ success: true })
+        break
+
+      case 'OPEN_PAIR_PICKER':
+        openPairPicker()
+        sendResponse({ success: true })
+        break
+
       case 'TOGGLE_EYEDROPPER':
         if (eyedropperActive) {
           deactivateEyedropper()
@@ -147,14 +172,67 @@ function setupMessageListener() {
         hideOverlayPanel()
         
         // Small delay to ensure DOM is updated
-        setTimeout(() => {
-          scanPage().then((results) => {
-            sendResponse({ success: true, results })
-            showScanResults(results)
+        setTimeout(async () => {
+          const prefs = await getPreferences()
+          // Callers may scope the scan: root selector, exclude selectors, viewport only
+          const scanScope: ScanOptions = message.options ?? {}
+          if (scanScope.rootSelector && !resolveSelector(scanScope.rootSelector)) {
+            sendResponse({ success: false, error: `Scan root not found: ${scanScope.rootSelector}` })
+            showToast('Scan root not found on this page')
+            return
+          }
+          const results = await scanAllFrames(prefs.defaultLevel, {
+            pixelSampling: prefs.pixelSampling,
+            focusIndicators: prefs.focusIndicators,
+            interactiveStates: prefs.interactiveStates,
+            rootSelector: scanScope.rootSelector,
+            excludeSelectors: scanScope.excludeSelectors,
+            viewportOnly: scanScope.viewportOnly,
           })
+          if (scanCancelled) {
+            sendResponse({ success: false, cancelled: true })
+            showToast('Scan cancelled')
+            return
+          }
+          sendResponse({ success: true, results })
+          showScanResults(results, prefs.defaultLevel, prefs.contrastMetric)
+          annotationLayer?.update(results)
+          heatmapLayer?.update(results)
         }, 50)
         return true // Keep channel open for async
 
+      case 'SCAN_FRAME':
+        // Sent by the service worker to each frame individually
+        scanPage(message.level || 'AA', message.options)
+          .then((results) => {
+            sendResponse({
+              success: true,
+              results,
+              cancelled: scanCancelled,
+              url: location.href,
+              parentFrameId: getParentFrameId(),
+            })
+          })
+          .catch((error) => {
+            console.error('Scan failed:', error)
+            sendResponse({ success: false, error: 'Scan failed on this page' })
+          })
+        return true
+
+      case 'CANCEL_SCAN':
+        // Every frame stops at its next slice boundary
+        scanCancelled = true
+        sendResponse({ success: true })
+        break
+
+      case 'PICK_SCAN_ROOT':
+        // Answered once the user clicks an element, or with null on Escape
+        showToast('Click an element to scan · ↑ selects its parent · Esc cancels')
+        pickElement(overlayContainer ?? document.body, isExtensionElement).then((element) => {
+          sendResponse({ success: !!element, selector: element ? getUniqueSelector(element) : null })
+        })
+        return true
+
       case 'CHECK_ELEMENT':
         checkElementAtPoint(message.x, message.y)
         sendResponse({ success: true })
@@ -170,16 +248,111 @@ function setupMessageListener() {
         sendResponse({ success: true })
         break
 
+      case 'PREVIEW_FIX':
+        // Answered after the affected elements are re-scanned
+        previewFix(message).then(sendResponse)
+        return true
+
+      case 'REVERT_FIX_PREVIEWS': {
+        const reverted = revertFixPreviews()
+        updatePreviewBar()
+        if (reverted) showToast('Fix previews reverted')
+        sendResponse({ success: true, reverted })
+        break
+      }
+
+      case 'GET_FIX_PREVIEWS':
+        sendResponse({ success: true, count: getFixPreviewCount() })
+        break
+
+      case 'TOGGLE_ANNOTATIONS':
+        // From the popup or the keyboard command; turning on runs a scan first
+        toggleAnnotations().then((active) => sendResponse({ success: true, active }))
+        return true
+
+      case 'TOGGLE_HEATMAP':
+        toggleHeatmap().then((active) => sendResponse({ success: true, active }))
+        return true
+
+      case 'SIMULATE_VISION':
+        simulateVision(message.simulation ?? null)
+        sendResponse({ success: true, simulation: visionFilter?.simulation ?? null })
+        break
+
+      case 'GET_OVERLAYS':
+        sendResponse({
+          success: true,
+          annotations: !!annotationLayer,
+          heatmap: !!heatmapLayer,
+          vision: visionFilter?.simulation ?? null,
+        })
+        break
+
       default:
         sendResponse({ success: false, error: 'Unknown message type' })
     }
   })
 }
 
+/**
+ * This frame's parent frame ID, for the service worker's frame paths (-1 at the top)
+ * runtime.getFrameId (Chrome 106+) is newer than the bundled types; without
+ * it, child frames are listed directly under the top frame.
+ */
+function getParentFrameId(): number {
+  if (isTopFrame) return -1
+  const runtime = chrome.runtime as typeof chrome.runtime & { getFrameId?: (target: Window) => number }
+  try {
+    return runtime.getFrameId?.(window.parent) ?? 0
+  } catch {
+    return 0 // the parent has no frame ID the extension can see
+  }
+}
+
+/**
+ * Accept watch-mode connections from the DevTools panel
+ * The session lives as long as the port; closing the panel stops it
+ */
+function setupWatchListener() {
+  chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== WATCH_PORT_NAME) return
+
+    let session: ReturnType<typeof startWatch> | null = null
+
+    port.onMessage.addListener(async (message) => {
+      switch (message.type) {
+        case 'WATCH_START': {
+          session?.stop()
+          const prefs = await getPreferences()
+          const level = message.level || prefs.defaultLevel
+          session = startWatch(port, {
+            scan: (scope) => scanPage(level, { interactiveStates: prefs.interactiveStates, ...message.options }, scope),
+            isBusy: () => isScanning,
+            isIgnored: isExtensionElement,
+          })
+          break
+        }
+
+        case 'WATCH_STOP':
+          session?.stop()
+          session = null
+          break
+      }
+    })
+
+    port.onDisconnect.addListener(() => {
+      session?.stop()
+      session = null
+    })
+  })
+}
+
 /**
  * Activate the eyedropper tool
  */
 function activateEyedropper(type: 'foreground' | 'background') {
+  stopInspecting()
+  stopPairPicking()
   eyedropperActive = true
   eyedropperType = type
   document.body.classList.add('thewcag-eyedropper-cursor')
@@ -213,79 +386,27 @@ async function openNativeEyeDropper() {
 }
 
 /**
- * Custom eyedropper using mouse tracking
+ * Screenshot-based eyedropper for browsers without the EyeDropper API
  */
-function openCustomEyeDropper() {
-  // Create color preview element
-  colorPreview = document.createElement('div')
-  colorPreview.className = 'thewcag-color-preview'
-  colorPreview.innerHTML = `
-    <div class="thewcag-color-preview-swatch"></div>
-    <span class="thewcag-color-preview-value">#000000</span>
-  `
-  colorPreview.style.display = 'none'
-  overlayContainer?.appendChild(colorPreview)
-
-  document.addEventListener('mousemove', handleEyedropperMove)
-  document.addEventListener('click', handleEyedropperClick, true)
-  document.addEventListener('keydown', handleEyedropperKeydown)
-}
-
-function handleEyedropperMove(e: MouseEvent) {
-  if (!eyedropperActive || !colorPreview) return
-
-  // Get element at point
-  const element = document.elementFromPoint(e.clientX, e.clientY) as HTMLElement
-  if (!element) return
-
-  // Get computed color
-  const style = window.getComputedStyle(element)
-  const bgColor = style.backgroundColor
-  const color = parseColor(bgColor)
-  
-  if (color) {
-    const hex = rgbToHex(color)
-    
-    // Update preview
-    const swatch = colorPreview.querySelector('.thewcag-color-preview-swatch') as HTMLElement
-    const value = colorPreview.querySelector('.thewcag-color-preview-value')
-    
-    if (swatch) swatch.style.backgroundColor = hex
-    if (value) value.textContent = hex
-    
-    // Position preview near cursor
-    colorPreview.style.display = 'flex'
-    colorPreview.style.left = `${e.clientX + 15}px`
-    colorPreview.style.top = `${e.clientY + 15}px`
-  }
-}
-
-function handleEyedropperClick(e: MouseEvent) {
-  if (!eyedropperActive) return
-
-  e.preventDefault()
-  e.stopPropagation()
-
-  const element = document.elementFromPoint(e.clientX, e.clientY) as HTMLElement
-  if (!element) return
-
-  const style = window.getComputedStyle(element)
-  const bgColor = style.backgroundColor
-  const color = parseColor(bgColor)
-
-  if (color) {
-    const hex = rgbToHex(color)
-    sendColorToExtension(hex)
-    showToast(`Color picked: ${hex}`)
-  }
-
-  deactivateEyedropper()
-}
-
-function handleEyedropperKeydown(e: KeyboardEvent) {
-  if (e.key === 'Escape' && eyedropperActive) {
+async function openCustomEyeDropper() {
+  const frame = await captureViewportFrame()
+  if (!eyedropperActive) return // cancelled while capturing
+  if (!frame || !overlayContainer) {
+    showToast('Could not capture the page to pick from')
     deactivateEyedropper()
+    return
   }
+
+  pixelPicker = startPixelPicker(overlayContainer, frame, {
+    capture: captureViewportFrame,
+    onPick: (hex) => {
+      sendColorToExtension(hex)
+      showToast(`Color picked: ${hex}`)
+      deactivateEyedropper()
+    },
+    onExit: deactivateEyedropper,
+  })
+  showToast('Move to a color and click · Esc to cancel')
 }
 
 /**
@@ -294,15 +415,8 @@ function handleEyedropperKeydown(e: KeyboardEvent) {
 function deactivateEyedropper() {
   eyedropperActive = false
   document.body.classList.remove('thewcag-eyedropper-cursor')
-  
-  document.removeEventListener('mousemove', handleEyedropperMove)
-  document.removeEventListener('click', handleEyedropperClick, true)
-  document.removeEventListener('keydown', handleEyedropperKeydown)
-  
-  if (colorPreview) {
-    colorPreview.remove()
-    colorPreview = null
-  }
+  pixelPicker?.stop()
+  pixelPicker = null
 }
 
 /**
@@ -316,55 +430,189 @@ function sendColorToExtension(hex: string) {
   })
 }
 
+/**
+ * Hover inspector: live contrast for the text under the cursor
+ */
+function startInspecting() {
+  if (inspector || !overlayContainer) return
+  deactivateEyedropper()
+  stopPairPicking()
+  showToast('Hover text to inspect · click to pin · Esc to exit')
+
+  inspector = startInspector(overlayContainer, {
+    measure: measureTextPair,
+    isIgnored: isExtensionElement,
+    onPin: (pair) => {
+      const foreground = rgbToHex(pair.foreground)
+      const background = rgbToHex(pair.background)
+      // The service worker stores the pair for the popup's checker to open with
+      chrome.runtime.sendMessage({ type: 'PAIR_PICKED', foreground, background })
+      stopInspecting()
+      showToast(`Pinned ${foreground} on ${background} · open the extension to check it`)
+    },
+    onExit: stopInspecting,
+  })
+}
+
+function stopInspecting() {
+  inspector?.stop()
+  inspector = null
+}
+
+/**
+ * Pair picker: foreground then background (or both from one click on text)
+ */
+async function openPairPicker() {
+  if (pairPicker) return
+  stopInspecting()
+  deactivateEyedropper()
+
+  const frame = await captureViewportFrame()
+  if (pairPicker) return // opened twice while capturing
+  if (!frame || !overlayContainer) {
+    showToast('Could not capture the page to pick from')
+    return
+  }
+
+  pairPicker = startPairPicker(overlayContainer, frame, {
+    capture: captureViewportFrame,
+    measure: measureTextPair,
+    isIgnored: isExtensionElement,
+    onDone: ({ foreground, background }) => {
+      // The service worker stores the pair for the popup and adds it to the history
+      chrome.runtime.sendMessage({ type: 'PAIR_PICKED', foreground, background })
+      stopPairPicking()
+      showToast(`Picked ${foreground} on ${background} · open the extension to check it`)
+    },
+    onExit: stopPairPicking,
+  })
+  document.body.classList.add('thewcag-eyedropper-cursor')
+}
+
+function stopPairPicking() {
+  if (!pairPicker) return
+  pairPicker.stop()
+  pairPicker = null
+  document.body.classList.remove('thewcag-eyedropper-cursor')
+}
+
+/**
+ * Colors and text size of an element's own text
+ * Returns null for elements without direct text, so containers are skipped
+ */
+function measureTextPair(element: HTMLElement): InspectedPair | null {
+  if (!getDirectTextContent(element).trim()) return null
+
+  const style = window.getComputedStyle(element)
+  const color = parseCssColorToRgb(style.color, 'color')
+  const background = getEffectiveBackgroundRgb(element)
+  if (!color.rgb || !background) return null
+
+  return {
+    // Translucent text is seen blended with what is behind it
+    foreground: color.alpha < 1 ? blendColors(color.rgb, color.alpha, background) : color.rgb,
+    background,
+    fontSize: parseFloat(style.fontSize),
+    fontWeight: parseFontWeight(style.fontWeight),
+    largeText: isLargeTextStyle(style.fontSize, style.fontWeight),
+  }
+}
+
 /**
  * Scan the page for contrast issues
+ * Each result is scored against the given WCAG level using its own text size.
+ * With a scope, only those subtrees are scanned (used by watch mode).
+ * A scan requested while another runs waits for it rather than being dropped.
  */
-interface ScanResult {
-  element: string
-  selector: string
-  foreground: string
-  background: string
-  ratio: number
-  score: string
-  fontSize: string
-  fontWeight: string
-  text: string
+function scanPage(
+  level: 'AA' | 'AAA' = 'AA',
+  options: ScanOptions = {},
+  scope: HTMLElement[] | null = null
+): Promise<ScanResult[]> {
+  const run = scanQueue.then(async () => {
+    try {
+      return await runScan(level, options, scope)
+    } finally {
+      // Reset even when the scan throws, or every later scan would wait forever
+      isScanning = false
+      backgroundCache = null
+      paintedCache = null
+      paintProbeCache = null
+    }
+  })
+  scanQueue = run.catch(() => undefined)
+  return run
 }
 
-async function scanPage(): Promise<ScanResult[]> {
-  if (isScanning) return []
+async function runScan(
+  level: 'AA' | 'AAA',
+  options: ScanOptions,
+  scope: HTMLElement[] | null
+): Promise<ScanResult[]> {
+  // A root selector scopes the top document; the selector means nothing in other frames
+  const root = options.rootSelector ? resolveSelector(options.rootSelector) : null
+  if (options.rootSelector && (!isTopFrame || !root)) return []
+
   isScanning = true
+  scanCancelled = false
+  backgroundCache = new WeakMap()
+  paintedCache = new WeakMap()
+  paintProbeCache = new WeakMap()
   
   console.log('Starting page scan...')
 
+  const excludeSelectors = (options.excludeSelectors ?? []).filter(isValidSelector)
+  const isOutOfScope = (element: HTMLElement) =>
+    isExtensionElement(element) ||
+    (!!scope && !scope.some((subtree) => subtree.contains(element))) ||
+    (!!root && !containsComposed(root, element)) ||
+    isExcludedElement(element, excludeSelectors) ||
+    (!!options.viewportOnly && !isInViewport(element))
+
+  // Screenshot coordinates only line up with the top frame's viewport
+  const capture = options.pixelSampling && isTopFrame && !scope ? await captureBackgroundFrame() : null
+
+  // Every pass works in time slices so very large pages stay responsive while scanning
+  const checkpoint = createTimeSlicer()
+
+  // :hover/:focus-visible/... rules, looked up per element below
+  const stateStyles = options.interactiveStates ? await collectStateStyles(checkpoint) : null
+
+  // Declaring rules and design tokens, for grouping findings by the fix
+  const colorSources = await createColorSourceLookup(getUniqueSelector, checkpoint)
+
   const results: ScanResult[] = []
   const processedElements = new WeakSet<HTMLElement>() // Track processed elements
   
-  // Get all elements that typically contain text - expanded list including div
-  const textElements = document.querySelectorAll(
-    'p, h1, h2, h3, h4, h5, h6, span, a, button, label, li, td, th, ' +
-    'article, section, main, header, footer, nav, aside, ' +
-    'blockquote, figcaption, caption, summary, details, ' +
-    'strong, em, b, i, u, small, mark, del, ins, sub, sup, code, pre, ' +
-    'div, time, address, cite, q, abbr, data, dfn, kbd, samp, var'
-  )
+  // Get all elements that typically contain text.
+  // Open shadow roots are searched too, so web components are not skipped.
+  const roots = scope ?? (root ? [root] : null)
+  const textElements = roots
+    ? roots.flatMap((subtree) => [
+        ...(subtree.matches(TEXT_ELEMENT_SELECTOR) ? [subtree] : []),
+        ...querySelectorAllDeep(TEXT_ELEMENT_SELECTOR, subtree),
+      ])
+    : querySelectorAllDeep(TEXT_ELEMENT_SELECTOR)
   
   console.log(`Found ${textElements.length} potential text elements`)
 
+  // Watch-mode re-scans are small and frequent, so only full scans report progress
+  const pseudoResults: ScanResult[] = []
+  if (!scope) reportScanProgress(0, textElements.length)
+
   let skippedNoText = 0
   let skippedHidden = 0
   let skippedNoDimensions = 0
   let skippedColorParse = 0
 
   // Process elements to find those with actual visible text
-  textElements.forEach((el) => {
-    const element = el as HTMLElement
-    
+  const scanTextElement = (element: HTMLElement) => {
     // Skip if already processed
     if (processedElements.has(element)) return
     
-    // IMPORTANT: Skip elements that are part of the extension's overlay
-    if (isExtensionElement(element)) {
+    // IMPORTANT: Skip elements that are part of the extension's overlay,
+    // and anything outside the requested scope
+    if (isOutOfScope(element)) {
       return
     }
     
@@ -399,11 +647,11 @@ async function scanPage(): Promise<ScanResult[]> {
     // Mark as processed
     processedElements.add(element)
 
-    // Get background color first (with proper alpha blending)
-    const bgColor = getEffectiveBackgroundRgb(element)
-    
     // Get foreground color
     const fg = parseCssColorToRgb(style.color, 'color')
+
+    // Get the background actually painted under the text (with proper alpha blending)
+    const bgColor = getPaintedBackgroundRgb(element, fg.rgb)
     
     // If foreground has alpha, blend it with background
     let fgColor = fg.rgb
@@ -426,36 +674,503 @@ async function scanPage(): Promise<ScanResult[]> {
       return
     }
 
-    const ratio = calculateContrastRatio(fgColor, bgColor)
-    const analysis = analyzeContrast(fgColor, bgColor)
+    // For text over images/gradients, use the worst-case sampled pixel,
+    // as long as the page has not scrolled since the capture
+    let sampled: SampledContrast | null = null
+    if (capture && isFrameAligned(capture) && (hasBackgroundImageBehind(element) || hasMediaBehind(element))) {
+      sampled = summarizeSampledContrast(
+        fgColor,
+        samplePixelsInRect(capture.buffer, rect, capture.scale)
+      )
+    }
+    const effectiveBg = sampled ? sampled.minBackground : bgColor
 
-    results.push({
+    const ratio = calculateContrastRatio(fgColor, effectiveBg)
+    const analysis = analyzeContrast(fgColor, effectiveBg)
+    const classification = classifyTextContrast(ratio, style.fontSize, style.fontWeight, level)
+
+    // Failing text may still be legible against its own halo or outline
+    const outline = classification.passes ? null : readTextEffect(style, effectiveBg)
+    const effectRatio = outline ? calculateContrastRatio(fgColor, outline.color) : 0
+    // A stroke in the text color (the default) only thickens the glyphs
+    const textEffect = effectRatio > ratio ? outline : null
+
+    const result: ScanResult = {
+      category: 'text',
       element: element.tagName.toLowerCase(),
       selector: getUniqueSelector(element),
       foreground: rgbToHex(fgColor),
-      background: rgbToHex(bgColor),
+      background: rgbToHex(effectiveBg),
       ratio,
+      apcaLc: analysis.apca.lc,
       score: analysis.score,
       fontSize: style.fontSize,
       fontWeight: style.fontWeight,
       text: text.substring(0, 50) + (text.length > 50 ? '...' : ''),
-    })
-  })
+      ...classification,
+      ...(sampled && {
+        sampledRatio: { min: sampled.min, median: sampled.median, max: sampled.max },
+        lowConfidence: true,
+      }),
+      ...(textEffect && {
+        textEffect: { source: textEffect.source, color: rgbToHex(textEffect.color), ratio: effectRatio },
+        passes: effectRatio >= classification.requiredRatio,
+      }),
+    }
+
+    // Matching every rule is costly, so only findings are traced to their rule and tokens
+    if (getScanStatus(result) !== 'pass') {
+      const foregroundToken = colorSources.getTokenTrace(element, 'color')
+      const backgroundToken = colorSources.getTokenTrace(element, 'background-color')
+      const colorSource = colorSources.getColorSource(element)
+      result.colorSource = colorSource
+        ? { ...colorSource, customProperty: foregroundToken?.name ?? colorSource.customProperty }
+        : undefined
+      if (foregroundToken || backgroundToken) {
+        result.tokens = { foreground: foregroundToken ?? undefined, background: backgroundToken ?? undefined }
+      }
+    }
+    results.push(result)
+
+    if (stateStyles) {
+      results.push(...scanElementStates(element, result, stateStyles, level))
+    }
+  }
+
+  for (let index = 0; index < textElements.length; index++) {
+    scanTextElement(textElements[index])
+    pseudoResults.push(...scanPseudoElementText(textElements[index], level, isOutOfScope))
+
+    if (await checkpoint()) {
+      if (scanCancelled) break
+      if (!scope) reportScanProgress(index + 1, textElements.length)
+    }
+  }
+
+  if (scanCancelled) {
+    console.log('Scan cancelled')
+    return []
+  }
+
+  pseudoResults.push(...await scanPlaceholderText(level, isOutOfScope, checkpoint))
+  results.push(...pseudoResults)
+
+  const nonTextResults = await scanNonTextElements(level, isOutOfScope, checkpoint)
+  results.push(...nonTextResults)
+
+  const linkResults = await scanColorOnlyLinks(level, isOutOfScope, stateStyles, checkpoint)
+  results.push(...linkResults)
+  if (scanCancelled) return []
+
+  // Focused elements paint different backgrounds, so stop reusing cached ones
+  backgroundCache = null
+  paintedCache = null
+  paintProbeCache = null
+
+  // Focusing every element is intrusive, so this only runs when enabled,
+  // and never on watch-mode re-scans where it would steal focus mid-interaction
+  const focusResults = options.focusIndicators && !scope ? await scanFocusIndicators(level, isOutOfScope, checkpoint) : []
+  results.push(...focusResults)
+  if (scanCancelled) return []
 
   console.log('Scan stats:', {
     total: textElements.length,
     found: results.length,
+    pseudoElements: pseudoResults.length,
+    nonText: nonTextResults.length,
+    links: linkResults.length,
+    focusIndicators: focusResults.length,
     skippedNoText,
     skippedHidden,
     skippedNoDimensions,
     skippedColorParse
   })
 
-  isScanning = false
+  if (!scope) reportScanProgress(textElements.length, textElements.length)
   console.log(`Scan complete. Found ${results.length} text elements with contrast data.`)
   return results
 }
 
+/**
+ * Score one piece of CSS-generated text against the background it sits on
+ */
+function getPseudoTextResult(
+  element: HTMLElement,
+  pseudoElement: TextPseudoElement,
+  pseudoStyle: CSSStyleDeclaration,
+  text: string,
+  baseBackground: { r: number; g: number; b: number } | null,
+  level: 'AA' | 'AAA',
+  extra: Partial<ScanResult> = {}
+): ScanResult | null {
+  if (!baseBackground) return null
+
+  // The pseudo-element may paint its own (possibly translucent) background
+  const ownBg = parseCssColorToRgb(pseudoStyle.backgroundColor, 'backgroundColor')
+  const bgColor = ownBg.rgb && ownBg.alpha > 0
+    ? blendColors(ownBg.rgb, ownBg.alpha, baseBackground)
+    : baseBackground
+
+  const fg = parseCssColorToRgb(pseudoStyle.color, 'color')
+  let fgColor = fg.rgb
+  if (!fgColor) return null
+  if (fg.alpha < 0.99) fgColor = blendColors(fgColor, fg.alpha, bgColor)
+
+  const ratio = calculateContrastRatio(fgColor, bgColor)
+  const analysis = analyzeContrast(fgColor, bgColor)
+
+  return {
+    category: 'text',
+    pseudoElement,
+    element: element.tagName.toLowerCase(),
+    selector: getUniqueSelector(element),
+    foreground: rgbToHex(fgColor),
+    background: rgbToHex(bgColor),
+    ratio,
+    apcaLc: analysis.apca.lc,
+    score: analysis.score,
+    fontSize: pseudoStyle.fontSize,
+    fontWeight: pseudoStyle.fontWeight,
+    text: text.substring(0, 50) + (text.length > 50 ? '...' : ''),
+    ...classifyTextContrast(ratio, pseudoStyle.fontSize, pseudoStyle.fontWeight, level),
+    ...extra,
+  }
+}
+
+/**
+ * Scan text that only exists in CSS on one element: ::before/::after content,
+ * ::marker and author-styled ::selection
+ */
+function scanPseudoElementText(
+  element: HTMLElement,
+  level: 'AA' | 'AAA',
+  exclude: (element: HTMLElement) => boolean = isExtensionElement
+): ScanResult[] {
+  if (exclude(element)) return []
+  const style = window.getComputedStyle(element)
+  if (style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0) return []
+
+  const results: Array<ScanResult | null> = []
+
+  for (const pseudo of ['::before', '::after'] as const) {
+    const pseudoStyle = window.getComputedStyle(element, pseudo)
+    if (pseudoStyle.display === 'none' || pseudoStyle.visibility === 'hidden') continue
+    const text = parseContentText(pseudoStyle.content, (name) => element.getAttribute(name))
+    if (isIconGlyphText(text)) continue
+    results.push(getPseudoTextResult(element, pseudo, pseudoStyle, text.trim(), getEffectiveBackgroundRgb(element), level))
+  }
+
+  if (style.display === 'list-item') {
+    const markerStyle = window.getComputedStyle(element, '::marker')
+    const index = Array.from(element.parentElement?.children ?? [element])
+      .filter((child) => child.tagName === element.tagName)
+      .indexOf(element) + 1
+    const markerContent = parseContentText(markerStyle.content, (name) => element.getAttribute(name))
+    const text = markerContent || getMarkerText(style.listStyleType, index)
+    if (text && !isIconGlyphText(text)) {
+      // Markers sit outside the item by default, over the list's background
+      const listBg = getEffectiveBackgroundRgb(
+        style.listStylePosition === 'outside' ? (getComposedParent(element) ?? element) : element
+      )
+      results.push(getPseudoTextResult(element, '::marker', markerStyle, text.trim(), listBg, level))
+    }
+  }
+
+  // Only author-styled selections; browser defaults are not the page's responsibility
+  const selectionStyle = window.getComputedStyle(element, '::selection')
+  const selectionBg = parseCssColorToRgb(selectionStyle.backgroundColor, 'backgroundColor')
+  if (selectionBg.rgb && selectionBg.alpha > 0) {
+    const text = getDirectTextContent(element)
+    if (text.trim()) {
+      results.push(getPseudoTextResult(element, '::selection', selectionStyle, text.trim(), getEffectiveBackgroundRgb(element), level))
+    }
+  }
+
+  return results.filter((result): result is ScanResult => result !== null)
+}
+
+/**
+ * Scan ::placeholder text of form fields
+ * Placeholders are flagged when they are the field's only label
+ */
+async function scanPlaceholderText(
+  level: 'AA' | 'AAA',
+  exclude: (element: HTMLElement) => boolean = isExtensionElement,
+  checkpoint: () => Promise<unknown> = async () => false
+): Promise<ScanResult[]> {
+  const results: ScanResult[] = []
+
+  for (const field of querySelectorAllDeep('input[placeholder], textarea[placeholder]')) {
+    await checkpoint()
+    if (exclude(field)) continue
+    const placeholder = field.getAttribute('placeholder')?.trim()
+    if (!placeholder) continue
+    const style = window.getComputedStyle(field)
+    if (style.display === 'none' || style.visibility === 'hidden') continue
+
+    const placeholderStyle = window.getComputedStyle(field, '::placeholder')
+    const result = getPseudoTextResult(field, '::placeholder', placeholderStyle, placeholder, getEffectiveBackgroundRgb(field), level, {
+      placeholderAsLabel: !hasAccessibleLabel(field),
+    })
+    if (result) results.push(result)
+  }
+
+  return results
+}
+
+/**
+ * Whether a form field has a label other than its placeholder
+ */
+function hasAccessibleLabel(field: HTMLElement): boolean {
+  if (field.getAttribute('aria-label')?.trim() || field.getAttribute('aria-labelledby')) return true
+  if (field.getAttribute('title')?.trim()) return true
+  if (field.closest('label')) return true
+  return !!field.id && !!(field.getRootNode() as Document | ShadowRoot).querySelector(`label[for="${CSS.escape(field.id)}"]`)
+}
+
+/**
+ * Check the declared interactive states of a scanned text element
+ * Returns one finding per state that drops below the required contrast.
+ * Disabled controls are exempt from 1.4.3, so those are reported as passing
+ * (shown as warnings) rather than failures.
+ */
+function scanElementStates(
+  element: HTMLElement,
+  resting: ScanResult,
+  stateStyles: StateStyleMap,
+  level: 'AA' | 'AAA'
+): ScanResult[] {
+  const findings: ScanResult[] = []
+  const style = window.getComputedStyle(element)
+
+  INTERACTIVE_STATES.forEach((state) => {
+    const byElement = stateStyles.get(state)
+    if (!byElement) return
+    if (state === 'visited' && !element.closest('a[href]')) return
+
+    // Color inherits, so walk up while the element has no color of its own
+    let fgValue: string | null = null
+    let current: HTMLElement | null = element
+    while (current) {
+      const declared = byElement.get(current)?.color
+      if (declared) {
+        fgValue = resolveDeclaredColor(declared.value, current)
+        break
+      }
+      const parent = getComposedParent(current)
+      if (!parent || window.getComputedStyle(parent).color !== window.getComputedStyle(current).color) break
+      current = parent
+    }
+
+    // Backgrounds show through from ancestors, so any layer may change
+    let bgChanged = false
+    const bgColor = getEffectiveBackgroundRgb(element, (layer) => {
+      const declared = byElement.get(layer)?.backgroundColor
+      const value = declared ? resolveDeclaredColor(declared.value, layer) : null
+      if (value) bgChanged = true
+      return value ?? undefined
+    })
+    if ((!fgValue && !bgChanged) || !bgColor) return
+
+    const fg = parseCssColorToRgb(fgValue && fgValue.toLowerCase() !== 'currentcolor' ? fgValue : style.color, 'color')
+    let fgColor = fg.rgb
+    if (!fgColor) return
+    if (fg.alpha < 0.99) fgColor = blendColors(fgColor, fg.alpha, bgColor)
+
+    const ratio = calculateContrastRatio(fgColor, bgColor)
+    const classification = classifyTextContrast(ratio, style.fontSize, style.fontWeight, level)
+    if (classification.passes) return
+
+    const analysis = analyzeContrast(fgColor, bgColor)
+    findings.push({
+      ...resting,
+      state,
+      foreground: rgbToHex(fgColor),
+      background: rgbToHex(bgColor),
+      ratio,
+      apcaLc: analysis.apca.lc,
+      score: analysis.score,
+      sampledRatio: undefined,
+      lowConfidence: undefined,
+      textEffect: undefined,
+      colorSource: undefined, // the state rule, not the resting one, sets these colors
+      tokens: undefined,
+      ...classification,
+      passes: state === 'disabled',
+    })
+  })
+
+  return findings
+}
+
+/**
+ * Scan UI components and graphics for WCAG 1.4.11 Non-text Contrast
+ * Each component is checked at 3:1 against the background it sits on
+ */
+async function scanNonTextElements(
+  level: 'AA' | 'AAA',
+  exclude: (element: HTMLElement) => boolean = isExtensionElement,
+  checkpoint: () => Promise<unknown> = async () => false
+): Promise<ScanResult[]> {
+  const results: ScanResult[] = []
+
+  for (const target of await findNonTextTargets(exclude, checkpoint)) {
+    await checkpoint()
+    // Resolved the same way as text, so positioned and overlapping layers agree
+    const bgColor = getPaintedBackgroundRgb(target.adjacentTo, target.color ?? target.fill ?? null)
+    if (!bgColor) continue
+
+    // A control can be identified by its border or by its own fill, so the stronger one counts
+    let fgColor = target.color
+    let ratio = fgColor ? calculateContrastRatio(fgColor, bgColor) : 0
+    if (target.fill) {
+      const fillRatio = calculateContrastRatio(target.fill, bgColor)
+      if (!fgColor || fillRatio > ratio) {
+        fgColor = target.fill
+        ratio = fillRatio
+      }
+    }
+    if (!fgColor) continue
+
+    const analysis = analyzeContrast(fgColor, bgColor)
+
+    results.push({
+      category: 'non-text',
+      component: target.component,
+      element: target.element.tagName.toLowerCase(),
+      selector: getUniqueSelector(target.element),
+      foreground: rgbToHex(fgColor),
+      background: rgbToHex(bgColor),
+      ratio,
+      apcaLc: analysis.apca.lc,
+      score: analysis.score,
+      fontSize: '',
+      fontWeight: '',
+      text: target.label,
+      ...classifyNonTextContrast(ratio, level),
+    })
+  }
+
+  return results
+}
+
+/**
+ * Check links told apart from their surrounding text by color alone (WCAG 1.4.1)
+ * The ratio is link color against text color; hover and focus rules are read
+ * for an underline, the non-color cue technique G183 also asks for
+ */
+async function scanColorOnlyLinks(
+  level: 'AA' | 'AAA',
+  exclude: (element: HTMLElement) => boolean = isExtensionElement,
+  stateStyles: StateStyleMap | null = null,
+  checkpoint: () => Promise<unknown> = async () => false
+): Promise<ScanResult[]> {
+  const links = await findColorOnlyLinks(exclude, checkpoint)
+  if (links.length === 0) return []
+  // Only the underline matters here, so don't index color rules when states weren't scanned
+  const states = stateStyles ?? await collectStateStyles(checkpoint, ['textDecorationLine'])
+  const underlinedOn = (state: InteractiveState, element: HTMLElement) =>
+    declaresUnderline(states.get(state)?.get(element)?.textDecorationLine?.value ?? '')
+
+  const results: ScanResult[] = []
+  links.forEach(({ element, surrounding, label }) => {
+    const bgColor = getEffectiveBackgroundRgb(element)
+    const style = window.getComputedStyle(element)
+    const link = parseCssColorToRgb(style.color, 'color')
+    const text = parseCssColorToRgb(window.getComputedStyle(surrounding).color, 'color')
+    if (!bgColor || !link.rgb || !text.rgb) return
+
+    const linkColor = link.alpha < 0.99 ? blendColors(link.rgb, link.alpha, bgColor) : link.rgb
+    const textColor = text.alpha < 0.99 ? blendColors(text.rgb, text.alpha, bgColor) : text.rgb
+    const ratio = calculateContrastRatio(linkColor, textColor)
+    const analysis = analyzeContrast(linkColor, textColor)
+
+    results.push({
+      category: 'link',
+      element: 'a',
+      selector: getUniqueSelector(element),
+      foreground: rgbToHex(linkColor),
+      background: rgbToHex(textColor),
+      ratio,
+      apcaLc: analysis.apca.lc,
+      score: analysis.score,
+      fontSize: style.fontSize,
+      fontWeight: style.fontWeight,
+      text: label,
+      link: { hoverFocusCue: underlinedOn('hover', element) && underlinedOn('focus-visible', element) },
+      ...classifyLinkDistinction(ratio, level),
+    })
+  })
+
+  return results
+}
+
+/**
+ * Check focus indicators (WCAG 2.4.7 / 2.4.13) on every focusable element
+ * The ratio is the contrast between the focused and unfocused pixels
+ */
+async function scanFocusIndicators(
+  level: 'AA' | 'AAA',
+  exclude: (element: HTMLElement) => boolean = isExtensionElement,
+  checkpoint: () => Promise<unknown> = async () => false
+): Promise<ScanResult[]> {
+  const targets = await checkFocusIndicators(exclude, getEffectiveBackgroundRgb, checkpoint, () => scanCancelled)
+  return targets.map(({ element, details, adjacent, label }) => {
+    const fgColor = details.indicatorColor ?? adjacent
+    const bgColor = details.previousColor ?? adjacent
+    const analysis = analyzeContrast(fgColor, bgColor)
+
+    return {
+      category: 'focus-indicator',
+      element: element.tagName.toLowerCase(),
+      selector: getUniqueSelector(element),
+      foreground: rgbToHex(fgColor),
+      background: rgbToHex(bgColor),
+      ratio: details.ratio,
+      apcaLc: analysis.apca.lc,
+      score: analysis.score,
+      fontSize: '',
+      fontWeight: '',
+      text: label,
+      focusIndicator: {
+        changedProperties: details.changedProperties,
+        areaPx: details.areaPx,
+        requiredAreaPx: details.requiredAreaPx,
+        visible: details.visible,
+        meetsEnhanced: details.meetsEnhanced,
+      },
+      ...classifyFocusIndicator(details, level),
+    }
+  })
+}
+
+/**
+ * Scan this page and all of its iframes
+ * The service worker fans the scan out to every frame and merges the results;
+ * if that fails we fall back to scanning just this document
+ */
+async function scanAllFrames(level: 'AA' | 'AAA', options: ScanOptions = {}): Promise<ScanResult[]> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'SCAN_ALL_FRAMES', level, options })
+    if (response?.success && Array.isArray(response.results)) {
+      return response.results
+    }
+  } catch (error) {
+    console.error('Error scanning frames:', error)
+  }
+  return scanPage(level, options)
+}
+
+/**
+ * Tell the popup and DevTools panel how far the scan has come
+ * Nobody may be listening, so delivery failures are ignored
+ */
+function reportScanProgress(processed: number, total: number) {
+  chrome.runtime
+    .sendMessage({ type: 'SCAN_PROGRESS', progress: createScanProgress(processed, total) })
+    .catch(() => {})
+}
+
 /**
  * Check if an element is part of the extension's injected UI
  */
@@ -467,7 +1182,6 @@ function isExtensionElement(element: HTMLElement): boolean {
         current.classList.contains('thewcag-overlay') ||
         current.classList.contains('thewcag-panel') ||
         current.classList.contains('thewcag-toast') ||
-        current.classList.contains('thewcag-color-preview') ||
         current.classList.contains('thewcag-highlight')) {
       return true
     }
@@ -476,6 +1190,42 @@ function isExtensionElement(element: HTMLElement): boolean {
   return false
 }
 
+/**
+ * Whether a selector is one the browser accepts
+ * User-entered exclude selectors are checked once so typos don't break the scan
+ */
+function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check if an element sits inside an excluded widget, including from within
+ * its shadow root
+ */
+function isExcludedElement(element: HTMLElement, selectors: string[]): boolean {
+  if (selectors.length === 0) return false
+  let current: HTMLElement | null = element
+  while (current) {
+    const node = current
+    if (selectors.some((selector) => node.closest(selector))) return true
+    current = getShadowHost(node)
+  }
+  return false
+}
+
+/**
+ * Check if any part of an element is inside the visible viewport
+ */
+function isInViewport(element: HTMLElement): boolean {
+  const rect = element.getBoundingClientRect()
+  return rect.bottom > 0 && rect.right > 0 && rect.top < window.innerHeight && rect.left < window.innerWidth
+}
+
 /**
  * Get direct text content from an element
  * Returns text that this specific element is responsible for rendering
@@ -549,46 +1299,134 @@ function getDirectTextContent(element: HTMLElement): string {
 /**
  * Get effective background color by walking up the DOM tree
  * and properly blending semi-transparent backgrounds
+ * `backgroundFor` can substitute a declared background for any layer
+ * (used to emulate interactive states)
  */
-function getEffectiveBackgroundRgb(element: HTMLElement): { r: number; g: number; b: number } | null {
-  // Collect all backgrounds from element to root (with their alpha values)
-  const backgrounds: Array<{ rgb: { r: number; g: number; b: number }; alpha: number }> = []
+function getEffectiveBackgroundRgb(
+  element: HTMLElement,
+  backgroundFor?: (element: HTMLElement) => string | undefined
+): { r: number; g: number; b: number } | null {
+  // Overridden backgrounds (state emulation) are one-offs, so skip the cache
+  const cache = backgroundFor ? null : backgroundCache
+
+  // Collect backgrounds from element to root (with their alpha values), stopping
+  // at an opaque one or at an ancestor whose result is already known
+  const path: Array<{ element: HTMLElement; layer: { rgb: { r: number; g: number; b: number }; alpha: number } | null }> = []
+  let base = { r: 255, g: 255, b: 255 } // default to white (common browser default)
   let current: HTMLElement | null = element
   
   while (current) {
+    const cached = cache?.get(current)
+    if (cached) {
+      base = cached
+      break
+    }
+
     const style = window.getComputedStyle(current)
-    const bg = style.backgroundColor
+    const bg = backgroundFor?.(current) ?? style.backgroundColor
     
     const parsed = parseCssColorToRgb(bg, 'backgroundColor')
-    if (parsed.rgb) {
-      backgrounds.push({ rgb: parsed.rgb, alpha: parsed.alpha })
-      
-      // If we found a fully opaque background, we can stop
-      if (parsed.alpha >= 0.99) {
-        break
-      }
+    const layer = parsed.rgb ? { rgb: parsed.rgb, alpha: parsed.alpha } : null
+    path.push({ element: current, layer })
+    
+    // If we found a fully opaque background, we can stop
+    if (layer && layer.alpha >= 0.99) {
+      break
     }
     
-    current = current.parentElement
-  }
-  
-  // If no backgrounds found, default to white (common browser default)
-  if (backgrounds.length === 0) {
-    return { r: 255, g: 255, b: 255 }
+    // Follow the composed tree so slotted and shadow content picks up
+    // the backgrounds it is actually rendered over
+    current = getComposedParent(current)
   }
   
-  // Start with the deepest (most ancestral) background, or white if all are semi-transparent
-  let result = { r: 255, g: 255, b: 255 }
-  
-  // Work backwards from root to element, blending each layer
-  for (let i = backgrounds.length - 1; i >= 0; i--) {
-    const layer = backgrounds[i]
-    result = blendColors(layer.rgb, layer.alpha, result)
+  // Work backwards from root to element, blending each layer and remembering
+  // the result for every ancestor on the way
+  let result = base
+  for (let i = path.length - 1; i >= 0; i--) {
+    const { element: node, layer } = path[i]
+    if (layer) result = blendColors(layer.rgb, layer.alpha, result)
+    cache?.set(node, result)
   }
   
   return result
 }
 
+/**
+ * Get the background behind an element's text or graphics
+ * Prefers what is actually painted under it (siblings, z-index, blend modes),
+ * falling back to the ancestor walk when the element is off-screen or covered.
+ * During a scan, elements only their ancestors paint under skip the probe and
+ * use the cached walk. If several backgrounds show through, the lowest-contrast one is used.
+ */
+function getPaintedBackgroundRgb(
+  element: HTMLElement,
+  fgColor: { r: number; g: number; b: number } | null
+): { r: number; g: number; b: number } | null {
+  if (paintProbeCache && !needsPaintProbe(element, paintProbeCache)) return getEffectiveBackgroundRgb(element)
+
+  let painted = paintedCache?.get(element)
+  if (painted === undefined) {
+    painted = resolvePaintedBackgrounds(element)
+    paintedCache?.set(element, painted)
+  }
+  if (!painted) return getEffectiveBackgroundRgb(element)
+  if (!fgColor) return painted[0]
+
+  return painted.reduce((worst, background) =>
+    calculateContrastRatio(fgColor, background) < calculateContrastRatio(fgColor, worst)
+      ? background
+      : worst
+  )
+}
+
+/**
+ * Check whether a background image (photo, gradient, etc.) paints behind an element
+ * Walks the same layers as getEffectiveBackgroundRgb, stopping at the first opaque color
+ */
+function hasBackgroundImageBehind(element: HTMLElement): boolean {
+  let current: HTMLElement | null = element
+
+  while (current) {
+    const style = window.getComputedStyle(current)
+    if (style.backgroundImage && style.backgroundImage !== 'none') {
+      return true
+    }
+    if (current instanceof HTMLVideoElement && current.poster) {
+      return true
+    }
+
+    const parsed = parseCssColorToRgb(style.backgroundColor, 'backgroundColor')
+    if (parsed.rgb && parsed.alpha >= 0.99) {
+      return false
+    }
+
+    current = getComposedParent(current)
+  }
+
+  return false
+}
+
+/**
+ * Read a text-shadow or -webkit-text-stroke that outlines the glyphs
+ * Translucent effect colors are flattened onto the background behind the text.
+ */
+function readTextEffect(style: CSSStyleDeclaration, background: RGB): TextEffect | null {
+  const readEffectColor = (value: string): RGB | null => {
+    const color = parseCssColorToRgb(value, 'color')
+    if (!color.rgb || color.alpha < 0.01) return null
+    return color.alpha < 0.99 ? blendColors(color.rgb, color.alpha, background) : color.rgb
+  }
+
+  return findOutlineEffect(
+    parseBoxShadow(style.textShadow, readEffectColor),
+    {
+      width: parseFloat(style.getPropertyValue('-webkit-text-stroke-width')) || 0,
+      color: readEffectColor(style.getPropertyValue('-webkit-text-stroke-color')),
+    },
+    parseFloat(style.fontSize) || 16
+  )
+}
+
 /**
  * Blend a foreground color with alpha over a background color
  * Uses standard alpha compositing (source-over)
@@ -607,8 +1445,20 @@ function blendColors(
 
 /**
  * Generate a unique, human-readable CSS selector for an element
+ * Elements inside shadow roots get a shadow-piercing path
+ * (`host >>> inner`) that resolveSelector() can follow back
  */
 function getUniqueSelector(element: HTMLElement): string {
+  const host = getShadowHost(element)
+  const scoped = getScopedSelector(element)
+  return host ? `${getUniqueSelector(host)}${SHADOW_SELECTOR_SEPARATOR}${scoped}` : scoped
+}
+
+/**
+ * Generate a selector that is unique within the element's own
+ * document or shadow root
+ */
+function getScopedSelector(element: HTMLElement): string {
   // If element has an ID, use it (most specific)
   if (element.id && !element.id.includes('thewcag')) {
     return `#${CSS.escape(element.id)}`
@@ -647,7 +1497,8 @@ function getUniqueSelector(element: HTMLElement): string {
     }
     
     // Add nth-child if needed to make it unique among siblings
-    const parent = current.parentElement
+    // (top-level shadow children have the shadow root as their parent node)
+    const parent = current.parentElement ?? (current.parentNode as ParentNode | null)
     if (parent && !current.id) {
       const siblings = Array.from(parent.children).filter(
         child => child.tagName === current!.tagName
@@ -666,17 +1517,207 @@ function getUniqueSelector(element: HTMLElement): string {
   return path.join(' > ')
 }
 
+/**
+ * Scan this document for an overlay, at the user's preferred level
+ * Overlays can't reach into other frames, so only this document is scanned.
+ * Resolves to null when the scan is cancelled.
+ */
+async function scanForOverlay(): Promise<ScanResult[] | null> {
+  if (isScanning) showToast('Waiting for the running scan to finish')
+
+  const prefs = await getPreferences()
+  const results = await scanPage(prefs.defaultLevel, {
+    pixelSampling: prefs.pixelSampling,
+    focusIndicators: prefs.focusIndicators,
+    interactiveStates: prefs.interactiveStates,
+  })
+  if (scanCancelled) {
+    showToast('Scan cancelled')
+    return null
+  }
+  return results
+}
+
+/**
+ * Show badges over every element in this document, or hide them
+ * Resolves to whether annotations are showing afterwards
+ */
+async function toggleAnnotations(): Promise<boolean> {
+  if (annotationLayer) {
+    hideAnnotations()
+    return false
+  }
+
+  const results = await scanForOverlay()
+  if (!results || !overlayContainer) return false
+
+  annotationLayer = createAnnotationLayer(overlayContainer, results, {
+    onPreview: (result, color) => {
+      previewFix({ selector: result.selector, property: 'color', value: color, suffix: getSelectorSuffix(result) })
+        .then((response) => annotationLayer?.merge(response.results ?? []))
+    },
+    onClose: hideAnnotations,
+  })
+  const failing = results.filter((result) => getScanStatus(result) === 'fail').length
+  showToast(failing ? `${failing} contrast ${failing === 1 ? 'failure' : 'failures'} annotated` : 'No contrast failures on this page')
+  return true
+}
+
+function hideAnnotations() {
+  annotationLayer?.destroy()
+  annotationLayer = null
+}
+
+/**
+ * Tint every text region by how far it is from the target ratio, or remove the tint
+ * Resolves to whether the heatmap is showing afterwards
+ */
+async function toggleHeatmap(): Promise<boolean> {
+  if (heatmapLayer) {
+    hideHeatmap()
+    return false
+  }
+
+  const results = await scanForOverlay()
+  if (!results || !overlayContainer) return false
+
+  heatmapLayer = createHeatmap(overlayContainer, results, hideHeatmap)
+  return true
+}
+
+function hideHeatmap() {
+  heatmapLayer?.destroy()
+  heatmapLayer = null
+}
+
+/**
+ * Render the page as seen with a color vision deficiency; null turns it off
+ */
+function simulateVision(simulation: CvdSimulation | null) {
+  if (!simulation) {
+    visionFilter?.layer.destroy()
+    visionFilter = null
+    return
+  }
+  if (!overlayContainer) return
+
+  if (visionFilter) {
+    visionFilter.layer.update(simulation)
+    visionFilter.simulation = simulation
+  } else {
+    visionFilter = { layer: createVisionFilter(overlayContainer, simulation, () => simulateVision(null)), simulation }
+  }
+}
+
+/**
+ * Preview a suggested color on the page and re-check the elements it touches
+ * Targets one element by selector (a scan result), or every element whose
+ * computed color matches `from` (a suggestion for a picked color)
+ */
+async function previewFix(message: {
+  selector?: string
+  from?: string
+  property: PreviewProperty
+  value: string
+  suffix?: string
+}): Promise<{
+  success: boolean
+  error?: string
+  count?: number
+  failing?: number
+  active?: number
+  results?: ScanResult[]
+}> {
+  const target = message.selector ? resolveSelector(message.selector) : null
+  const elements = message.selector
+    ? (target ? [target] : [])
+    : findElementsByColor(message.property, message.from ?? '')
+
+  if (elements.length === 0) {
+    const error = message.selector ? 'Element not found on page' : `No elements on this page use ${message.from}`
+    showToast(error)
+    return { success: false, error }
+  }
+
+  applyFixPreview(elements, message.property, message.value, message.suffix)
+  updatePreviewBar()
+
+  const prefs = await getPreferences()
+  let results: ScanResult[]
+  try {
+    results = await scanPage(prefs.defaultLevel, { interactiveStates: prefs.interactiveStates }, elements)
+  } catch (error) {
+    console.error('Preview re-scan failed:', error)
+    return { success: false, error: 'Could not re-check the previewed elements' }
+  }
+  // The preview stays applied; only its re-check is missing
+  if (scanCancelled) {
+    return { success: false, error: 'Re-check was cancelled', active: getFixPreviewCount() }
+  }
+  const failing = results.filter((result) => getScanStatus(result) === 'fail').length
+  showToast(
+    `Previewing ${message.value} on ${elements.length} ${elements.length === 1 ? 'element' : 'elements'}` +
+    (failing ? ` · ${failing} still failing` : ' · all passing')
+  )
+  return { success: true, count: elements.length, failing, active: getFixPreviewCount(), results }
+}
+
+/**
+ * Elements whose computed text or background color is the given color
+ */
+function findElementsByColor(property: PreviewProperty, hex: string): HTMLElement[] {
+  const target = parseColor(hex)
+  if (!target) return []
+  const targetHex = rgbToHex(target)
+
+  const candidates = property === 'color'
+    ? querySelectorAllDeep(TEXT_ELEMENT_SELECTOR)
+    : querySelectorAllDeep('*', document.body)
+  return candidates.filter((element) => {
+    if (isExtensionElement(element)) return false
+    const value = window.getComputedStyle(element).getPropertyValue(property)
+    const parsed = parseCssColorToRgb(value, property === 'color' ? 'color' : 'backgroundColor')
+    return !!parsed.rgb && parsed.alpha > 0 && rgbToHex(parsed.rgb) === targetHex
+  })
+}
+
+/**
+ * Show or hide the bar that lets the user revert previews from the page
+ */
+function updatePreviewBar() {
+  overlayContainer?.querySelector('.thewcag-preview-bar')?.remove()
+  const count = getFixPreviewCount()
+  if (!count || !overlayContainer) return
+
+  const bar = document.createElement('div')
+  bar.className = 'thewcag-preview-bar'
+  const label = document.createElement('span')
+  label.textContent = `${count} fix ${count === 1 ? 'preview' : 'previews'} active`
+  const revert = document.createElement('button')
+  revert.type = 'button'
+  revert.textContent = 'Revert all'
+  revert.addEventListener('click', () => {
+    revertFixPreviews()
+    updatePreviewBar()
+    showToast('Fix previews reverted')
+    // Let an open DevTools panel drop its preview ratios; nobody may be listening
+    chrome.runtime.sendMessage({ type: 'FIX_PREVIEWS_REVERTED' }).catch(() => {})
+  })
+  bar.append(label, revert)
+  overlayContainer.appendChild(bar)
+}
+
 /**
  * Check element at specific point
  */
 function checkElementAtPoint(x: number, y: number) {
-  const element = document.elementFromPoint(x, y) as HTMLElement
+  const element = deepElementFromPoint(x, y)
   if (!element) return
 
   const style = window.getComputedStyle(element)
   const fgColorStr = style.color
   const fg = parseCssColorToRgb(fgColorStr, 'color')
-  const bgColor = getEffectiveBackgroundRgb(element)
+  const bgColor = getPaintedBackgroundRgb(element, fg.rgb)
 
   const fgColor = fg.rgb
 
@@ -715,12 +1756,23 @@ function hideOverlayPanel() {
 /**
  * Show scan results in overlay panel
  */
-function showScanResults(results: ScanResult[]) {
+function showScanResults(
+  results: ScanResult[],
+  level: 'AA' | 'AAA' = 'AA',
+  metric: ContrastMetric = 'wcag2'
+) {
   // First hide any existing panel
   hideOverlayPanel()
-  const failures = results.filter(r => r.score === 'fail')
-  const warnings = results.filter(r => r.score === 'aa-large')
-  const passes = results.filter(r => r.score === 'aa' || r.score === 'aaa')
+  const textResults = results.filter(r => r.category === 'text')
+  const nonTextResults = results.filter(r => r.category === 'non-text')
+  const failures = textResults.filter(r => getScanStatus(r) === 'fail')
+  const warnings = textResults.filter(r => getScanStatus(r) === 'warning')
+  const passes = textResults.filter(r => getScanStatus(r) === 'pass')
+  const nonTextFailures = nonTextResults.filter(r => getScanStatus(r) === 'fail')
+  const focusResults = results.filter(r => r.category === 'focus-indicator')
+  const focusFailures = focusResults.filter(r => getScanStatus(r) === 'fail')
+  const linkResults = results.filter(r => r.category === 'link')
+  const linkFindings = linkResults.filter(r => getScanStatus(r) !== 'pass')
 
   // Create results panel
   const panel = document.createElement('div')
@@ -753,26 +1805,50 @@ function showScanResults(results: ScanResult[]) {
           </span>
         </div>
         <p style="font-size: 12px; color: #6B5B4F;">
-          Scanned ${results.length} text elements
+          Scanned ${textResults.length} text elements against WCAG ${level} and ${nonTextResults.length} UI components against 3:1${linkResults.length > 0 ? `, ${linkResults.length} color-only links` : ''}${focusResults.length > 0 ? `, plus ${focusResults.length} focus indicators` : ''}
         </p>
       </div>
       
       ${failures.length > 0 ? `
         <div style="margin-bottom: 16px;">
           <h4 style="font-size: 13px; font-weight: 600; color: #991b1b; margin-bottom: 8px;">Failures</h4>
-          ${failures.slice(0, 10).map(r => renderResultItem(r, 'fail')).join('')}
+          ${failures.slice(0, 10).map(r => renderResultItem(r, 'fail', metric)).join('')}
           ${failures.length > 10 ? `<p style="font-size: 11px; color: #6B5B4F;">+ ${failures.length - 10} more</p>` : ''}
         </div>
       ` : ''}
       
       ${warnings.length > 0 ? `
         <div style="margin-bottom: 16px;">
-          <h4 style="font-size: 13px; font-weight: 600; color: #92400e; margin-bottom: 8px;">Warnings (Large Text Only)</h4>
-          ${warnings.slice(0, 5).map(r => renderResultItem(r, 'warning')).join('')}
+          <h4 style="font-size: 13px; font-weight: 600; color: #92400e; margin-bottom: 8px;">Warnings (Review Manually)</h4>
+          ${warnings.slice(0, 5).map(r => renderResultItem(r, 'warning', metric)).join('')}
           ${warnings.length > 5 ? `<p style="font-size: 11px; color: #6B5B4F;">+ ${warnings.length - 5} more</p>` : ''}
         </div>
       ` : ''}
       
+      ${nonTextFailures.length > 0 ? `
+        <div style="margin-bottom: 16px;">
+          <h4 style="font-size: 13px; font-weight: 600; color: #991b1b; margin-bottom: 8px;">Non-text Contrast (1.4.11)</h4>
+          ${nonTextFailures.slice(0, 5).map(r => renderResultItem(r, 'fail', metric)).join('')}
+          ${nonTextFailures.length > 5 ? `<p style="font-size: 11px; color: #6B5B4F;">+ ${nonTextFailures.length - 5} more</p>` : ''}
+        </div>
+      ` : ''}
+      
+      ${linkFindings.length > 0 ? `
+        <div style="margin-bottom: 16px;">
+          <h4 style="font-size: 13px; font-weight: 600; color: #991b1b; margin-bottom: 8px;">Links Distinguished by Color Only (1.4.1)</h4>
+          ${linkFindings.slice(0, 5).map(r => renderResultItem(r, getScanStatus(r) === 'fail' ? 'fail' : 'warning', metric)).join('')}
+          ${linkFindings.length > 5 ? `<p style="font-size: 11px; color: #6B5B4F;">+ ${linkFindings.length - 5} more</p>` : ''}
+        </div>
+      ` : ''}
+      
+      ${focusFailures.length > 0 ? `
+        <div style="margin-bottom: 16px;">
+          <h4 style="font-size: 13px; font-weight: 600; color: #991b1b; margin-bottom: 8px;">Focus Indicators (2.4.7 / 2.4.13)</h4>
+          ${focusFailures.slice(0, 5).map(r => renderResultItem(r, 'fail', metric)).join('')}
+          ${focusFailures.length > 5 ? `<p style="font-size: 11px; color: #6B5B4F;">+ ${focusFailures.length - 5} more</p>` : ''}
+        </div>
+      ` : ''}
+      
       <a href="https://thewcag.com/tools/contrast-checker" target="_blank" style="display: block; text-align: center; font-size: 12px; color: #D97706; text-decoration: none; margin-top: 16px;">
         Full contrast checker at TheWCAG.com →
       </a>
@@ -792,24 +1868,68 @@ function showScanResults(results: ScanResult[]) {
   }, 30000)
 }
 
-function renderResultItem(result: ScanResult, type: 'fail' | 'warning'): string {
+/**
+ * Escape a value for the overlay markup; frame results carry text from other origins
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderResultItem(result: ScanResult, type: 'fail' | 'warning', metric: ContrastMetric): string {
   const borderColor = type === 'fail' ? '#fecaca' : '#fde68a'
+  const measures: string[] = []
+  // APCA has no non-text thresholds, so UI components always show the ratio
+  const isNonText = result.category !== 'text'
+  if (metric !== 'apca' || isNonText) measures.push(`${result.ratio.toFixed(2)}:1`)
+  if (metric !== 'wcag2' && !isNonText) measures.push(formatApcaContrast(result.apcaLc))
   return `
     <div style="padding: 8px; background: ${type === 'fail' ? '#fef2f2' : '#fffbeb'}; border: 1px solid ${borderColor}; border-radius: 6px; margin-bottom: 6px; font-size: 12px;">
       <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 4px;">
-        <code style="font-size: 11px; color: #374151;">${result.selector}</code>
-        <span style="font-weight: 600; color: ${type === 'fail' ? '#991b1b' : '#92400e'};">${result.ratio.toFixed(2)}:1</span>
+        <code style="font-size: 11px; color: #374151;">${escapeHtml(result.selector)}</code>
+        <span style="font-weight: 600; color: ${type === 'fail' ? '#991b1b' : '#92400e'};">${measures.join(' · ')}</span>
       </div>
       <div style="display: flex; gap: 8px; align-items: center;">
-        <div style="width: 16px; height: 16px; border-radius: 3px; background: ${result.foreground}; border: 1px solid #e5e7eb;"></div>
+        <div style="width: 16px; height: 16px; border-radius: 3px; background: ${escapeHtml(result.foreground)}; border: 1px solid #e5e7eb;"></div>
         <span style="color: #6b7280;">on</span>
-        <div style="width: 16px; height: 16px; border-radius: 3px; background: ${result.background}; border: 1px solid #e5e7eb;"></div>
-        <span style="color: #6b7280; flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">"${result.text}"</span>
+        <div style="width: 16px; height: 16px; border-radius: 3px; background: ${escapeHtml(result.background)}; border: 1px solid #e5e7eb;"></div>
+        <span style="color: #6b7280; flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">${escapeHtml(getResultLabel(result))}</span>
       </div>
+      ${result.sampledRatio ? `<div style="margin-top: 4px; font-size: 11px; color: #6b7280;">sampled min ${result.sampledRatio.min.toFixed(2)} · median ${result.sampledRatio.median.toFixed(2)} · max ${result.sampledRatio.max.toFixed(2)} <span style="padding: 0 4px; border-radius: 3px; background: #e5e7eb; color: #374151;">low confidence</span></div>` : ''}
+      ${result.frameId ? `<div style="margin-top: 4px; font-size: 11px; color: #6b7280; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">in iframe: ${escapeHtml(result.frameUrl ?? '')}</div>` : ''}
     </div>
   `
 }
 
+/**
+ * Describe what a result refers to in the overlay
+ */
+function getResultLabel(result: ScanResult): string {
+  if (result.component) return `${NON_TEXT_COMPONENT_LABELS[result.component]}: ${result.text}`
+  if (result.focusIndicator) {
+    const changes = result.focusIndicator.changedProperties
+    return `${result.text} · ${changes.length > 0 ? `focus changes ${changes.join(', ')}` : 'no visible focus change'}`
+  }
+  if (result.link) {
+    return `link "${result.text}" vs surrounding text${result.link.hoverFocusCue ? '' : ' · no underline on hover/focus'}`
+  }
+  if (result.state) return `"${result.text}" on ${INTERACTIVE_STATE_LABELS[result.state]}`
+  if (result.pseudoElement) {
+    const note = result.placeholderAsLabel ? ' (placeholder used as label)' : ''
+    return `${result.pseudoElement} "${result.text}"${note}`
+  }
+  if (result.textEffect) {
+    const { source, color, ratio } = result.textEffect
+    const outcome = result.passes ? 'passes via' : 'fails even with'
+    return `"${result.text}" · ${outcome} ${source} ${color} (${ratio.toFixed(2)}:1)`
+  }
+  return `"${result.text}"`
+}
+
 /**
  * Show toast notification
  */
@@ -832,7 +1952,7 @@ function showToast(message: string) {
  */
 function scrollToElement(selector: string) {
   try {
-    const element = document.querySelector(selector) as HTMLElement
+    const element = resolveSelector(selector)
     if (!element) {
       showToast('Element not found on page')
       return
@@ -858,7 +1978,7 @@ function scrollToElement(selector: string) {
  */
 function highlightElement(selector: string, duration: number = 3000) {
   try {
-    const element = document.querySelector(selector) as HTMLElement
+    const element = resolveSelector(selector)
     if (!element) return
 
     // Store original styles
@@ -866,18 +1986,20 @@ function highlightElement(selector: string, duration: number = 3000) {
     const originalOutlineOffset = element.style.outlineOffset
     const originalTransition = element.style.transition
 
-    // Apply highlight
-    element.style.transition = 'outline 0.2s ease'
-    element.style.outline = '3px solid #D97706'
-    element.style.outlineOffset = '2px'
+    // Apply highlight; written through writeOwnStyle so watch mode doesn't re-scan
+    writeOwnStyle(element, (style) => {
+      style.transition = 'outline 0.2s ease'
+      style.outline = '3px solid #D97706'
+      style.outlineOffset = '2px'
+    })
 
     // Create a pulsing animation
     let pulseCount = 0
     const pulseInterval = setInterval(() => {
       pulseCount++
-      element.style.outline = pulseCount % 2 === 0 
-        ? '3px solid #D97706' 
-        : '3px solid #F59E0B'
+      writeOwnStyle(element, (style) => {
+        style.outline = pulseCount % 2 === 0 ? '3px solid #D97706' : '3px solid #F59E0B'
+      })
       
       if (pulseCount >= 6) {
         clearInterval(pulseInterval)
@@ -887,9 +2009,11 @@ function highlightElement(selector: string, duration: number = 3000) {
     // Remove highlight after duration
     setTimeout(() => {
       clearInterval(pulseInterval)
-      element.style.outline = originalOutline
-      element.style.outlineOffset = originalOutlineOffset
-      element.style.transition = originalTransition
+      writeOwnStyle(element, (style) => {
+        style.outline = originalOutline
+        style.outlineOffset = originalOutlineOffset
+        style.transition = originalTransition
+      })
     }, duration)
   } catch (error) {
     console.error('Error highlighting element:', error)
@@ -0,0 +1,121 @@
+/**
+ * CSS color parsing for the content script
+ * Falls back to the browser's own computed style for syntaxes the pure
+ * parser in lib/color-utils does not understand
+ */
+
+import { RGB, parseColor } from '@/lib/color-utils'
+
+let cssColorProbeEl: HTMLDivElement | null = null
+
+/**
+ * Create (once) a hidden element we can use to normalize any CSS color string
+ * into a computed rgb/rgba value that our parser understands.
+ */
+function getCssColorProbe(): HTMLDivElement {
+  if (cssColorProbeEl) return cssColorProbeEl
+  cssColorProbeEl = document.createElement('div')
+  cssColorProbeEl.className = 'thewcag-color-probe' // so watch mode ignores our writes
+  cssColorProbeEl.style.position = 'fixed'
+  cssColorProbeEl.style.left = '-99999px'
+  cssColorProbeEl.style.top = '-99999px'
+  cssColorProbeEl.style.width = '1px'
+  cssColorProbeEl.style.height = '1px'
+  cssColorProbeEl.style.pointerEvents = 'none'
+  cssColorProbeEl.style.opacity = '0'
+  document.documentElement.appendChild(cssColorProbeEl)
+  return cssColorProbeEl
+}
+
+function parseAlphaFromCssColor(str: string): number {
+  const s = str.trim().toLowerCase()
+  if (s === 'transparent') return 0
+
+  // rgba(1, 2, 3, 0.5)
+  let m = s.match(/rgba\s*\(\s*[\d.]+\s*,\s*[\d.]+\s*,\s*[\d.]+\s*,\s*([\d.]+)\s*\)/)
+  if (m) return Math.min(1, Math.max(0, parseFloat(m[1])))
+
+  // rgb(1 2 3 / 50%) or rgb(1 2 3 / 0.5)
+  m = s.match(/rgb[a]?\s*\(\s*[\d.]+\s+[\d.]+\s+[\d.]+\s*\/\s*([\d.]+%?)\s*\)/)
+  if (m) {
+    const raw = m[1]
+    if (raw.endsWith('%')) return Math.min(1, Math.max(0, parseFloat(raw) / 100))
+    return Math.min(1, Math.max(0, parseFloat(raw)))
+  }
+
+  // color(srgb r g b / a)
+  m = s.match(/color\s*\(\s*srgb\s+[\d.]+\s+[\d.]+\s+[\d.]+\s*\/\s*([\d.]+%?)\s*\)/)
+  if (m) {
+    const raw = m[1]
+    if (raw.endsWith('%')) return Math.min(1, Math.max(0, parseFloat(raw) / 100))
+    return Math.min(1, Math.max(0, parseFloat(raw)))
+  }
+
+  // If no alpha specified, assume opaque.
+  return 1
+}
+
+/**
+ * Parse a CSS color string into RGB, with a browser-based fallback for modern syntaxes
+ * like `oklab()`, `color(display-p3 ...)`, CSS variables, etc.
+ */
+export function parseCssColorToRgb(colorStr: string, property: 'color' | 'backgroundColor' = 'color'): { rgb: { r: number; g: number; b: number } | null; alpha: number } {
+  // First try our pure parser
+  const direct = parseColor(colorStr)
+  if (direct) {
+    return { rgb: direct, alpha: parseAlphaFromCssColor(colorStr) }
+  }
+
+  // Fallback: let the browser compute it
+  try {
+    const probe = getCssColorProbe()
+    if (property === 'color') {
+      probe.style.color = ''
+      probe.style.color = colorStr
+      const computed = window.getComputedStyle(probe).color
+      return { rgb: parseColor(computed), alpha: parseAlphaFromCssColor(computed) }
+    }
+
+    probe.style.backgroundColor = ''
+    probe.style.backgroundColor = colorStr
+    const computed = window.getComputedStyle(probe).backgroundColor
+    return { rgb: parseColor(computed), alpha: parseAlphaFromCssColor(computed) }
+  } catch {
+    return { rgb: null, alpha: 1 }
+  }
+}
+
+/**
+ * Parse a computed color, ignoring transparent and paint-server values
+ * (SVG `fill: none` or `url(#gradient)`)
+ */
+export function readColor(value: string, alphaThreshold = 0.01): RGB | undefined {
+  const trimmed = value.trim()
+  if (!trimmed || trimmed === 'none' || trimmed.startsWith('url(')) return undefined
+
+  const parsed = parseCssColorToRgb(trimmed, 'color')
+  if (!parsed.rgb || parsed.alpha < alphaThreshold) return undefined
+  return parsed.rgb
+}
+
+/**
+ * Width and color of the most prominent border side
+ * (many fields only draw a bottom border)
+ */
+export function getWidestBorder(style: CSSStyleDeclaration): { width: number; color: RGB | undefined } {
+  const sides = ['top', 'right', 'bottom', 'left']
+  let widest: { width: number; color: RGB | undefined } = { width: 0, color: undefined }
+
+  for (const side of sides) {
+    const width = parseFloat(style.getPropertyValue(`border-${side}-width`))
+    const borderStyle = style.getPropertyValue(`border-${side}-style`)
+    if (!width || borderStyle === 'none' || borderStyle === 'hidden') continue
+
+    const color = readColor(style.getPropertyValue(`border-${side}-color`))
+    if (color && width > widest.width) {
+      widest = { width, color }
+    }
+  }
+
+  return widest
+}
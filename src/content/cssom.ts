@@ -0,0 +1,100 @@
+/**
+ * CSSOM helpers for the content script
+ * Used to find rules for states the scanner cannot observe directly
+ * (:focus, :hover, :visited, ...)
+ * Sheets are read from the document and every open shadow root; a rule from a
+ * shadow root only applies to elements inside that root (see isRuleInScope).
+ */
+
+import { getOpenShadowRoots } from './shadow-dom'
+
+export interface StyleSheetSnapshot {
+  sheets: CSSStyleSheet[]
+  ruleCounts: number[]
+  viewport: string // @media blocks switch with the viewport size
+}
+
+// Roots each sheet was found in; an adopted sheet can be shared by several
+const sheetScopes = new WeakMap<CSSStyleSheet, Set<Document | ShadowRoot>>()
+
+function getStyleSheets(): CSSStyleSheet[] {
+  const sheets = new Set<CSSStyleSheet>()
+  ;[document, ...getOpenShadowRoots()].forEach((root) => {
+    const rootSheets = [...Array.from(root.styleSheets), ...Array.from(root.adoptedStyleSheets ?? [])]
+    rootSheets.forEach((sheet) => {
+      if (!sheets.has(sheet)) sheetScopes.set(sheet, new Set())
+      sheetScopes.get(sheet)!.add(root)
+      sheets.add(sheet)
+    })
+  })
+  return Array.from(sheets)
+}
+
+/**
+ * Whether a collected rule can apply to an element: the element must be in
+ * the document or shadow root the rule's sheet is attached to
+ */
+export function isRuleInScope(rule: CSSRule, element: Element): boolean {
+  const sheet = rule.parentStyleSheet
+  const scopes = sheet ? sheetScopes.get(sheet) : undefined
+  return !scopes || scopes.has(element.getRootNode() as Document | ShadowRoot)
+}
+
+function countRules(sheet: CSSStyleSheet): number {
+  try {
+    return sheet.cssRules.length
+  } catch {
+    return -1 // cross-origin stylesheet
+  }
+}
+
+/**
+ * What the collected rules depend on: which sheets are attached, how many
+ * top-level rules each has, and the viewport size
+ * Replacing a <style> element's text creates a new sheet, so edits show up too.
+ */
+export function getStyleSheetSnapshot(): StyleSheetSnapshot {
+  const sheets = getStyleSheets()
+  return {
+    sheets,
+    ruleCounts: sheets.map(countRules),
+    viewport: `${window.innerWidth}x${window.innerHeight}`,
+  }
+}
+
+export function isSameSnapshot(a: StyleSheetSnapshot, b: StyleSheetSnapshot): boolean {
+  return a.viewport === b.viewport &&
+    a.sheets.length === b.sheets.length &&
+    a.sheets.every((sheet, index) => sheet === b.sheets[index] && a.ruleCounts[index] === b.ruleCounts[index])
+}
+
+/**
+ * Collect style rules matching a predicate, in source order
+ * Descends into @media (only when it currently applies), @supports and
+ * @layer blocks; cross-origin sheets cannot be read and are skipped
+ */
+export function collectStyleRules(predicate: (rule: CSSStyleRule) => boolean): CSSStyleRule[] {
+  const rules: CSSStyleRule[] = []
+
+  const visit = (list: CSSRuleList) => {
+    Array.from(list).forEach((rule) => {
+      if (rule instanceof CSSStyleRule) {
+        if (predicate(rule)) rules.push(rule)
+      } else if (rule instanceof CSSMediaRule) {
+        if (window.matchMedia(rule.conditionText).matches) visit(rule.cssRules)
+      } else if ('cssRules' in rule) {
+        visit((rule as CSSGroupingRule).cssRules)
+      }
+    })
+  }
+
+  getStyleSheets().forEach((sheet) => {
+    try {
+      visit(sheet.cssRules)
+    } catch {
+      // Cross-origin stylesheet
+    }
+  })
+
+  return rules
+}
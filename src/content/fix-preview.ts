@@ -0,0 +1,116 @@
+/**
+ * Fix previews
+ * Tries suggested colors on the page through injected `<style>` overrides.
+ * Elements are tagged with a data attribute rather than matched by selector,
+ * so a preview also reaches into shadow roots: each root that holds a tagged
+ * element gets its own style element. Reverting removes both.
+ */
+
+export type PreviewProperty = 'color' | 'background-color'
+
+interface FixPreview {
+  id: string
+  property: PreviewProperty
+  value: string
+  suffix: string // state or pseudo-element the override applies to, e.g. `:hover`
+  elements: Set<HTMLElement>
+}
+
+const PREVIEW_ATTRIBUTE = 'data-thewcag-fix'
+const STYLE_CLASS = 'thewcag-fix-preview'
+
+const previews = new Map<string, FixPreview>()
+let nextPreviewId = 1
+
+function getTokens(element: HTMLElement): string[] {
+  return (element.getAttribute(PREVIEW_ATTRIBUTE) ?? '').split(/\s+/).filter(Boolean)
+}
+
+function setTokens(element: HTMLElement, tokens: string[]) {
+  if (tokens.length) element.setAttribute(PREVIEW_ATTRIBUTE, tokens.join(' '))
+  else element.removeAttribute(PREVIEW_ATTRIBUTE)
+}
+
+function removeStyles(root: Document | ShadowRoot) {
+  root.querySelectorAll(`style.${STYLE_CLASS}`).forEach((style) => style.remove())
+}
+
+/**
+ * Rewrite the override styles in every root that has previewed elements
+ * Rules are written in preview order, so a later preview wins a tie
+ */
+function renderStyles(stale: Set<Document | ShadowRoot>) {
+  const rulesByRoot = new Map<Document | ShadowRoot, string[]>()
+  previews.forEach((preview) => {
+    const rule = `[${PREVIEW_ATTRIBUTE}~="${preview.id}"]${preview.suffix} { ${preview.property}: ${preview.value} !important; }`
+    preview.elements.forEach((element) => {
+      const root = element.getRootNode()
+      if (!(root instanceof Document || root instanceof ShadowRoot)) return
+      const rules = rulesByRoot.get(root) ?? []
+      if (!rules.includes(rule)) rules.push(rule)
+      rulesByRoot.set(root, rules)
+    })
+  })
+
+  stale.forEach(removeStyles)
+  rulesByRoot.forEach((rules, root) => {
+    removeStyles(root)
+    const style = document.createElement('style')
+    style.className = STYLE_CLASS
+    style.textContent = rules.join('\n')
+    if (root instanceof Document) root.head.appendChild(style)
+    else root.appendChild(style)
+  })
+}
+
+/**
+ * Override a property on the given elements until reverted
+ * An element keeps only its latest preview for the same property and state.
+ */
+export function applyFixPreview(
+  elements: HTMLElement[],
+  property: PreviewProperty,
+  value: string,
+  suffix: string = ''
+): void {
+  const stale = new Set<Document | ShadowRoot>()
+  const id = `fix-${nextPreviewId++}`
+  const preview: FixPreview = { id, property, value, suffix, elements: new Set(elements) }
+
+  previews.forEach((other) => {
+    if (other.property !== property || other.suffix !== suffix) return
+    elements.forEach((element) => {
+      if (!other.elements.delete(element)) return
+      setTokens(element, getTokens(element).filter((token) => token !== other.id))
+    })
+    if (other.elements.size === 0) previews.delete(other.id)
+  })
+
+  previews.set(id, preview)
+  elements.forEach((element) => {
+    stale.add(element.getRootNode() as Document | ShadowRoot)
+    setTokens(element, [...getTokens(element), id])
+  })
+  renderStyles(stale)
+}
+
+/**
+ * Remove every preview; returns how many were active
+ */
+export function revertFixPreviews(): number {
+  const count = previews.size
+  const roots = new Set<Document | ShadowRoot>([document])
+  previews.forEach((preview) => {
+    preview.elements.forEach((element) => {
+      roots.add(element.getRootNode() as Document | ShadowRoot)
+      element.removeAttribute(PREVIEW_ATTRIBUTE)
+    })
+  })
+  previews.clear()
+  roots.forEach(removeStyles)
+  return count
+}
+
+export function getFixPreviewCount(): number {
+  return previews.size
+}
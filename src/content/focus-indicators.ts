@@ -0,0 +1,106 @@
+/**
+ * Focus indicator checker (WCAG 2.4.7 / 2.4.13)
+ * Programmatically focuses every focusable element and compares its styles
+ * before and after. Pages that only style :focus-visible after keyboard use
+ * may not show their ring for programmatic focus, so results are a lower bound.
+ */
+
+import { RGB } from '@/lib/color-utils'
+import { FocusIndicatorDetails, FocusStyleSnapshot, analyzeFocusIndicator, parseBoxShadow } from '@/lib/focus-indicator'
+import { querySelectorAllDeep, getComposedParent } from './shadow-dom'
+import { readColor, getWidestBorder } from './css-color'
+import { FOCUSABLE_SELECTOR, getLabel, isRendered } from './non-text'
+
+export interface FocusIndicatorTarget {
+  element: HTMLElement
+  details: FocusIndicatorDetails
+  adjacent: RGB
+  label: string
+}
+
+// Focusing is slow on huge pages; the first elements in tab order matter most
+const MAX_FOCUS_CHECKS = 1000
+
+const WHITE: RGB = { r: 255, g: 255, b: 255 }
+
+/**
+ * Freeze transitions so computed styles reflect the final focused state
+ */
+function disableTransitions(): HTMLStyleElement {
+  const style = document.createElement('style')
+  style.textContent = '*, *::before, *::after { transition: none !important; animation: none !important; }'
+  document.documentElement.appendChild(style)
+  return style
+}
+
+function snapshot(element: HTMLElement, getBackground: (element: HTMLElement) => RGB | null): FocusStyleSnapshot {
+  const style = window.getComputedStyle(element)
+  const border = getWidestBorder(style)
+
+  return {
+    outlineWidth: style.outlineStyle === 'none' ? 0 : parseFloat(style.outlineWidth) || 0,
+    outlineColor: readColor(style.outlineColor) ?? null,
+    outlineOffset: parseFloat(style.outlineOffset) || 0,
+    borderWidth: border.width,
+    borderColor: border.color ?? null,
+    boxShadow: parseBoxShadow(style.boxShadow, (color) => readColor(color) ?? null),
+    background: getBackground(element) ?? WHITE,
+  }
+}
+
+function isFocusCandidate(element: HTMLElement): boolean {
+  if (!element.matches(FOCUSABLE_SELECTOR) || element.tabIndex < 0) return false
+  if ((element as HTMLButtonElement).disabled || element.closest('[inert]')) return false
+  if (element instanceof HTMLInputElement && element.type === 'hidden') return false
+  return isRendered(element)
+}
+
+/**
+ * Focus each focusable element in turn and analyze its focus indicator
+ * Yields between elements at `checkpoint` and stops early once `isCancelled`;
+ * restores the previously focused element afterwards
+ */
+export async function checkFocusIndicators(
+  exclude: (element: HTMLElement) => boolean,
+  getBackground: (element: HTMLElement) => RGB | null,
+  checkpoint: () => Promise<unknown> = async () => false,
+  isCancelled: () => boolean = () => false
+): Promise<FocusIndicatorTarget[]> {
+  const targets: FocusIndicatorTarget[] = []
+  const previouslyFocused = document.activeElement as HTMLElement | null
+  const freeze = disableTransitions()
+
+  try {
+    const elements = querySelectorAllDeep(FOCUSABLE_SELECTOR)
+      .filter((element) => isFocusCandidate(element) && !exclude(element))
+      .slice(0, MAX_FOCUS_CHECKS)
+
+    for (const element of elements) {
+      if ((await checkpoint()) && isCancelled()) break
+      if (element.matches(':focus')) element.blur()
+      const unfocused = snapshot(element, getBackground)
+
+      // focusVisible asks the browser to draw the keyboard focus ring where supported
+      element.focus({ preventScroll: true, focusVisible: true } as FocusOptions)
+      if (!element.matches(':focus')) continue
+      const focused = snapshot(element, getBackground)
+      element.blur()
+
+      const rect = element.getBoundingClientRect()
+      const parent = getComposedParent(element)
+      const adjacent = (parent && getBackground(parent)) ?? WHITE
+
+      targets.push({
+        element,
+        details: analyzeFocusIndicator(unfocused, focused, rect, adjacent),
+        adjacent,
+        label: getLabel(element, (element.innerText || element.textContent || element.tagName.toLowerCase()).trim()),
+      })
+    }
+  } finally {
+    freeze.remove()
+    previouslyFocused?.focus({ preventScroll: true })
+  }
+
+  return targets
+}
@@ -0,0 +1,128 @@
+/**
+ * Heatmap overlay
+ * Tints every scanned text region on one viewport-sized canvas, redrawn on
+ * scroll and resize, with a small legend that also closes the overlay
+ */
+
+import { ScanResult } from '@/lib/scanner'
+import { HeatLevel, HEAT_COLORS, HEAT_LEVEL_LABELS, getHeatmapEntries } from '@/lib/heatmap'
+import { resolveSelector } from './shadow-dom'
+
+export interface HeatmapLayer {
+  update: (results: ScanResult[]) => void
+  destroy: () => void
+}
+
+interface Region {
+  element: HTMLElement
+  level: HeatLevel
+}
+
+// Passing regions are drawn first so failures stay on top where they overlap
+const DRAW_ORDER: HeatLevel[] = ['pass', 'close', 'far']
+
+function createLegend(onClose: () => void): HTMLDivElement {
+  const legend = document.createElement('div')
+  legend.className = 'thewcag-heatmap-legend'
+
+  ;[...DRAW_ORDER].reverse().forEach((level) => {
+    const item = document.createElement('span')
+    const swatch = document.createElement('span')
+    swatch.className = 'thewcag-heatmap-swatch'
+    swatch.style.background = HEAT_COLORS[level]
+    item.append(swatch, HEAT_LEVEL_LABELS[level])
+    legend.appendChild(item)
+  })
+
+  const close = document.createElement('button')
+  close.type = 'button'
+  close.textContent = '×'
+  close.setAttribute('aria-label', 'Hide heatmap')
+  close.addEventListener('click', onClose)
+  legend.appendChild(close)
+  return legend
+}
+
+/**
+ * Line boxes of the element's own text, so padding and wide blocks aren't tinted
+ * Falls back to the border box when the text isn't in child nodes (e.g. placeholders)
+ */
+function getTextRects(element: HTMLElement): DOMRect[] {
+  const range = document.createRange()
+  const rects: DOMRect[] = []
+  element.childNodes.forEach((node) => {
+    if (node.nodeType !== Node.TEXT_NODE || !node.textContent?.trim()) return
+    range.selectNodeContents(node)
+    rects.push(...Array.from(range.getClientRects()))
+  })
+  return rects.length > 0 ? rects : [element.getBoundingClientRect()]
+}
+
+/**
+ * Draw the heatmap for the given results inside the overlay container
+ */
+export function createHeatmap(
+  container: HTMLElement,
+  initialResults: ScanResult[],
+  onClose: () => void
+): HeatmapLayer {
+  const canvas = document.createElement('canvas')
+  canvas.className = 'thewcag-heatmap'
+  const legend = createLegend(onClose)
+  container.append(canvas, legend)
+  const ctx = canvas.getContext('2d')
+
+  let regions: Region[] = []
+  let frame: number | null = null
+
+  const draw = () => {
+    frame = null
+    if (!ctx) return
+    const scale = window.devicePixelRatio || 1
+    const width = window.innerWidth
+    const height = window.innerHeight
+    if (canvas.width !== Math.round(width * scale) || canvas.height !== Math.round(height * scale)) {
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+    }
+    ctx.setTransform(scale, 0, 0, scale, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+
+    DRAW_ORDER.forEach((level) => {
+      ctx.fillStyle = HEAT_COLORS[level]
+      regions.forEach((region) => {
+        if (region.level !== level || !region.element.isConnected) return
+        getTextRects(region.element).forEach((rect) => {
+          if (rect.bottom < 0 || rect.right < 0 || rect.top > height || rect.left > width) return
+          ctx.fillRect(rect.left, rect.top, rect.width, rect.height)
+        })
+      })
+    })
+  }
+
+  const schedule = () => {
+    if (frame === null) frame = requestAnimationFrame(draw)
+  }
+
+  const update = (results: ScanResult[]) => {
+    regions = getHeatmapEntries(results)
+      .map((entry) => ({ element: resolveSelector(entry.selector), level: entry.level }))
+      .filter((region): region is Region => region.element !== null)
+    schedule()
+  }
+
+  window.addEventListener('scroll', schedule, { capture: true, passive: true })
+  window.addEventListener('resize', schedule)
+  update(initialResults)
+
+  return {
+    update,
+    destroy: () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', schedule, { capture: true })
+      window.removeEventListener('resize', schedule)
+      canvas.remove()
+      legend.remove()
+    },
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Hover inspector
+ * Outlines the text element under the cursor and shows its colors, ratio,
+ * text size class and AA/AAA results in a tooltip that follows the pointer.
+ * Clicking pins the pair; Escape leaves the mode. Only this document's
+ * elements are inspected, since pointer events in iframes stay in the iframe.
+ */
+
+import { RGB, rgbToHex } from '@/lib/color-utils'
+import { calculateContrastRatio, formatContrastRatio, passesWcag } from '@/lib/contrast'
+import { deepElementFromPoint } from './shadow-dom'
+
+export interface InspectedPair {
+  foreground: RGB
+  background: RGB
+  fontSize: number // px
+  fontWeight: number
+  largeText: boolean
+}
+
+export interface InspectorCallbacks {
+  measure: (element: HTMLElement) => InspectedPair | null // null when the element has no text of its own
+  isIgnored: (element: HTMLElement) => boolean // the extension's own UI
+  onPin: (pair: InspectedPair) => void
+  onExit: () => void
+}
+
+export interface InspectorSession {
+  stop: () => void
+}
+
+const TOOLTIP_OFFSET_PX = 16
+
+function createSwatch(color: string): HTMLSpanElement {
+  const swatch = document.createElement('span')
+  swatch.className = 'thewcag-inspector-swatch'
+  swatch.style.background = color
+  return swatch
+}
+
+function createLevelBadge(label: string, passes: boolean): HTMLSpanElement {
+  const badge = document.createElement('span')
+  badge.className = `thewcag-inspector-level ${passes ? 'thewcag-inspector-pass' : 'thewcag-inspector-fail'}`
+  badge.textContent = `${label} ${passes ? '✓' : '✗'}`
+  return badge
+}
+
+function renderTooltip(tooltip: HTMLElement, pair: InspectedPair) {
+  const foreground = rgbToHex(pair.foreground)
+  const background = rgbToHex(pair.background)
+  const size = pair.largeText ? 'large' : 'normal'
+
+  const colors = document.createElement('div')
+  colors.append(createSwatch(foreground), ` ${foreground} on `, createSwatch(background), ` ${background}`)
+
+  const ratio = document.createElement('div')
+  ratio.className = 'thewcag-inspector-ratio'
+  ratio.textContent = formatContrastRatio(calculateContrastRatio(pair.foreground, pair.background))
+
+  const text = document.createElement('div')
+  text.textContent = `${pair.largeText ? 'Large' : 'Normal'} text · ${Math.round(pair.fontSize * 10) / 10}px / ${pair.fontWeight}`
+
+  const levels = document.createElement('div')
+  levels.append(
+    createLevelBadge('AA', passesWcag(pair.foreground, pair.background, 'AA', size)),
+    createLevelBadge('AAA', passesWcag(pair.foreground, pair.background, 'AAA', size))
+  )
+
+  const hint = document.createElement('div')
+  hint.className = 'thewcag-inspector-hint'
+  hint.textContent = 'Click to pin in the checker · Esc to exit'
+
+  tooltip.replaceChildren(colors, ratio, text, levels, hint)
+}
+
+/**
+ * Start inspecting; the session ends on Escape or when stopped
+ */
+export function startInspector(container: HTMLElement, callbacks: InspectorCallbacks): InspectorSession {
+  const outline = document.createElement('div')
+  outline.className = 'thewcag-inspector-outline'
+  const tooltip = document.createElement('div')
+  tooltip.className = 'thewcag-inspector'
+  container.append(outline, tooltip)
+  document.body.classList.add('thewcag-eyedropper-cursor')
+
+  let current: { element: HTMLElement; pair: InspectedPair } | null = null
+
+  const hide = () => {
+    current = null
+    outline.style.display = 'none'
+    tooltip.style.display = 'none'
+  }
+
+  const handleMove = (e: MouseEvent) => {
+    const element = deepElementFromPoint(e.clientX, e.clientY)
+    const pair = element && !callbacks.isIgnored(element) ? callbacks.measure(element) : null
+    if (!element || !pair) {
+      hide()
+      return
+    }
+
+    if (current?.element !== element) {
+      const rect = element.getBoundingClientRect()
+      outline.style.display = 'block'
+      outline.style.left = `${rect.left}px`
+      outline.style.top = `${rect.top}px`
+      outline.style.width = `${rect.width}px`
+      outline.style.height = `${rect.height}px`
+      renderTooltip(tooltip, pair)
+    }
+    current = { element, pair }
+
+    // Keep the tooltip on screen by flipping it to the other side of the cursor
+    tooltip.style.display = 'block'
+    const { offsetWidth: width, offsetHeight: height } = tooltip
+    const left = e.clientX + TOOLTIP_OFFSET_PX + width > window.innerWidth
+      ? e.clientX - TOOLTIP_OFFSET_PX - width
+      : e.clientX + TOOLTIP_OFFSET_PX
+    const top = e.clientY + TOOLTIP_OFFSET_PX + height > window.innerHeight
+      ? e.clientY - TOOLTIP_OFFSET_PX - height
+      : e.clientY + TOOLTIP_OFFSET_PX
+    tooltip.style.left = `${Math.max(0, left)}px`
+    tooltip.style.top = `${Math.max(0, top)}px`
+  }
+
+  const handleClick = (e: MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (current) callbacks.onPin(current.pair)
+  }
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    if (e.key !== 'Escape') return
+    e.preventDefault()
+    callbacks.onExit()
+  }
+
+  // The outline moves with the page, so hide it until the pointer moves again
+  const handleScroll = () => hide()
+
+  document.addEventListener('mousemove', handleMove, true)
+  document.addEventListener('click', handleClick, true)
+  document.addEventListener('keydown', handleKeydown, true)
+  window.addEventListener('scroll', handleScroll, { capture: true, passive: true })
+  hide()
+
+  return {
+    stop: () => {
+      document.removeEventListener('mousemove', handleMove, true)
+      document.removeEventListener('click', handleClick, true)
+      document.removeEventListener('keydown', handleKeydown, true)
+      window.removeEventListener('scroll', handleScroll, { capture: true })
+      document.body.classList.remove('thewcag-eyedropper-cursor')
+      outline.remove()
+      tooltip.remove()
+    },
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Color-only link discovery (WCAG 1.4.1)
+ * Finds links inside running text that differ from the text around them by
+ * color alone; the content script reads their colors and scores them
+ */
+
+import { LinkCueStyle, getNonColorCue } from '@/lib/link-distinction'
+import { querySelectorAllDeep, getComposedParent } from './shadow-dom'
+import { isRendered } from './non-text'
+
+export interface ColorOnlyLink {
+  element: HTMLElement
+  surrounding: HTMLElement // element whose own text runs around the link
+  label: string
+}
+
+function readCueStyle(element: HTMLElement): LinkCueStyle {
+  const style = window.getComputedStyle(element)
+  return {
+    textDecorationLine: style.textDecorationLine,
+    borderBottomStyle: style.borderBottomStyle,
+    borderBottomWidth: style.borderBottomWidth,
+    fontWeight: style.fontWeight,
+    fontStyle: style.fontStyle,
+    backgroundColor: style.backgroundColor,
+  }
+}
+
+function hasOwnText(element: HTMLElement): boolean {
+  return Array.from(element.childNodes).some(
+    (node) => node.nodeType === Node.TEXT_NODE && !!node.textContent?.trim()
+  )
+}
+
+/**
+ * The nearest ancestor with text of its own, looking through inline wrappers
+ * such as <em> or <span>; null when the link is not part of running text
+ */
+function findSurroundingText(link: HTMLElement): HTMLElement | null {
+  let current = getComposedParent(link)
+  while (current) {
+    if (hasOwnText(current)) return current
+    if (window.getComputedStyle(current).display !== 'inline') return null
+    current = getComposedParent(current)
+  }
+  return null
+}
+
+/**
+ * Inline links in running text with no underline, border, weight, style or
+ * background to set them apart
+ * Awaits `checkpoint` between links so long pages stay responsive
+ */
+export async function findColorOnlyLinks(
+  exclude: (element: HTMLElement) => boolean,
+  checkpoint: () => Promise<unknown> = async () => false
+): Promise<ColorOnlyLink[]> {
+  const links: ColorOnlyLink[] = []
+
+  for (const element of querySelectorAllDeep('a[href]')) {
+    await checkpoint()
+    if (!element.matches('a[href]') || exclude(element) || !isRendered(element)) continue
+    if (window.getComputedStyle(element).display !== 'inline') continue
+
+    const text = element.textContent?.trim() ?? ''
+    if (!text) continue
+
+    const surrounding = findSurroundingText(element)
+    if (!surrounding || getNonColorCue(readCueStyle(element), readCueStyle(surrounding))) continue
+
+    links.push({ element, surrounding, label: text.substring(0, 50) })
+  }
+
+  return links
+}
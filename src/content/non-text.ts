@@ -0,0 +1,320 @@
+/**
+ * Non-text contrast (WCAG 1.4.11) target discovery
+ * Finds UI component boundaries and graphics on the page and reads the color
+ * that identifies each one; the content script resolves backgrounds and scores them
+ */
+
+import { RGB } from '@/lib/color-utils'
+import { NonTextComponent } from '@/lib/scanner'
+import { createRuleIndex } from '@/lib/rule-index'
+import { Specificity, splitSelectorList, calculateSpecificity, compareSpecificity } from '@/lib/interactive-states'
+import { querySelectorAllDeep, getComposedParent } from './shadow-dom'
+import { readColor, getWidestBorder } from './css-color'
+import { collectStyleRules, isRuleInScope } from './cssom'
+
+type Checkpoint = () => Promise<unknown>
+
+export interface NonTextTarget {
+  element: HTMLElement
+  component: NonTextComponent
+  color?: RGB // border, icon or ring color
+  fill?: RGB // the component's own opaque background, which can also identify it
+  adjacentTo: HTMLElement // element whose background the color sits on
+  label: string
+}
+
+// Inputs whose appearance is a button or a picker rather than a bordered field
+const SKIPPED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image', 'range', 'color', 'file'])
+
+const SVG_SHAPE_SELECTOR = 'path, circle, rect, ellipse, line, polyline, polygon'
+
+export const FOCUSABLE_SELECTOR = 'a[href], button, input, select, textarea, summary, [tabindex]:not([tabindex="-1"])'
+
+// Larger SVGs are usually illustrations or charts rather than icons
+const ICON_MAX_SIZE = 64
+
+/**
+ * Color used to draw an SVG icon: the first shape's fill, or its stroke
+ */
+function getSvgColor(svg: SVGElement): RGB | undefined {
+  const shapes = Array.from(svg.querySelectorAll<SVGElement>(SVG_SHAPE_SELECTOR))
+
+  for (const shape of shapes.length > 0 ? shapes : [svg]) {
+    const style = window.getComputedStyle(shape)
+    const fill = readColor(style.fill)
+    if (fill && parseFloat(style.fillOpacity) > 0) return fill
+    const stroke = readColor(style.stroke)
+    if (stroke && parseFloat(style.strokeWidth) > 0) return stroke
+  }
+
+  return undefined
+}
+
+/**
+ * Color of an icon-font glyph drawn with ::before/::after inside an element
+ */
+function getIconFontColor(element: HTMLElement): RGB | undefined {
+  const candidates = [element, ...Array.from(element.querySelectorAll<HTMLElement>('*'))]
+
+  for (const candidate of candidates) {
+    for (const pseudo of ['::before', '::after']) {
+      const style = window.getComputedStyle(candidate, pseudo)
+      if (style.content && style.content !== 'none' && style.content !== 'normal' && style.content !== '""') {
+        return readColor(style.color)
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Accessible-ish label for reporting, falling back to the component type
+ */
+export function getLabel(element: HTMLElement, fallback: string): string {
+  const label =
+    element.getAttribute('aria-label') ||
+    element.getAttribute('title') ||
+    element.getAttribute('placeholder') ||
+    element.getAttribute('name') ||
+    fallback
+  return label.substring(0, 50)
+}
+
+export function isRendered(element: HTMLElement): boolean {
+  const style = window.getComputedStyle(element)
+  if (style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0) {
+    return false
+  }
+  const rect = element.getBoundingClientRect()
+  return rect.width > 0 && rect.height > 0
+}
+
+function getAdjacent(element: HTMLElement): HTMLElement {
+  return getComposedParent(element) ?? element
+}
+
+/**
+ * Text inputs, selects, textareas and custom-styled checkboxes/radios
+ * Native checkboxes and radios are drawn by the browser and are exempt
+ */
+async function findFormControls(checkpoint: Checkpoint): Promise<NonTextTarget[]> {
+  const targets: NonTextTarget[] = []
+
+  for (const element of querySelectorAllDeep('input, select, textarea')) {
+    await checkpoint()
+    if (!element.matches('input, select, textarea') || !isRendered(element)) continue
+
+    const type = element instanceof HTMLInputElement ? element.type : ''
+    if (SKIPPED_INPUT_TYPES.has(type)) continue
+
+    const style = window.getComputedStyle(element)
+    let component: NonTextComponent = 'form-control'
+    if (type === 'checkbox' || type === 'radio') {
+      if (style.appearance !== 'none') continue
+      component = type
+    }
+
+    const color = getWidestBorder(style).color
+    const fill = readColor(style.backgroundColor, 0.99)
+    if (!color && !fill) continue
+
+    targets.push({
+      element,
+      component,
+      color,
+      fill,
+      adjacentTo: getAdjacent(element),
+      label: getLabel(element, type || element.tagName.toLowerCase()),
+    })
+  }
+
+  return targets
+}
+
+/**
+ * Buttons and links with no visible text, identified only by an icon
+ */
+async function findIconButtons(checkpoint: Checkpoint): Promise<NonTextTarget[]> {
+  const targets: NonTextTarget[] = []
+
+  for (const element of querySelectorAllDeep('button, [role="button"], a[href]')) {
+    await checkpoint()
+    if (!element.matches('button, [role="button"], a[href]') || !isRendered(element)) continue
+    if ((element.innerText || element.textContent || '').trim()) continue
+
+    const svg = element.querySelector('svg')
+    const color = svg ? getSvgColor(svg) : getIconFontColor(element)
+    if (!color) continue
+
+    targets.push({
+      element,
+      component: 'icon-button',
+      color,
+      adjacentTo: element,
+      label: getLabel(element, 'icon button'),
+    })
+  }
+
+  return targets
+}
+
+/**
+ * Meaningful standalone SVG icons (aria-hidden ones are decorative)
+ */
+async function findSvgIcons(checkpoint: Checkpoint): Promise<NonTextTarget[]> {
+  const targets: NonTextTarget[] = []
+
+  for (const element of querySelectorAllDeep('svg')) {
+    await checkpoint()
+    if (element.tagName.toLowerCase() !== 'svg') continue
+    if (element.closest('button, [role="button"], a[href], [aria-hidden="true"]')) continue
+
+    const rect = element.getBoundingClientRect()
+    if (rect.width === 0 || rect.height === 0) continue
+    if (rect.width > ICON_MAX_SIZE || rect.height > ICON_MAX_SIZE) continue
+
+    const color = getSvgColor(element as unknown as SVGElement)
+    if (!color) continue
+
+    targets.push({
+      element,
+      component: 'svg-icon',
+      color,
+      adjacentTo: getAdjacent(element),
+      label: getLabel(element, element.querySelector('title')?.textContent?.trim() || 'svg icon'),
+    })
+  }
+
+  return targets
+}
+
+// One selector of a focus rule, matched against elements at rest
+interface FocusRuleEntry {
+  rule: CSSStyleRule
+  part: string
+  base: string
+  specificity: Specificity
+  order: number
+}
+
+/**
+ * The matching entry that wins a property: highest specificity, then latest in source order
+ */
+function getWinner(entries: FocusRuleEntry[], property: string): FocusRuleEntry | null {
+  return entries.reduce<FocusRuleEntry | null>((best, entry) => {
+    if (!entry.rule.style.getPropertyValue(property)) return best
+    if (!best) return entry
+    const bySpecificity = compareSpecificity(entry.specificity, best.specificity)
+    return bySpecificity > 0 || (bySpecificity === 0 && entry.order > best.order) ? entry : best
+  }, null)
+}
+
+/**
+ * Color of a declared color value; currentcolor follows the element's text
+ */
+function readDeclaredColor(value: string, element: HTMLElement): RGB | undefined {
+  if (value.trim().toLowerCase() === 'currentcolor') return readColor(window.getComputedStyle(element).color)
+  return readColor(value)
+}
+
+/**
+ * Color of the first box-shadow layer that names one
+ * Declared shadows may use any color syntax, named colors included, and the
+ * color may come before or after the lengths
+ */
+function getShadowColor(value: string, element: HTMLElement): RGB | undefined {
+  for (const layer of value.split(/,(?![^(]*\))/)) {
+    const words = layer.match(/[a-z-]+\([^)]*\)|\S+/gi) ?? []
+    for (const word of words) {
+      if (/^-?[\d.]/.test(word) || word.toLowerCase() === 'inset') continue // lengths
+      const color = readDeclaredColor(word, element)
+      if (color) return color
+    }
+  }
+  return undefined
+}
+
+/**
+ * Ring color the winning focus rules draw: the outline, or a box-shadow ring
+ * Returns the ring color and the selector that declares it
+ */
+function getRing(entries: FocusRuleEntry[], element: HTMLElement): { color: RGB; part: string } | undefined {
+  const outline = getWinner(entries, 'outline-style')
+  const outlineStyle = outline?.rule.style.getPropertyValue('outline-style')
+  if (outline && outlineStyle !== 'none') {
+    // An outline without a declared color is drawn in currentcolor
+    const colorEntry = getWinner(entries, 'outline-color')
+    const color = readDeclaredColor(colorEntry?.rule.style.getPropertyValue('outline-color') || 'currentcolor', element)
+    if (color) return { color, part: outline.part }
+  }
+
+  const shadow = getWinner(entries, 'box-shadow')
+  const shadowValue = shadow?.rule.style.getPropertyValue('box-shadow')
+  if (!shadow || !shadowValue || shadowValue === 'none') return undefined
+  const color = getShadowColor(shadowValue, element)
+  return color ? { color, part: shadow.part } : undefined
+}
+
+/**
+ * Focus indicators declared in stylesheets, checked against the background
+ * around the focusable element they apply to
+ * Each focusable element is matched once against the focus rules that could
+ * apply to it; outline and box-shadow are each taken from the rule that wins
+ * the cascade (specificity, then source order), without focusing anything.
+ */
+async function findFocusRings(checkpoint: Checkpoint): Promise<NonTextTarget[]> {
+  const index = createRuleIndex<FocusRuleEntry>()
+
+  collectStyleRules((rule) => rule.selectorText.includes(':focus')).forEach((rule, order) => {
+    splitSelectorList(rule.selectorText).forEach((part) => {
+      if (!/:focus(-visible)?(?!-within)/.test(part)) return
+      const base = part.replace(/:focus(-visible)?(?!-within)/g, '').trim() || '*'
+      index.add(base, { rule, part, base, specificity: calculateSpecificity(part), order })
+    })
+  })
+  if (index.size === 0) return []
+
+  const targets: NonTextTarget[] = []
+  for (const element of querySelectorAllDeep(FOCUSABLE_SELECTOR)) {
+    await checkpoint()
+    if (!element.matches(FOCUSABLE_SELECTOR) || !isRendered(element)) continue
+
+    const matching = index.candidates(element).filter(({ rule, base }) => {
+      if (!isRuleInScope(rule, element)) return false
+      try {
+        return element.matches(base)
+      } catch {
+        return false // selector not supported outside of the focus state
+      }
+    })
+    const ring = getRing(matching, element)
+    if (!ring) continue
+
+    targets.push({
+      element,
+      component: 'focus-ring',
+      color: ring.color,
+      adjacentTo: getAdjacent(element),
+      label: getLabel(element, ring.part.trim()),
+    })
+  }
+
+  return targets
+}
+
+/**
+ * Find every non-text target on the page
+ * Awaits `checkpoint` between elements so long pages stay responsive
+ */
+export async function findNonTextTargets(
+  exclude: (element: HTMLElement) => boolean,
+  checkpoint: Checkpoint = async () => false
+): Promise<NonTextTarget[]> {
+  return [
+    ...await findFormControls(checkpoint),
+    ...await findIconButtons(checkpoint),
+    ...await findSvgIcons(checkpoint),
+    ...await findFocusRings(checkpoint),
+  ].filter((target) => !exclude(target.element))
+}
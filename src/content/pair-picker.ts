@@ -0,0 +1,134 @@
+/**
+ * Pair picker
+ * Picks a foreground and then a background in one session, on top of the
+ * pixel picker, with a chip that shows the live ratio of the pair so far.
+ * Clicking text while the foreground is pending takes both of its colors at
+ * once; Alt+click picks the pixel under the cursor instead.
+ */
+
+import { parseColor, rgbToHex } from '@/lib/color-utils'
+import { calculateContrastRatio, formatContrastRatio, passesWcag } from '@/lib/contrast'
+import { CapturedFrame } from './pixel-sampler'
+import { startPixelPicker } from './pixel-picker'
+import { InspectedPair } from './inspector'
+import { deepElementFromPoint } from './shadow-dom'
+
+export interface PickedPair {
+  foreground: string // hex
+  background: string // hex
+}
+
+export interface PairPickerCallbacks {
+  capture: () => Promise<CapturedFrame | null>
+  measure: (element: HTMLElement) => InspectedPair | null // null when the element has no text of its own
+  isIgnored: (element: HTMLElement) => boolean // the extension's own UI
+  onDone: (pair: PickedPair) => void
+  onExit: () => void
+}
+
+export interface PairPickerSession {
+  stop: () => void
+}
+
+function createSwatch(color: string | null): HTMLSpanElement {
+  const swatch = document.createElement('span')
+  swatch.className = 'thewcag-pair-chip-swatch'
+  swatch.style.background = color ?? 'transparent'
+  return swatch
+}
+
+/**
+ * Start picking a pair; the session ends once both colors are picked or on Escape
+ */
+export function startPairPicker(
+  container: HTMLElement,
+  frame: CapturedFrame,
+  callbacks: PairPickerCallbacks
+): PairPickerSession {
+  const chip = document.createElement('div')
+  chip.className = 'thewcag-pair-chip'
+  chip.setAttribute('role', 'status')
+  container.appendChild(chip)
+
+  let foreground: string | null = null
+  let sample: string | null = null
+  let textPair: PickedPair | null = null
+
+  const render = () => {
+    const fg = foreground ?? textPair?.foreground ?? sample
+    const bg = foreground ? sample : textPair?.background ?? null
+
+    const colors = document.createElement('div')
+    colors.className = 'thewcag-pair-chip-colors'
+    colors.append(createSwatch(fg), ` ${fg ?? '—'}`)
+    if (bg || foreground) colors.append(' on ', createSwatch(bg), ` ${bg ?? '—'}`)
+
+    const fgRgb = fg && parseColor(fg)
+    const bgRgb = bg && parseColor(bg)
+    if (fgRgb && bgRgb) {
+      const ratio = document.createElement('strong')
+      const passes = passesWcag(fgRgb, bgRgb, 'AA', 'normal')
+      ratio.className = passes ? 'thewcag-pair-chip-pass' : 'thewcag-pair-chip-fail'
+      ratio.textContent = `${formatContrastRatio(calculateContrastRatio(fgRgb, bgRgb))} AA ${passes ? '✓' : '✗'}`
+      colors.append(ratio)
+    }
+
+    const hint = document.createElement('div')
+    hint.className = 'thewcag-pair-chip-hint'
+    if (foreground) {
+      hint.textContent = '2/2 · Pick the background · Esc to cancel'
+    } else if (textPair) {
+      hint.textContent = '1/2 · Click to use this text\'s colors · Alt+click picks the pixel'
+    } else {
+      hint.textContent = '1/2 · Pick the text color, or click text to take both'
+    }
+
+    chip.replaceChildren(colors, hint)
+  }
+
+  const handleMove = (e: MouseEvent) => {
+    if (foreground) return
+    const element = deepElementFromPoint(e.clientX, e.clientY)
+    const pair = element && !callbacks.isIgnored(element) ? callbacks.measure(element) : null
+    textPair = pair && { foreground: rgbToHex(pair.foreground), background: rgbToHex(pair.background) }
+    render()
+  }
+
+  // Registered before the pixel picker so a click on text can take both colors
+  const handleClick = (e: MouseEvent) => {
+    if (foreground || !textPair || e.altKey) return
+    e.preventDefault()
+    e.stopImmediatePropagation()
+    callbacks.onDone(textPair)
+  }
+
+  document.addEventListener('mousemove', handleMove, true)
+  document.addEventListener('click', handleClick, true)
+
+  const picker = startPixelPicker(container, frame, {
+    capture: callbacks.capture,
+    onSample: (hex) => {
+      sample = hex
+      render()
+    },
+    onPick: (hex) => {
+      if (!foreground) {
+        foreground = hex
+        textPair = null
+        render()
+        return
+      }
+      callbacks.onDone({ foreground, background: hex })
+    },
+    onExit: callbacks.onExit,
+  })
+
+  return {
+    stop: () => {
+      document.removeEventListener('mousemove', handleMove, true)
+      document.removeEventListener('click', handleClick, true)
+      picker.stop()
+      chip.remove()
+    },
+  }
+}
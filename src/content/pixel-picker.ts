@@ -0,0 +1,219 @@
+/**
+ * Pixel picker
+ * Screenshot-based eyedropper for browsers without the EyeDropper API. A loupe
+ * magnifies the pixels under the cursor and the picked color is the average
+ * of an N×N area, so text glyphs, images and gradients pick as rendered.
+ * Arrow keys nudge by one screenshot pixel (Shift for ten); [ and ] change
+ * the sampled area.
+ */
+
+import { rgbToHex } from '@/lib/color-utils'
+import { averagePixels } from '@/lib/pixel-sampling'
+import { CapturedFrame } from './pixel-sampler'
+
+export interface PixelPickerCallbacks {
+  capture: () => Promise<CapturedFrame | null> // a fresh frame once the page scrolls
+  onPick: (hex: string) => void
+  onSample?: (hex: string | null) => void // the color that a pick would return right now
+  onExit: () => void
+}
+
+export interface PixelPickerSession {
+  stop: () => void
+}
+
+const LOUPE_CELLS = 15 // odd, so the picked pixel sits in the middle cell
+const LOUPE_CELL_PX = 8
+const LOUPE_OFFSET_PX = 20
+const SAMPLE_SIZES = [1, 3, 5, 9]
+const RECAPTURE_DELAY_MS = 300 // captureVisibleTab is rate limited
+const OUTSIDE_COLOR = '#E5DDD0'
+
+const NUDGE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+}
+
+/**
+ * Start picking from the given frame; the session ends on pick, Escape or stop
+ */
+export function startPixelPicker(
+  container: HTMLElement,
+  initialFrame: CapturedFrame,
+  callbacks: PixelPickerCallbacks
+): PixelPickerSession {
+  const loupe = document.createElement('div')
+  loupe.className = 'thewcag-loupe'
+  const canvas = document.createElement('canvas')
+  const info = document.createElement('div')
+  info.className = 'thewcag-loupe-info'
+  const swatch = document.createElement('span')
+  swatch.className = 'thewcag-loupe-swatch'
+  const value = document.createElement('span')
+  value.className = 'thewcag-loupe-value'
+  const area = document.createElement('span')
+  area.className = 'thewcag-loupe-area'
+  info.append(swatch, value, area)
+  const hint = document.createElement('div')
+  hint.className = 'thewcag-loupe-hint'
+  hint.textContent = 'Click or Enter to pick · arrows nudge · [ ] area · Esc'
+  loupe.append(canvas, info, hint)
+  container.appendChild(loupe)
+
+  const size = LOUPE_CELLS * LOUPE_CELL_PX
+  const dpr = window.devicePixelRatio || 1
+  canvas.width = Math.round(size * dpr)
+  canvas.height = Math.round(size * dpr)
+  canvas.style.width = `${size}px`
+  canvas.style.height = `${size}px`
+  const ctx = canvas.getContext('2d')
+
+  let frame: CapturedFrame | null = initialFrame
+  // Position in screenshot pixels, starting at the middle of the viewport
+  let x = Math.floor(initialFrame.buffer.width / 2)
+  let y = Math.floor(initialFrame.buffer.height / 2)
+  let sizeIndex = 1
+  let picked: string | null = null
+  let recaptureTimer: ReturnType<typeof setTimeout> | null = null
+
+  const draw = () => {
+    if (!frame || !ctx) return
+    const { buffer } = frame
+    const half = Math.floor(LOUPE_CELLS / 2)
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+
+    for (let row = 0; row < LOUPE_CELLS; row++) {
+      for (let col = 0; col < LOUPE_CELLS; col++) {
+        const pixel = averagePixels(buffer, x + col - half, y + row - half, 1)
+        ctx.fillStyle = pixel ? rgbToHex(pixel) : OUTSIDE_COLOR
+        ctx.fillRect(col * LOUPE_CELL_PX, row * LOUPE_CELL_PX, LOUPE_CELL_PX, LOUPE_CELL_PX)
+      }
+    }
+
+    // Pixel grid
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.12)'
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    for (let i = 1; i < LOUPE_CELLS; i++) {
+      ctx.moveTo(i * LOUPE_CELL_PX + 0.5, 0)
+      ctx.lineTo(i * LOUPE_CELL_PX + 0.5, size)
+      ctx.moveTo(0, i * LOUPE_CELL_PX + 0.5)
+      ctx.lineTo(size, i * LOUPE_CELL_PX + 0.5)
+    }
+    ctx.stroke()
+
+    // Sampled area
+    const sampleSize = SAMPLE_SIZES[sizeIndex]
+    const start = (half - Math.floor(sampleSize / 2)) * LOUPE_CELL_PX
+    ctx.strokeStyle = '#D97706'
+    ctx.lineWidth = 2
+    ctx.strokeRect(start, start, sampleSize * LOUPE_CELL_PX, sampleSize * LOUPE_CELL_PX)
+
+    const average = averagePixels(buffer, x, y, sampleSize)
+    picked = average && rgbToHex(average)
+    swatch.style.background = picked ?? 'transparent'
+    value.textContent = picked ?? '—'
+    area.textContent = sampleSize === 1 ? '1 px' : `${sampleSize}×${sampleSize} avg`
+    callbacks.onSample?.(picked)
+  }
+
+  const place = () => {
+    if (!frame) return
+    const clientX = x / frame.scale
+    const clientY = y / frame.scale
+    loupe.style.display = 'block'
+    const { offsetWidth: width, offsetHeight: height } = loupe
+
+    // Flip to the other side of the cursor near the viewport edges
+    const left = clientX + LOUPE_OFFSET_PX + width > window.innerWidth
+      ? clientX - LOUPE_OFFSET_PX - width
+      : clientX + LOUPE_OFFSET_PX
+    const top = clientY + LOUPE_OFFSET_PX + height > window.innerHeight
+      ? clientY - LOUPE_OFFSET_PX - height
+      : clientY + LOUPE_OFFSET_PX
+    loupe.style.left = `${Math.max(0, left)}px`
+    loupe.style.top = `${Math.max(0, top)}px`
+  }
+
+  const moveTo = (nextX: number, nextY: number) => {
+    if (!frame) return
+    x = Math.min(frame.buffer.width - 1, Math.max(0, nextX))
+    y = Math.min(frame.buffer.height - 1, Math.max(0, nextY))
+    draw()
+    place()
+  }
+
+  const pick = () => {
+    if (frame && picked) callbacks.onPick(picked)
+  }
+
+  const handleMove = (e: MouseEvent) => {
+    if (!frame) return
+    moveTo(Math.floor(e.clientX * frame.scale), Math.floor(e.clientY * frame.scale))
+  }
+
+  const handleClick = (e: MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    pick()
+  }
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    const nudge = NUDGE_KEYS[e.key]
+    if (nudge) {
+      const step = e.shiftKey ? 10 : 1
+      moveTo(x + nudge[0] * step, y + nudge[1] * step)
+    } else if (e.key === '[' || e.key === ']') {
+      sizeIndex = Math.min(SAMPLE_SIZES.length - 1, Math.max(0, sizeIndex + (e.key === ']' ? 1 : -1)))
+      draw()
+    } else if (e.key === 'Enter') {
+      pick()
+    } else if (e.key === 'Escape') {
+      callbacks.onExit()
+    } else {
+      return
+    }
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  // The screenshot no longer matches the page; take a new one once it settles
+  const handleViewportChange = () => {
+    frame = null
+    loupe.style.display = 'none'
+    if (recaptureTimer) clearTimeout(recaptureTimer)
+    recaptureTimer = setTimeout(async () => {
+      recaptureTimer = null
+      const next = await callbacks.capture()
+      if (!loupe.isConnected || recaptureTimer) return
+      if (!next) {
+        callbacks.onExit()
+        return
+      }
+      frame = next
+      moveTo(x, y)
+    }, RECAPTURE_DELAY_MS)
+  }
+
+  document.addEventListener('mousemove', handleMove, true)
+  document.addEventListener('click', handleClick, true)
+  document.addEventListener('keydown', handleKeydown, true)
+  window.addEventListener('scroll', handleViewportChange, { capture: true, passive: true })
+  window.addEventListener('resize', handleViewportChange)
+  loupe.style.display = 'none'
+  draw()
+
+  return {
+    stop: () => {
+      if (recaptureTimer) clearTimeout(recaptureTimer)
+      document.removeEventListener('mousemove', handleMove, true)
+      document.removeEventListener('click', handleClick, true)
+      document.removeEventListener('keydown', handleKeydown, true)
+      window.removeEventListener('scroll', handleViewportChange, { capture: true })
+      window.removeEventListener('resize', handleViewportChange)
+      loupe.remove()
+    },
+  }
+}
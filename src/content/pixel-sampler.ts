@@ -0,0 +1,135 @@
+/**
+ * Screenshot capture for pixel-accurate background sampling and color picking
+ * The service worker owns chrome.tabs.captureVisibleTab; for background
+ * sampling we hide all text for a single frame so the screenshot only
+ * contains what is behind it
+ */
+
+import { PixelBuffer } from '@/lib/pixel-sampling'
+import { VISION_ATTRIBUTE } from './vision-filter'
+import { getOpenShadowRoots } from './shadow-dom'
+
+const CAPTURE_STYLE_ID = 'thewcag-capture-style'
+
+export interface CapturedFrame {
+  buffer: PixelBuffer
+  scale: number // screenshot pixels per CSS pixel
+  scrollX: number // scroll position when captured; rects only line up at the same position
+  scrollY: number
+}
+
+/**
+ * Wait for the browser to paint pending style changes
+ */
+function waitForPaint(): Promise<void> {
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()))
+  })
+}
+
+// The extension's own UI, including a vision simulation, never belongs in a capture
+const HIDE_OVERLAY_CSS = `
+  #thewcag-overlay-container, .thewcag-toast { visibility: hidden !important; }
+  html[${VISION_ATTRIBUTE}] { filter: none !important; }
+`
+
+const HIDE_TEXT_CSS = `
+  *, *::before, *::after {
+    color: transparent !important;
+    -webkit-text-fill-color: transparent !important;
+    -webkit-text-stroke-color: transparent !important;
+    text-shadow: none !important;
+    caret-color: transparent !important;
+  }
+`
+
+/**
+ * Apply capture-only styles until the returned function is called
+ * Document styles stop at shadow boundaries, so each open shadow root gets a copy
+ */
+function addCaptureStyle(css: string): () => void {
+  const styles = [document.documentElement, ...getOpenShadowRoots()].map((parent) => {
+    const style = document.createElement('style')
+    style.id = CAPTURE_STYLE_ID
+    style.textContent = css
+    parent.appendChild(style)
+    return style
+  })
+  return () => styles.forEach((style) => style.remove())
+}
+
+/**
+ * Decode a PNG data URL into raw RGBA pixels
+ */
+async function decodeDataUrl(dataUrl: string): Promise<PixelBuffer> {
+  const blob = await (await fetch(dataUrl)).blob()
+  const bitmap = await createImageBitmap(blob)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('Canvas 2D context unavailable')
+
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * Capture the visible viewport while `css` is applied
+ * Returns null if capture is not possible (permissions, rate limit, etc.)
+ */
+async function captureFrame(css: string): Promise<CapturedFrame | null> {
+  const removeStyle = addCaptureStyle(css)
+  const { scrollX, scrollY } = window
+  let dataUrl: string | null = null
+
+  try {
+    await waitForPaint()
+    const response = await chrome.runtime.sendMessage({ type: 'CAPTURE_VISIBLE_TAB' })
+    if (response?.success && response.dataUrl) {
+      dataUrl = response.dataUrl
+    } else {
+      console.error('Viewport capture failed:', response?.error)
+    }
+  } catch (error) {
+    console.error('Error capturing viewport:', error)
+  } finally {
+    // Restore the page as soon as the screenshot is taken
+    removeStyle()
+  }
+
+  if (!dataUrl) return null
+
+  try {
+    const buffer = await decodeDataUrl(dataUrl)
+    // innerWidth counts a classic scrollbar, so derive the scale from the device instead
+    return { buffer, scale: window.devicePixelRatio || 1, scrollX, scrollY }
+  } catch (error) {
+    console.error('Error decoding viewport capture:', error)
+    return null
+  }
+}
+
+/**
+ * Whether element rects still line up with a captured frame
+ * Long scans outlive the capture, and the page may scroll meanwhile
+ */
+export function isFrameAligned(frame: CapturedFrame): boolean {
+  return window.scrollX === frame.scrollX && window.scrollY === frame.scrollY
+}
+
+/**
+ * Capture the visible viewport with text hidden
+ */
+export function captureBackgroundFrame(): Promise<CapturedFrame | null> {
+  return captureFrame(HIDE_TEXT_CSS + HIDE_OVERLAY_CSS)
+}
+
+/**
+ * Capture the viewport as rendered, without the extension's own UI
+ */
+export function captureViewportFrame(): Promise<CapturedFrame | null> {
+  return captureFrame(HIDE_OVERLAY_CSS)
+}
@@ -0,0 +1,93 @@
+/**
+ * Region picker
+ * Lets the user click an element on the page to use as the scan root.
+ * Arrow Up widens the selection to the parent, Arrow Down narrows it back.
+ */
+
+import { deepElementFromPoint, getComposedParent } from './shadow-dom'
+
+/**
+ * Wait for the user to pick an element; resolves to null on Escape
+ */
+export function pickElement(
+  container: HTMLElement,
+  isIgnored: (element: HTMLElement) => boolean
+): Promise<HTMLElement | null> {
+  return new Promise((resolve) => {
+    const box = document.createElement('div')
+    box.className = 'thewcag-region-picker'
+    const label = document.createElement('span')
+    label.className = 'thewcag-region-picker-label'
+    box.appendChild(label)
+    container.appendChild(box)
+
+    // Elements from the pointer target up to the current selection
+    let trail: HTMLElement[] = []
+
+    const current = () => trail[trail.length - 1] ?? null
+
+    const render = () => {
+      const element = current()
+      if (!element) {
+        box.style.display = 'none'
+        return
+      }
+      const rect = element.getBoundingClientRect()
+      box.style.display = 'block'
+      box.style.left = `${rect.left}px`
+      box.style.top = `${rect.top}px`
+      box.style.width = `${rect.width}px`
+      box.style.height = `${rect.height}px`
+
+      const id = element.id ? `#${element.id}` : ''
+      const className = typeof element.className === 'string' && element.className.trim()
+        ? `.${element.className.trim().split(/\s+/)[0]}`
+        : ''
+      label.textContent = `${element.tagName.toLowerCase()}${id}${className} · ${Math.round(rect.width)}×${Math.round(rect.height)}`
+    }
+
+    const finish = (element: HTMLElement | null) => {
+      document.removeEventListener('mousemove', handleMove, true)
+      document.removeEventListener('click', handleClick, true)
+      document.removeEventListener('keydown', handleKeydown, true)
+      box.remove()
+      resolve(element)
+    }
+
+    const handleMove = (e: MouseEvent) => {
+      const element = deepElementFromPoint(e.clientX, e.clientY)
+      if (!element || isIgnored(element) || element === trail[0]) return
+      trail = [element]
+      render()
+    }
+
+    const handleClick = (e: MouseEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      finish(current())
+    }
+
+    const handleKeydown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        finish(null)
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        const parent = current() && getComposedParent(current()!)
+        if (parent && parent !== document.documentElement) trail.push(parent)
+        render()
+      } else if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        if (trail.length > 1) trail.pop()
+        render()
+      } else if (e.key === 'Enter') {
+        e.preventDefault()
+        finish(current())
+      }
+    }
+
+    document.addEventListener('mousemove', handleMove, true)
+    document.addEventListener('click', handleClick, true)
+    document.addEventListener('keydown', handleKeydown, true)
+  })
+}
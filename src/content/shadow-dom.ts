@@ -0,0 +1,127 @@
+/**
+ * Shadow DOM helpers for the content script
+ * Lets the scanner see inside open shadow roots (Lit, Stencil, Shoelace, etc.)
+ * and round-trip elements through shadow-piercing selectors
+ */
+
+/**
+ * Separator between selector segments in different shadow roots
+ * e.g. `sl-button:nth-of-type(2) >>> button.control`
+ */
+export const SHADOW_SELECTOR_SEPARATOR = ' >>> '
+
+/**
+ * querySelectorAll that also descends into every open shadow root
+ * Shadow hosts themselves are included, since text slotted directly into a
+ * custom element is owned by the host
+ */
+export function querySelectorAllDeep(
+  selector: string,
+  root: Document | ShadowRoot | Element = document
+): HTMLElement[] {
+  const results: HTMLElement[] = []
+
+  const visit = (scope: Document | ShadowRoot | Element) => {
+    scope.querySelectorAll(selector).forEach((el) => results.push(el as HTMLElement))
+
+    // Walk every element in this scope to find shadow hosts
+    scope.querySelectorAll('*').forEach((el) => {
+      const shadowRoot = (el as HTMLElement).shadowRoot
+      if (shadowRoot) {
+        if (!el.matches(selector)) {
+          results.push(el as HTMLElement)
+        }
+        visit(shadowRoot)
+      }
+    })
+  }
+
+  visit(root)
+  return results
+}
+
+/**
+ * Every open shadow root under a root, nested ones included
+ * Document-level styles don't reach into these, so per-root styles go here
+ */
+export function getOpenShadowRoots(root: Document | ShadowRoot | Element = document): ShadowRoot[] {
+  const roots: ShadowRoot[] = []
+  root.querySelectorAll('*').forEach((el) => {
+    const shadowRoot = (el as HTMLElement).shadowRoot
+    if (shadowRoot) roots.push(shadowRoot, ...getOpenShadowRoots(shadowRoot))
+  })
+  return roots
+}
+
+/**
+ * Get the parent of an element in the flattened (composed) tree
+ * - Slotted elements are rendered inside their assigned slot
+ * - Top-level shadow children are rendered inside their host
+ */
+export function getComposedParent(element: HTMLElement): HTMLElement | null {
+  if (element.assignedSlot) return element.assignedSlot
+  if (element.parentElement) return element.parentElement
+
+  const parentNode = element.parentNode
+  if (parentNode instanceof ShadowRoot) {
+    return parentNode.host as HTMLElement
+  }
+  return null
+}
+
+/**
+ * Get the shadow host an element lives under, or null for light DOM elements
+ */
+export function getShadowHost(element: Element): HTMLElement | null {
+  const root = element.getRootNode()
+  return root instanceof ShadowRoot ? (root.host as HTMLElement) : null
+}
+
+/**
+ * Node.contains() across shadow boundaries and slots
+ */
+export function containsComposed(ancestor: HTMLElement, element: HTMLElement): boolean {
+  let current: HTMLElement | null = element
+  while (current) {
+    if (current === ancestor) return true
+    current = getComposedParent(current)
+  }
+  return false
+}
+
+/**
+ * Resolve a selector that may contain shadow-piercing segments
+ * Each segment is queried inside the previous match's shadow root
+ */
+export function resolveSelector(selector: string): HTMLElement | null {
+  const segments = selector.split(SHADOW_SELECTOR_SEPARATOR)
+  let scope: Document | ShadowRoot = document
+  let element: HTMLElement | null = null
+
+  for (let i = 0; i < segments.length; i++) {
+    element = scope.querySelector(segments[i]) as HTMLElement | null
+    if (!element) return null
+
+    if (i < segments.length - 1) {
+      if (!element.shadowRoot) return null
+      scope = element.shadowRoot
+    }
+  }
+
+  return element
+}
+
+/**
+ * elementFromPoint that keeps descending through open shadow roots
+ */
+export function deepElementFromPoint(x: number, y: number): HTMLElement | null {
+  let element = document.elementFromPoint(x, y) as HTMLElement | null
+
+  while (element?.shadowRoot) {
+    const inner = element.shadowRoot.elementFromPoint(x, y) as HTMLElement | null
+    if (!inner || inner === element) break
+    element = inner
+  }
+
+  return element
+}
@@ -0,0 +1,173 @@
+/**
+ * Stacking-context-aware background resolution
+ * Ancestor walks miss backgrounds painted by siblings (badges, overlay captions,
+ * sticky headers). Here we ask the browser what is painted under the text via
+ * elementsFromPoint, which already reflects z-index and stacking contexts.
+ */
+
+import { RGB } from '@/lib/color-utils'
+import { ColorLayer, compositeLayers, isOpaqueLayer, parseBlendMode } from '@/lib/compositing'
+import { getComposedParent } from './shadow-dom'
+import { parseCssColorToRgb } from './css-color'
+
+/**
+ * Points inside a rect to probe, as fractions of its width and height
+ */
+const PROBE_POINTS: Array<[number, number]> = [
+  [0.5, 0.5],
+  [0.2, 0.25],
+  [0.8, 0.25],
+  [0.2, 0.75],
+  [0.8, 0.75],
+]
+
+/**
+ * Combined opacity of an element and its ancestors, excluding ancestors it
+ * shares with the text (those fade text and background together)
+ */
+function getIsolatedOpacity(element: HTMLElement, text: HTMLElement): number {
+  let opacity = 1
+  let current: HTMLElement | null = element
+
+  while (current && !current.contains(text)) {
+    opacity *= parseFloat(window.getComputedStyle(current).opacity) || 0
+    current = getComposedParent(current)
+  }
+
+  return opacity
+}
+
+/**
+ * Resolve the background painted under a single viewport point
+ * Returns null if the text element is not hit at that point (covered or
+ * pointer-events: none) so the caller can fall back to the ancestor walk
+ */
+function resolveBackgroundAtPoint(element: HTMLElement, x: number, y: number): RGB | null {
+  const stack = document.elementsFromPoint(x, y) as HTMLElement[]
+  const start = stack.indexOf(element)
+  if (start === -1) return null
+
+  const layers: ColorLayer[] = []
+
+  // Everything after the text element in the list is painted beneath it
+  for (let i = start; i < stack.length; i++) {
+    const layerElement = stack[i]
+    const style = window.getComputedStyle(layerElement)
+    const parsed = parseCssColorToRgb(style.backgroundColor, 'backgroundColor')
+    if (!parsed.rgb || parsed.alpha <= 0) continue
+
+    const layer: ColorLayer = {
+      rgb: parsed.rgb,
+      alpha: parsed.alpha * getIsolatedOpacity(layerElement, element),
+      blendMode: parseBlendMode(style.mixBlendMode),
+    }
+    if (layer.alpha <= 0) continue
+
+    layers.push(layer)
+    if (isOpaqueLayer(layer)) break
+  }
+
+  return compositeLayers(layers)
+}
+
+/**
+ * Whether anything at the probe points paints media (video, image, canvas or a
+ * background image) beneath the element before an opaque background hides it
+ * Catches media that is a sibling rather than an ancestor, e.g. captions over a <video>
+ */
+export function hasMediaBehind(element: HTMLElement): boolean {
+  const rect = element.getBoundingClientRect()
+
+  return PROBE_POINTS.some(([fx, fy]) => {
+    const x = rect.left + rect.width * fx
+    const y = rect.top + rect.height * fy
+    if (x < 0 || y < 0 || x >= window.innerWidth || y >= window.innerHeight) return false
+
+    const stack = document.elementsFromPoint(x, y)
+    const start = stack.indexOf(element)
+    if (start === -1) return false
+
+    for (let i = start; i < stack.length; i++) {
+      const layer = stack[i]
+      if (layer instanceof HTMLVideoElement || layer instanceof HTMLImageElement ||
+          layer instanceof HTMLCanvasElement || layer instanceof SVGImageElement) {
+        return true
+      }
+      const style = window.getComputedStyle(layer)
+      if (style.backgroundImage && style.backgroundImage !== 'none') return true
+      const parsed = parseCssColorToRgb(style.backgroundColor, 'backgroundColor')
+      if (parsed.rgb && parsed.alpha >= 0.99) return false
+    }
+    return false
+  })
+}
+
+/**
+ * Whether an element starts its own paint layer (positioned, transformed or blended)
+ */
+function isPaintLayer(style: CSSStyleDeclaration): boolean {
+  return style.position !== 'static' || style.transform !== 'none' || style.mixBlendMode !== 'normal'
+}
+
+/**
+ * Whether a child is positioned below its parent's content (negative z-index)
+ */
+function hasUnderlayChild(element: HTMLElement): boolean {
+  return Array.from(element.children).some((child) => {
+    const style = window.getComputedStyle(child)
+    return style.position !== 'static' && parseInt(style.zIndex, 10) < 0
+  })
+}
+
+/**
+ * Whether anything but the element's ancestors can paint under it
+ * Static content over static ancestors is covered by the ancestor walk; only
+ * positioned, transformed or blended layers, or negative z-index underlays,
+ * up to the first opaque background need the elementsFromPoint probe.
+ * Answers are memoized per element in `cache`, so shared ancestors are read once.
+ */
+export function needsPaintProbe(element: HTMLElement, cache: WeakMap<HTMLElement, boolean>): boolean {
+  const known = cache.get(element)
+  if (known !== undefined) return known
+
+  const style = window.getComputedStyle(element)
+  let needed: boolean
+  if (isPaintLayer(style) || hasUnderlayChild(element)) {
+    needed = true
+  } else {
+    const parsed = parseCssColorToRgb(style.backgroundColor, 'backgroundColor')
+    const parent = getComposedParent(element)
+    needed = !(parsed.rgb && parsed.alpha >= 0.99) && !!parent && needsPaintProbe(parent, cache)
+  }
+
+  cache.set(element, needed)
+  return needed
+}
+
+/**
+ * Resolve the distinct backgrounds painted under an element's text
+ * Probes several points in the rect so partially overlapping layers are seen.
+ * Returns null when no point is usable (off-screen or fully covered).
+ */
+export function resolvePaintedBackgrounds(element: HTMLElement): RGB[] | null {
+  const rect = element.getBoundingClientRect()
+  const seen = new Set<string>()
+  const backgrounds: RGB[] = []
+
+  for (const [fx, fy] of PROBE_POINTS) {
+    const x = rect.left + rect.width * fx
+    const y = rect.top + rect.height * fy
+    if (x < 0 || y < 0 || x >= window.innerWidth || y >= window.innerHeight) continue
+
+    const background = resolveBackgroundAtPoint(element, x, y)
+    if (!background) continue
+
+    const key = `${background.r},${background.g},${background.b}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      backgrounds.push(background)
+    }
+  }
+
+  return backgrounds.length > 0 ? backgrounds : null
+}
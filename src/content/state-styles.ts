@@ -0,0 +1,152 @@
+/**
+ * Interactive state styles from the CSSOM
+ * Finds the color, background and text decoration declared for each element
+ * under :hover, :focus-visible, :active, :visited and :disabled, without
+ * triggering them
+ */
+
+import {
+  InteractiveState,
+  Specificity,
+  splitSelectorList,
+  extractStateSelector,
+  calculateSpecificity,
+  compareSpecificity,
+} from '@/lib/interactive-states'
+import { createRuleIndex } from '@/lib/rule-index'
+import { querySelectorAllDeep } from './shadow-dom'
+import { collectStyleRules, isRuleInScope } from './cssom'
+
+interface DeclaredValue {
+  value: string
+  specificity: Specificity
+  order: number
+}
+
+export interface StateDeclarations {
+  color?: DeclaredValue
+  backgroundColor?: DeclaredValue
+  textDecorationLine?: DeclaredValue // `text-decoration` shorthands are expanded by the CSSOM
+}
+
+export type StateStyleMap = Map<InteractiveState, WeakMap<HTMLElement, StateDeclarations>>
+
+// One selector of a state rule, matched against elements at rest
+interface StateRuleEntry {
+  rule: CSSStyleRule
+  base: string
+  states: InteractiveState[]
+  specificity: Specificity
+  order: number
+  declarations: { color: string; backgroundColor: string; textDecorationLine: string }
+  invalid?: boolean // matches() rejected the selector
+}
+
+const STATE_RULE_PATTERN = /:(hover|focus|active|visited|disabled)/
+
+/**
+ * Keep the winning declaration by specificity, then source order
+ */
+function pickWinner(current: DeclaredValue | undefined, next: DeclaredValue): DeclaredValue {
+  if (!current) return next
+  const bySpecificity = compareSpecificity(next.specificity, current.specificity)
+  if (bySpecificity !== 0) return bySpecificity > 0 ? next : current
+  return next.order > current.order ? next : current
+}
+
+function matchesEntry(element: HTMLElement, entry: StateRuleEntry): boolean {
+  if (entry.invalid || !isRuleInScope(entry.rule, element)) return false
+  try {
+    return element.matches(entry.base)
+  } catch {
+    entry.invalid = true // selector uses syntax matches() rejects
+    return false
+  }
+}
+
+function applyEntry(map: StateStyleMap, element: HTMLElement, entry: StateRuleEntry) {
+  const { specificity, order, declarations: { color, backgroundColor, textDecorationLine } } = entry
+
+  entry.states.forEach((state) => {
+    if (!map.has(state)) map.set(state, new WeakMap())
+    const byElement = map.get(state)!
+    const declarations = byElement.get(element) ?? {}
+    if (color) declarations.color = pickWinner(declarations.color, { value: color, specificity, order })
+    if (backgroundColor) {
+      declarations.backgroundColor = pickWinner(declarations.backgroundColor, { value: backgroundColor, specificity, order })
+    }
+    if (textDecorationLine) {
+      declarations.textDecorationLine = pickWinner(declarations.textDecorationLine, { value: textDecorationLine, specificity, order })
+    }
+    byElement.set(element, declarations)
+  })
+}
+
+/**
+ * Build a lookup of state declarations for every element they apply to
+ * Rules are indexed once and each element is matched against the rules that
+ * could apply to it, awaiting `checkpoint` between elements so long pages stay
+ * responsive. `include` limits the rules to those declaring a given property.
+ */
+export async function collectStateStyles(
+  checkpoint: () => Promise<unknown> = async () => false,
+  include: Array<keyof StateDeclarations> = ['color', 'backgroundColor', 'textDecorationLine']
+): Promise<StateStyleMap> {
+  const map: StateStyleMap = new Map()
+  const index = createRuleIndex<StateRuleEntry>()
+
+  const read = (rule: CSSStyleRule) => ({
+    color: include.includes('color') ? rule.style.getPropertyValue('color') : '',
+    backgroundColor: include.includes('backgroundColor') ? rule.style.getPropertyValue('background-color') : '',
+    textDecorationLine: include.includes('textDecorationLine') ? rule.style.getPropertyValue('text-decoration-line') : '',
+  })
+
+  const rules = collectStyleRules((rule) => {
+    if (!STATE_RULE_PATTERN.test(rule.selectorText)) return false
+    const declared = read(rule)
+    return !!(declared.color || declared.backgroundColor || declared.textDecorationLine)
+  })
+
+  rules.forEach((rule, order) => {
+    const declarations = read(rule)
+    splitSelectorList(rule.selectorText).forEach((selector) => {
+      const parsed = extractStateSelector(selector)
+      if (!parsed) return
+      index.add(parsed.base, {
+        rule,
+        base: parsed.base,
+        states: parsed.states,
+        specificity: calculateSpecificity(selector),
+        order,
+        declarations,
+      })
+    })
+  })
+  if (index.size === 0) return map
+
+  for (const element of querySelectorAllDeep('*')) {
+    index.candidates(element).forEach((entry) => {
+      if (matchesEntry(element, entry)) applyEntry(map, element, entry)
+    })
+    await checkpoint()
+  }
+
+  return map
+}
+
+/**
+ * Resolve a declared value to something the color parser understands
+ * Custom properties are read from the element they apply to
+ */
+export function resolveDeclaredColor(value: string, element: HTMLElement): string | null {
+  const trimmed = value.trim()
+  const variable = trimmed.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/)
+  if (variable) {
+    const resolved = window.getComputedStyle(element).getPropertyValue(variable[1]).trim()
+    return resolved || variable[2]?.trim() || null
+  }
+  if (['inherit', 'initial', 'unset', 'revert', 'revert-layer'].includes(trimmed.toLowerCase())) {
+    return null
+  }
+  return trimmed
+}
@@ -0,0 +1,36 @@
+/**
+ * Cooperative time slicing for long scans
+ * Work runs in short slices and yields to the page in between, so input,
+ * scrolling and rendering stay responsive on very large DOMs
+ */
+
+// Leaves room in a 16ms frame for the page's own work
+const SLICE_BUDGET_MS = 12
+
+// Idle callbacks can starve on busy pages; resume after this long regardless
+const IDLE_TIMEOUT_MS = 100
+
+function yieldToPage(): Promise<void> {
+  return new Promise((resolve) => {
+    if (typeof window.requestIdleCallback === 'function') {
+      window.requestIdleCallback(() => resolve(), { timeout: IDLE_TIMEOUT_MS })
+    } else {
+      setTimeout(resolve, 0)
+    }
+  })
+}
+
+/**
+ * Create a checkpoint to await between units of work
+ * Resolves to true when it yielded, i.e. once per slice
+ */
+export function createTimeSlicer(budgetMs: number = SLICE_BUDGET_MS): () => Promise<boolean> {
+  let sliceStart = performance.now()
+
+  return async () => {
+    if (performance.now() - sliceStart < budgetMs) return false
+    await yieldToPage()
+    sliceStart = performance.now()
+    return true
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Vision simulation
+ * Renders the whole page through an SVG color matrix filter that simulates a
+ * color vision deficiency, with a small chip naming it that also turns it off.
+ * Screenshot captures drop the filter so sampled colors stay real.
+ */
+
+import { CvdSimulation, getCvdLabel, getSvgColorMatrix } from '@/lib/cvd'
+
+export interface VisionFilterLayer {
+  update: (simulation: CvdSimulation) => void
+  destroy: () => void
+}
+
+const FILTER_ID = 'thewcag-vision-filter'
+export const VISION_ATTRIBUTE = 'data-thewcag-vision'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+/**
+ * Apply the simulation to the page; the chip goes inside the overlay container
+ */
+export function createVisionFilter(
+  container: HTMLElement,
+  initialSimulation: CvdSimulation,
+  onClose: () => void
+): VisionFilterLayer {
+  const svg = document.createElementNS(SVG_NS, 'svg')
+  svg.setAttribute('aria-hidden', 'true')
+  svg.setAttribute('width', '0')
+  svg.setAttribute('height', '0')
+  svg.style.position = 'absolute'
+  const filter = document.createElementNS(SVG_NS, 'filter')
+  filter.id = FILTER_ID
+  filter.setAttribute('color-interpolation-filters', 'linearRGB')
+  const matrix = document.createElementNS(SVG_NS, 'feColorMatrix')
+  matrix.setAttribute('type', 'matrix')
+  filter.appendChild(matrix)
+  svg.appendChild(filter)
+  document.documentElement.appendChild(svg)
+
+  const style = document.createElement('style')
+  style.textContent = `html[${VISION_ATTRIBUTE}] { filter: url(#${FILTER_ID}) !important; }`
+  document.documentElement.appendChild(style)
+
+  const chip = document.createElement('div')
+  chip.className = 'thewcag-vision-chip'
+  const label = document.createElement('span')
+  const close = document.createElement('button')
+  close.type = 'button'
+  close.textContent = '×'
+  close.setAttribute('aria-label', 'Stop simulating')
+  close.addEventListener('click', onClose)
+  chip.append(label, close)
+  container.appendChild(chip)
+
+  const update = (simulation: CvdSimulation) => {
+    matrix.setAttribute('values', getSvgColorMatrix(simulation))
+    label.textContent = `Simulating ${getCvdLabel(simulation)}`
+    document.documentElement.setAttribute(VISION_ATTRIBUTE, simulation.type)
+  }
+
+  update(initialSimulation)
+
+  return {
+    update,
+    destroy: () => {
+      document.documentElement.removeAttribute(VISION_ATTRIBUTE)
+      svg.remove()
+      style.remove()
+      chip.remove()
+    },
+  }
+}
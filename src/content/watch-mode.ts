@@ -0,0 +1,178 @@
+/**
+ * Live watch mode
+ * Observes DOM mutations, re-scans only the affected subtrees after a quiet
+ * period and streams the difference over a Port to the DevTools panel.
+ * Only the light DOM is observed; changes inside shadow roots are picked up
+ * when their host or its ancestors change.
+ */
+
+import { ScanResult } from '@/lib/scanner'
+import {
+  WATCH_DEBOUNCE_MS,
+  WatchUpdate,
+  diffFindings,
+  getFindingKey,
+  isEmptyUpdate,
+  isFinding,
+} from '@/lib/watch'
+import { resolveSelector } from './shadow-dom'
+
+export interface WatchCallbacks {
+  scan: (scope: HTMLElement[] | null) => Promise<ScanResult[]>
+  isBusy: () => boolean // a full scan is running
+  isIgnored: (element: HTMLElement) => boolean // the extension's own UI
+}
+
+export interface WatchSession {
+  stop: () => void
+}
+
+// The inline style each element was left with by our own writes
+const ownStyles = new WeakMap<Element, string | null>()
+
+/**
+ * Change an element's inline style without watch mode taking it for a page change
+ */
+export function writeOwnStyle(element: HTMLElement, write: (style: CSSStyleDeclaration) => void) {
+  write(element.style)
+  ownStyles.set(element, element.getAttribute('style'))
+}
+
+/**
+ * Style changes that leave exactly what we last wrote are not page changes
+ */
+function isOwnStyleChange(record: MutationRecord): boolean {
+  if (record.attributeName !== 'style') return false
+  const target = record.target as Element
+  return ownStyles.has(target) && ownStyles.get(target) === target.getAttribute('style')
+}
+
+/**
+ * Nodes the extension injects (probes, style overrides) carry a `thewcag` id or class
+ */
+function isOwnNode(node: Node): boolean {
+  if (!(node instanceof Element)) return false
+  return node.id.startsWith('thewcag') || Array.from(node.classList).some((name) => name.startsWith('thewcag'))
+}
+
+function isOwnNodeChange(record: MutationRecord): boolean {
+  const nodes = [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)]
+  return record.type === 'childList' && nodes.length > 0 && nodes.every(isOwnNode)
+}
+
+/**
+ * Class changes that only toggle our own highlight classes are not page changes
+ */
+function isOwnClassChange(record: MutationRecord): boolean {
+  if (record.attributeName !== 'class') return false
+  const strip = (value: string | null) =>
+    (value ?? '').split(/\s+/).filter((name) => name && !name.startsWith('thewcag')).sort().join(' ')
+  return strip(record.oldValue) === strip((record.target as Element).getAttribute('class'))
+}
+
+/**
+ * Drop roots that are disconnected or inside another root
+ */
+function normalizeRoots(roots: Set<HTMLElement>): HTMLElement[] {
+  const connected = Array.from(roots).filter((root) => root.isConnected)
+  return connected.filter((root) => !connected.some((other) => other !== root && other.contains(root)))
+}
+
+function send(port: chrome.runtime.Port, update: WatchUpdate) {
+  try {
+    port.postMessage({ type: 'WATCH_UPDATE', update })
+  } catch {
+    // Panel closed between the scan and the message
+  }
+}
+
+/**
+ * Start watching the page; the first full scan is sent as `added`
+ */
+export function startWatch(port: chrome.runtime.Port, callbacks: WatchCallbacks): WatchSession {
+  const tracked = new Map<string, ScanResult>()
+  const pending = new Set<HTMLElement>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+
+  const track = (update: WatchUpdate) => {
+    update.resolved.forEach((key) => tracked.delete(key))
+    ;[...update.added, ...update.changed].forEach((result) => tracked.set(getFindingKey(result), result))
+  }
+
+  const flush = async () => {
+    timer = null
+    if (stopped) return
+    if (callbacks.isBusy()) {
+      schedule()
+      return
+    }
+
+    const scope = normalizeRoots(pending)
+    pending.clear()
+    if (scope.length === 0) return
+
+    // Findings whose element is gone, or sits inside a changed subtree
+    const previous = Array.from(tracked.values()).filter((result) => {
+      const element = resolveSelector(result.selector)
+      return !element || scope.some((root) => root.contains(element))
+    })
+
+    const update = diffFindings(previous, await callbacks.scan(scope))
+    if (stopped || isEmptyUpdate(update)) return
+    track(update)
+    send(port, update)
+  }
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(flush, WATCH_DEBOUNCE_MS)
+  }
+
+  const observer = new MutationObserver((records) => {
+    records.forEach((record) => {
+      const target = record.type === 'characterData' ? record.target.parentElement : record.target
+      if (!(target instanceof HTMLElement) || callbacks.isIgnored(target) || isOwnNode(target)) return
+      if (record.type === 'attributes' && (isOwnClassChange(record) || isOwnStyleChange(record))) return
+      if (isOwnNodeChange(record)) return
+      pending.add(target)
+    })
+    if (pending.size > 0) schedule()
+  })
+
+  const start = async () => {
+    timer = null
+    if (stopped) return
+    if (callbacks.isBusy()) {
+      timer = setTimeout(start, WATCH_DEBOUNCE_MS)
+      return
+    }
+
+    const results = await callbacks.scan(null)
+    if (stopped) return
+    const update: WatchUpdate = { added: results.filter(isFinding), changed: [], resolved: [] }
+    track(update)
+    send(port, update)
+
+    observer.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeOldValue: true,
+      attributeFilter: ['class', 'style', 'hidden', 'disabled', 'placeholder'],
+    })
+  }
+
+  start()
+
+  return {
+    stop: () => {
+      stopped = true
+      observer.disconnect()
+      if (timer) clearTimeout(timer)
+      pending.clear()
+      tracked.clear()
+    },
+  }
+}
@@ -1,25 +1,28 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { RGB, parseColor, rgbToHex } from '@/lib/color-utils'
-import { analyzeContrast, ContrastResult, WCAG_THRESHOLDS } from '@/lib/contrast'
+import { analyzeContrast, ContrastResult, ContrastMetric, WCAG_THRESHOLDS } from '@/lib/contrast'
+import { formatApcaContrast } from '@/lib/apca'
 import { getSuggestions, SuggestionResult } from '@/lib/suggestions'
-import { getColorHistory, ColorPair } from '@/lib/storage'
+import { getColorHistory, getPreferences, ColorPair, ScanScope, DEFAULT_SCAN_SCOPE, getScanScope, saveScanScope } from '@/lib/storage'
+import { ScanResult, ScanStatus, ScanCategory, NON_TEXT_COMPONENT_LABELS, getScanStatus, parseSelectorLines } from '@/lib/scanner'
+import { INTERACTIVE_STATE_LABELS } from '@/lib/interactive-states'
+import { WATCH_PORT_NAME, WatchUpdate, applyWatchUpdate, getFindingKey } from '@/lib/watch'
+import { GroupBy, GROUP_BY_LABELS, ResultGroup, groupResults, isFindingsOnlyGrouping } from '@/lib/grouping'
+import { describeTokenPair } from '@/lib/custom-properties'
+import { buildCssPatch, formatCssPatch, findPassingColor, getSelectorSuffix } from '@/lib/css-patch'
 import { copyToClipboard } from '@/popup/components/Toast'
-
-interface ScanResult {
-  element: string
-  selector: string
-  foreground: string
-  background: string
-  ratio: number
-  score: string
-  fontSize: string
-  fontWeight: string
-  text: string
-}
+import { ScanProgressBar, useScanProgress } from '@/popup/components/ScanProgress'
 
 type ViewMode = 'checker' | 'scanner' | 'history'
 type ScanFilter = 'all' | 'fail' | 'warning' | 'pass'
 
+// A suggested color applied to the page, with the contrast measured after applying it
+interface FixPreview {
+  color: string
+  ratio?: number
+  passes?: boolean
+}
+
 export function DevToolsPanel() {
   const [viewMode, setViewMode] = useState<ViewMode>('checker')
   const [foregroundHex, setForegroundHex] = useState('#1F1F1E')
@@ -30,9 +33,12 @@ export function DevToolsPanel() {
   const [suggestions, setSuggestions] = useState<SuggestionResult | null>(null)
   const [scanResults, setScanResults] = useState<ScanResult[]>([])
   const [scanFilter, setScanFilter] = useState<ScanFilter>('all')
+  const [scanCategory, setScanCategory] = useState<ScanCategory>('text')
+  const [groupBy, setGroupBy] = useState<GroupBy>('none')
   const [isScanning, setIsScanning] = useState(false)
   const [history, setHistory] = useState<ColorPair[]>([])
   const [targetLevel, setTargetLevel] = useState<'AA' | 'AAA'>('AA')
+  const [metric, setMetric] = useState<ContrastMetric>('wcag2')
 
   // Calculate contrast when colors change
   useEffect(() => {
@@ -52,6 +58,11 @@ export function DevToolsPanel() {
     getColorHistory().then(setHistory)
   }, [])
 
+  // Load preferred contrast metric
+  useEffect(() => {
+    getPreferences().then((prefs) => setMetric(prefs.contrastMetric))
+  }, [])
+
   const handleForegroundChange = useCallback((value: string) => {
     setForegroundHex(value)
     const rgb = parseColor(value)
@@ -128,6 +139,59 @@ export function DevToolsPanel() {
 
   const [scanError, setScanError] = useState<string | null>(null)
 
+  // Scan scope, remembered per origin
+  const [scanScope, setScanScope] = useState<ScanScope>(DEFAULT_SCAN_SCOPE)
+  const [excludeText, setExcludeText] = useState(DEFAULT_SCAN_SCOPE.excludeSelectors.join('\n'))
+  const [scopeOrigin, setScopeOrigin] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (viewMode !== 'scanner') return
+    chrome.tabs.query({ active: true, currentWindow: true }).then(async ([tab]) => {
+      if (!tab?.url) return
+      let origin: string
+      try {
+        origin = new URL(tab.url).origin
+      } catch {
+        return
+      }
+      const scope = await getScanScope(origin)
+      setScopeOrigin(origin)
+      setScanScope(scope)
+      setExcludeText(scope.excludeSelectors.join('\n'))
+    })
+  }, [viewMode])
+
+  const updateScanScope = useCallback((updates: Partial<ScanScope>) => {
+    const next = { ...scanScope, ...updates }
+    setScanScope(next)
+    if (scopeOrigin) saveScanScope(scopeOrigin, next)
+  }, [scanScope, scopeOrigin])
+
+  // The root field keeps what is typed (spaces included) and is trimmed on blur and when scanning
+  const scanOptions = useMemo(
+    () => ({ ...scanScope, rootSelector: scanScope.rootSelector.trim() }),
+    [scanScope]
+  )
+
+  const handleExcludeChange = useCallback((text: string) => {
+    setExcludeText(text)
+    updateScanScope({ excludeSelectors: parseSelectorLines(text) })
+  }, [updateScanScope])
+
+  const handlePickRoot = useCallback(async () => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id || !(await ensureContentScriptLoaded(tab.id))) {
+      setScanError('Could not start the region picker on this page. Try refreshing the page.')
+      return
+    }
+    chrome.tabs.sendMessage(tab.id, { type: 'PICK_SCAN_ROOT' }, (response) => {
+      if (chrome.runtime.lastError) return
+      if (response?.selector) updateScanScope({ rootSelector: response.selector })
+    })
+  }, [ensureContentScriptLoaded, updateScanScope])
+  const [scanningTabId, setScanningTabId] = useState<number | null>(null)
+  const scanProgress = useScanProgress(scanningTabId)
+
   const handleScanPage = useCallback(async () => {
     setIsScanning(true)
     setScanError(null)
@@ -161,7 +225,9 @@ export function DevToolsPanel() {
       }
       
       // Send scan request and wait for response
-      chrome.tabs.sendMessage(tab.id, { type: 'SCAN_PAGE' }, (response) => {
+      setScanningTabId(tab.id)
+      chrome.tabs.sendMessage(tab.id, { type: 'SCAN_PAGE', options: scanOptions }, (response) => {
+        setScanningTabId(null)
         if (chrome.runtime.lastError) {
           console.error('Scan message error:', chrome.runtime.lastError)
           setScanError('Failed to communicate with the page. Try refreshing.')
@@ -171,9 +237,10 @@ export function DevToolsPanel() {
         
         if (response?.results) {
           setScanResults(response.results)
+          setScanCategory('text')
           setScanError(null)
-        } else {
-          setScanError('No results received. The page may not have scannable text elements.')
+        } else if (!response?.cancelled) {
+          setScanError(response?.error ?? 'No results received. The page may not have scannable text elements.')
         }
         setIsScanning(false)
       })
@@ -182,7 +249,60 @@ export function DevToolsPanel() {
       setScanError('An unexpected error occurred while scanning. Try refreshing the page.')
       setIsScanning(false)
     }
-  }, [ensureContentScriptLoaded])
+  }, [ensureContentScriptLoaded, scanOptions])
+
+  const handleCancelScan = useCallback(() => {
+    if (scanningTabId !== null) {
+      chrome.tabs.sendMessage(scanningTabId, { type: 'CANCEL_SCAN' })
+    }
+  }, [scanningTabId])
+
+  // Watch mode: the content script re-scans on DOM changes and streams diffs over a Port
+  const [isWatching, setIsWatching] = useState(false)
+  const [lastWatchUpdate, setLastWatchUpdate] = useState<WatchUpdate | null>(null)
+  const watchPortRef = useRef<chrome.runtime.Port | null>(null)
+
+  const stopWatching = useCallback(() => {
+    watchPortRef.current?.disconnect()
+    watchPortRef.current = null
+    setIsWatching(false)
+  }, [])
+
+  const handleToggleWatch = useCallback(async () => {
+    if (watchPortRef.current) {
+      stopWatching()
+      return
+    }
+
+    setScanError(null)
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id || !(await ensureContentScriptLoaded(tab.id))) {
+      setScanError('Could not start watch mode on this page. Try refreshing the page.')
+      return
+    }
+
+    const port = chrome.tabs.connect(tab.id, { name: WATCH_PORT_NAME, frameId: 0 })
+    port.onMessage.addListener((message) => {
+      if (message.type !== 'WATCH_UPDATE') return
+      setScanResults((results) => applyWatchUpdate(results, message.update))
+      setLastWatchUpdate(message.update)
+    })
+    port.onDisconnect.addListener(() => {
+      // Navigation or a closed tab ends the session
+      if (watchPortRef.current === port) watchPortRef.current = null
+      setIsWatching(false)
+    })
+
+    watchPortRef.current = port
+    setScanResults([])
+    setScanCategory('text')
+    setLastWatchUpdate(null)
+    setIsWatching(true)
+    port.postMessage({ type: 'WATCH_START', level: targetLevel, options: scanOptions })
+  }, [ensureContentScriptLoaded, stopWatching, targetLevel, scanOptions])
+
+  // Close the port with the panel
+  useEffect(() => () => watchPortRef.current?.disconnect(), [])
 
   const handleApplySuggestion = useCallback((type: 'foreground' | 'background', rgb: RGB) => {
     if (type === 'foreground') {
@@ -202,31 +322,122 @@ export function DevToolsPanel() {
     setViewMode('checker')
   }, [])
 
-  // Scroll to element on the page
-  const handleScrollToElement = useCallback(async (selector: string) => {
+  // Scroll to element on the page, routed to the frame it was found in
+  const handleScrollToElement = useCallback(async (result: ScanResult) => {
     try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
       if (tab?.id) {
-        chrome.tabs.sendMessage(tab.id, { 
-          type: 'SCROLL_TO_ELEMENT', 
-          selector 
-        })
+        // The frame ID goes in the message too, so child frames know they were addressed
+        const frameId = result.frameId ?? 0
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'SCROLL_TO_ELEMENT',
+          selector: result.selector,
+          frameId,
+        }, { frameId })
       }
     } catch (error) {
       console.error('Error scrolling to element:', error)
     }
   }, [])
 
+  // Preview the nearest passing color on the page; the element is re-scanned with it applied
+  const [fixPreviews, setFixPreviews] = useState<Record<string, FixPreview>>({})
+
+  const handlePreviewFix = useCallback(async (result: ScanResult) => {
+    const foreground = parseColor(result.foreground)
+    const background = parseColor(result.background)
+    if (!foreground || !background) return
+    const color = rgbToHex(findPassingColor(foreground, [background], result.requiredRatio))
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id) return
+    chrome.tabs.sendMessage(tab.id, {
+      type: 'PREVIEW_FIX',
+      selector: result.selector,
+      property: 'color',
+      value: color,
+      suffix: getSelectorSuffix(result),
+    }, { frameId: result.frameId ?? 0 }, (response) => {
+      if (chrome.runtime.lastError || !response) return
+      const key = getFindingKey(result)
+      if (!response.success) {
+        setScanError(response.error ?? 'Could not preview the fix')
+        // Applied but not re-checked: keep it listed so it can be reverted
+        if (response.active) setFixPreviews((previous) => ({ ...previous, [key]: { color } }))
+        return
+      }
+      // Re-scanned results come from the frame itself, which doesn't know its id
+      const rescanned = (response.results as ScanResult[]).find(
+        (r) => getFindingKey({ ...r, frameId: result.frameId }) === key
+      )
+      setFixPreviews((previous) => ({
+        ...previous,
+        [key]: { color, ratio: rescanned?.ratio, passes: rescanned?.passes },
+      }))
+    })
+  }, [])
+
+  // Previews reverted from the bar on the page
+  useEffect(() => {
+    const listener = (message: { type?: string }, sender: chrome.runtime.MessageSender) => {
+      if (message.type !== 'FIX_PREVIEWS_REVERTED' || sender.tab?.id !== chrome.devtools.inspectedWindow.tabId) return
+      setFixPreviews({})
+    }
+    chrome.runtime.onMessage.addListener(listener)
+    return () => chrome.runtime.onMessage.removeListener(listener)
+  }, [])
+
+  const handleRevertPreviews = useCallback(async () => {
+    setFixPreviews({})
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (tab?.id) chrome.tabs.sendMessage(tab.id, { type: 'REVERT_FIX_PREVIEWS' })
+  }, [])
+
+  const previewCount = Object.keys(fixPreviews).length
+
   // Memoize scan stats to avoid recalculating on every render
   const scanStats = useMemo(() => ({
     total: scanResults.length,
-    fail: scanResults.filter(r => r.score === 'fail').length,
-    warning: scanResults.filter(r => r.score === 'aa-large').length,
-    pass: scanResults.filter(r => r.score === 'aa' || r.score === 'aaa').length,
+    fail: scanResults.filter(r => getScanStatus(r) === 'fail').length,
+    warning: scanResults.filter(r => getScanStatus(r) === 'warning').length,
+    pass: scanResults.filter(r => getScanStatus(r) === 'pass').length,
   }), [scanResults])
 
+  // Text and non-text (1.4.11) results are listed separately
+  const categoryResults = useMemo(
+    () => scanResults.filter(r => r.category === scanCategory),
+    [scanResults, scanCategory]
+  )
+  const categoryStats = useMemo(() => ({
+    text: scanResults.filter(r => r.category === 'text').length,
+    nonText: scanResults.filter(r => r.category === 'non-text').length,
+    focus: scanResults.filter(r => r.category === 'focus-indicator').length,
+    links: scanResults.filter(r => r.category === 'link').length,
+    total: categoryResults.length,
+    fail: categoryResults.filter(r => getScanStatus(r) === 'fail').length,
+    warning: categoryResults.filter(r => getScanStatus(r) === 'warning').length,
+    pass: categoryResults.filter(r => getScanStatus(r) === 'pass').length,
+  }), [scanResults, categoryResults])
+
   // Export scan results
-  const handleExportResults = useCallback((format: 'json' | 'csv') => {
+  // Override rules for every failing text color, as a stylesheet
+  const cssPatch = useMemo(() => {
+    const rules = buildCssPatch(scanResults)
+    if (rules.length === 0) return null
+    const pageUrl = scanResults.find(r => (r.framePath?.length ?? 1) === 1)?.frameUrl
+    return formatCssPatch(rules, pageUrl)
+  }, [scanResults])
+
+  const [patchCopied, setPatchCopied] = useState(false)
+  const handleCopyPatch = useCallback(async () => {
+    if (!cssPatch) return
+    if (await copyToClipboard(cssPatch)) {
+      setPatchCopied(true)
+      setTimeout(() => setPatchCopied(false), 1500)
+    }
+  }, [cssPatch])
+
+  const handleExportResults = useCallback((format: 'json' | 'csv' | 'css') => {
     if (scanResults.length === 0) return
 
     let content: string
@@ -246,23 +457,56 @@ export function DevToolsPanel() {
       }, null, 2)
       filename = `wcag-scan-${new Date().toISOString().split('T')[0]}.json`
       mimeType = 'application/json'
-    } else {
+    } else if (format === 'csv') {
       // CSV format
-      const headers = ['Element', 'Selector', 'Foreground', 'Background', 'Ratio', 'Score', 'Font Size', 'Font Weight', 'Text']
+      const headers = ['Category', 'Component', 'State', 'Pseudo Element', 'Placeholder As Label', 'Element', 'Selector', 'Foreground', 'Background', 'Ratio', 'APCA Lc', 'Score', 'Font Size', 'Font Weight', 'Large Text', 'Level', 'Required Ratio', 'Passes', 'Sampled Min', 'Sampled Median', 'Sampled Max', 'Low Confidence', 'Focus Changes', 'Indicator Area', 'Required Area', 'Link Hover/Focus Cue', 'Text Effect', 'Text Effect Color', 'Text Effect Ratio', 'Color Rule', 'Color Stylesheet', 'Custom Property', 'Foreground Token', 'Background Token', 'Frame URL', 'Frame Path', 'Text']
       const rows = scanResults.map(r => [
+        r.category,
+        r.component ?? '',
+        r.state ?? '',
+        r.pseudoElement ?? '',
+        r.placeholderAsLabel ? 'yes' : 'no',
         r.element,
         `"${r.selector.replace(/"/g, '""')}"`,
         r.foreground,
         r.background,
         r.ratio.toFixed(2),
+        r.apcaLc.toFixed(1),
         r.score,
         r.fontSize,
         r.fontWeight,
+        r.isLargeText ? 'yes' : 'no',
+        r.level,
+        r.requiredRatio,
+        r.passes ? 'yes' : 'no',
+        r.sampledRatio?.min.toFixed(2) ?? '',
+        r.sampledRatio?.median.toFixed(2) ?? '',
+        r.sampledRatio?.max.toFixed(2) ?? '',
+        r.lowConfidence ? 'yes' : 'no',
+        r.focusIndicator?.changedProperties.join(' ') ?? '',
+        r.focusIndicator?.areaPx ?? '',
+        r.focusIndicator?.requiredAreaPx ?? '',
+        r.link ? (r.link.hoverFocusCue ? 'yes' : 'no') : '',
+        r.textEffect?.source ?? '',
+        r.textEffect?.color ?? '',
+        r.textEffect?.ratio.toFixed(2) ?? '',
+        `"${(r.colorSource?.selector ?? '').replace(/"/g, '""')}"`,
+        `"${(r.colorSource?.stylesheet ?? '').replace(/"/g, '""')}"`,
+        r.colorSource?.customProperty ?? '',
+        r.tokens?.foreground?.chain.join(' > ') ?? '',
+        r.tokens?.background?.chain.join(' > ') ?? '',
+        `"${(r.frameUrl ?? '').replace(/"/g, '""')}"`,
+        (r.framePath ?? [0]).join(' > '),
         `"${r.text.replace(/"/g, '""')}"`,
       ])
       content = [headers.join(','), ...rows.map(row => row.join(','))].join('\n')
       filename = `wcag-scan-${new Date().toISOString().split('T')[0]}.csv`
       mimeType = 'text/csv'
+    } else {
+      if (!cssPatch) return
+      content = cssPatch
+      filename = `wcag-fixes-${new Date().toISOString().split('T')[0]}.css`
+      mimeType = 'text/css'
     }
 
     const blob = new Blob([content], { type: mimeType })
@@ -274,15 +518,19 @@ export function DevToolsPanel() {
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
-  }, [scanResults, scanStats])
+  }, [scanResults, scanStats, cssPatch])
 
-  const filteredResults = scanResults.filter(r => {
+  const filteredResults = useMemo(() => categoryResults.filter(r => {
     if (scanFilter === 'all') return true
-    if (scanFilter === 'fail') return r.score === 'fail'
-    if (scanFilter === 'warning') return r.score === 'aa-large'
-    if (scanFilter === 'pass') return r.score === 'aa' || r.score === 'aaa'
-    return true
-  })
+    return getScanStatus(r) === scanFilter
+  }), [categoryResults, scanFilter])
+
+  // One line item per shared fix; rules and custom properties only apply to text color
+  const effectiveGroupBy: GroupBy = scanCategory !== 'text' && groupBy !== 'pair' ? 'none' : groupBy
+  const resultGroups = useMemo(
+    () => (effectiveGroupBy === 'none' ? [] : groupResults(filteredResults, effectiveGroupBy)),
+    [filteredResults, effectiveGroupBy]
+  )
 
   return (
     <div className="h-screen flex flex-col bg-cream dark:bg-dark text-dark dark:text-cream">
@@ -357,6 +605,15 @@ export function DevToolsPanel() {
                 <option value="AA">WCAG AA</option>
                 <option value="AAA">WCAG AAA</option>
               </select>
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as ContrastMetric)}
+                className="input text-xs flex-1"
+              >
+                <option value="wcag2">WCAG 2 ratio</option>
+                <option value="apca">APCA Lc</option>
+                <option value="both">Both</option>
+              </select>
             </div>
 
             {/* Preview & Result */}
@@ -374,22 +631,50 @@ export function DevToolsPanel() {
                   </p>
                 </div>
 
-                <div className="text-center mb-4">
-                  <div className="text-4xl font-bold tabular-nums">{contrastResult.ratioString}</div>
-                  <p className="text-sm text-warm-brown dark:text-cream/60">Contrast Ratio</p>
-                </div>
+                {metric !== 'apca' && (
+                  <>
+                    <div className="text-center mb-4">
+                      <div className="text-4xl font-bold tabular-nums">{contrastResult.ratioString}</div>
+                      <p className="text-sm text-warm-brown dark:text-cream/60">Contrast Ratio</p>
+                    </div>
 
-                <div className={`p-3 rounded-lg text-center ${getScoreStyles(contrastResult.score)}`}>
-                  <span className="font-semibold">{getScoreLabel(contrastResult.score)}</span>
-                </div>
+                    <div className={`p-3 rounded-lg text-center ${getScoreStyles(contrastResult.score)}`}>
+                      <span className="font-semibold">{getScoreLabel(contrastResult.score)}</span>
+                    </div>
 
-                {/* WCAG Grid */}
-                <div className="grid grid-cols-4 gap-2 mt-4 text-xs">
-                  <ComplianceCell label="AA Normal" passed={contrastResult.aa.normalText} ratio={WCAG_THRESHOLDS.AA_NORMAL} />
-                  <ComplianceCell label="AA Large" passed={contrastResult.aa.largeText} ratio={WCAG_THRESHOLDS.AA_LARGE} />
-                  <ComplianceCell label="AAA Normal" passed={contrastResult.aaa.normalText} ratio={WCAG_THRESHOLDS.AAA_NORMAL} />
-                  <ComplianceCell label="AAA Large" passed={contrastResult.aaa.largeText} ratio={WCAG_THRESHOLDS.AAA_LARGE} />
-                </div>
+                    {/* WCAG Grid */}
+                    <div className="grid grid-cols-4 gap-2 mt-4 text-xs">
+                      <ComplianceCell label="AA Normal" passed={contrastResult.aa.normalText} ratio={WCAG_THRESHOLDS.AA_NORMAL} />
+                      <ComplianceCell label="AA Large" passed={contrastResult.aa.largeText} ratio={WCAG_THRESHOLDS.AA_LARGE} />
+                      <ComplianceCell label="AAA Normal" passed={contrastResult.aaa.normalText} ratio={WCAG_THRESHOLDS.AAA_NORMAL} />
+                      <ComplianceCell label="AAA Large" passed={contrastResult.aaa.largeText} ratio={WCAG_THRESHOLDS.AAA_LARGE} />
+                    </div>
+                  </>
+                )}
+
+                {metric !== 'wcag2' && (
+                  <div className="mt-4">
+                    <div className="text-center mb-3">
+                      <div className="text-4xl font-bold tabular-nums">{contrastResult.apca.lcString}</div>
+                      <p className="text-sm text-warm-brown dark:text-cream/60">
+                        APCA Lightness Contrast ({contrastResult.apca.polarity === 'dark-on-light' ? 'dark on light' : 'light on dark'})
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                      {contrastResult.apca.fontLookup.map((item) => (
+                        <div
+                          key={item.weight}
+                          className={`p-2 rounded text-center ${item.minFontSize !== null ? 'bg-green-50 dark:bg-green-900/10' : 'bg-red-50 dark:bg-red-900/10'}`}
+                        >
+                          <div className="font-medium">Weight {item.weight}</div>
+                          <div className="text-warm-brown dark:text-cream/60">
+                            {item.minFontSize !== null ? `≥ ${item.minFontSize}px` : 'Not for text'}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -452,11 +737,49 @@ export function DevToolsPanel() {
                       </svg>
                       CSV
                     </button>
+                    {cssPatch && (
+                      <>
+                        <button
+                          onClick={() => handleExportResults('css')}
+                          className="btn-ghost text-xs py-1 px-2"
+                          title="Download CSS overrides with the nearest passing colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                          </svg>
+                          CSS Fix
+                        </button>
+                        <button
+                          onClick={handleCopyPatch}
+                          className="btn-ghost text-xs py-1 px-2"
+                          title="Copy CSS overrides"
+                        >
+                          {patchCopied ? 'Copied' : 'Copy Fix'}
+                        </button>
+                      </>
+                    )}
                   </div>
                 )}
+                {previewCount > 0 && (
+                  <button
+                    onClick={handleRevertPreviews}
+                    className="btn-secondary text-xs"
+                    title="Remove every color override previewed on the page"
+                  >
+                    Revert Previews ({previewCount})
+                  </button>
+                )}
                 <button
-                  onClick={handleScanPage}
+                  onClick={handleToggleWatch}
                   disabled={isScanning}
+                  className={`text-xs ${isWatching ? 'btn-primary' : 'btn-secondary'}`}
+                  title="Re-scan automatically as the page changes"
+                >
+                  {isWatching ? 'Stop Watching' : 'Watch'}
+                </button>
+                <button
+                  onClick={handleScanPage}
+                  disabled={isScanning || isWatching}
                   className="btn-primary text-xs"
                 >
                   {isScanning ? 'Scanning...' : 'Scan Page'}
@@ -464,25 +787,171 @@ export function DevToolsPanel() {
               </div>
             </div>
 
+            {/* Scope */}
+            <div className="card p-3 space-y-2 text-xs">
+              <div className="flex items-center gap-2">
+                <label htmlFor="scan-root" className="w-14 shrink-0 text-warm-brown dark:text-cream/60">Root</label>
+                <input
+                  id="scan-root"
+                  type="text"
+                  value={scanScope.rootSelector}
+                  onChange={(e) => updateScanScope({ rootSelector: e.target.value })}
+                  onBlur={(e) => updateScanScope({ rootSelector: e.target.value.trim() })}
+                  placeholder="Whole page"
+                  className="input text-xs font-mono flex-1"
+                />
+                <button
+                  onClick={handlePickRoot}
+                  disabled={isScanning}
+                  className="btn-ghost text-xs py-1 px-2"
+                  title="Click an element on the page to scan only that region"
+                >
+                  Pick
+                </button>
+                {scanOptions.rootSelector && (
+                  <button
+                    onClick={() => updateScanScope({ rootSelector: '' })}
+                    className="btn-ghost text-xs py-1 px-2"
+                    title="Scan the whole page"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+              <div className="flex items-start gap-2">
+                <label htmlFor="scan-exclude" className="w-14 shrink-0 pt-1 text-warm-brown dark:text-cream/60">Exclude</label>
+                <textarea
+                  id="scan-exclude"
+                  rows={2}
+                  value={excludeText}
+                  onChange={(e) => handleExcludeChange(e.target.value)}
+                  placeholder={'.cookie-banner\n[data-wcag-ignore]'}
+                  className="input text-xs font-mono flex-1 resize-y"
+                  title="One selector per line"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scanScope.viewportOnly}
+                    onChange={(e) => updateScanScope({ viewportOnly: e.target.checked })}
+                    className="w-4 h-4 accent-primary"
+                  />
+                  Visible viewport only
+                </label>
+                {scopeOrigin && (
+                  <span className="text-warm-brown/70 dark:text-cream/40 truncate" title={scopeOrigin}>
+                    Saved for {new URL(scopeOrigin).host}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {isScanning && scanningTabId !== null && (
+              <ScanProgressBar progress={scanProgress} onCancel={handleCancelScan} />
+            )}
+
+            {isWatching && (
+              <p className="text-xs text-warm-brown dark:text-cream/60 flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                Watching for page changes
+                {lastWatchUpdate && (
+                  <span>
+                    · last update +{lastWatchUpdate.added.length} new, {lastWatchUpdate.changed.length} changed, {lastWatchUpdate.resolved.length} resolved
+                  </span>
+                )}
+              </p>
+            )}
+
             {scanResults.length > 0 && (
               <>
+                {/* Category */}
+                <div className="flex gap-1 p-1 bg-beige dark:bg-warm-brown/10 rounded-lg w-fit">
+                  <button
+                    onClick={() => setScanCategory('text')}
+                    className={`px-3 py-1 rounded text-xs font-medium ${scanCategory === 'text' ? 'bg-white dark:bg-dark shadow-sm' : 'text-warm-brown dark:text-cream/60'}`}
+                  >
+                    Text ({categoryStats.text})
+                  </button>
+                  <button
+                    onClick={() => { setScanCategory('non-text'); setScanFilter('all') }}
+                    className={`px-3 py-1 rounded text-xs font-medium ${scanCategory === 'non-text' ? 'bg-white dark:bg-dark shadow-sm' : 'text-warm-brown dark:text-cream/60'}`}
+                    title="UI components and graphics (WCAG 1.4.11, 3:1)"
+                  >
+                    Non-text ({categoryStats.nonText})
+                  </button>
+                  {categoryStats.focus > 0 && (
+                    <button
+                      onClick={() => setScanCategory('focus-indicator')}
+                      className={`px-3 py-1 rounded text-xs font-medium ${scanCategory === 'focus-indicator' ? 'bg-white dark:bg-dark shadow-sm' : 'text-warm-brown dark:text-cream/60'}`}
+                      title="Focus indicators (WCAG 2.4.7 / 2.4.13)"
+                    >
+                      Focus ({categoryStats.focus})
+                    </button>
+                  )}
+                  {categoryStats.links > 0 && (
+                    <button
+                      onClick={() => setScanCategory('link')}
+                      className={`px-3 py-1 rounded text-xs font-medium ${scanCategory === 'link' ? 'bg-white dark:bg-dark shadow-sm' : 'text-warm-brown dark:text-cream/60'}`}
+                      title="Links set apart from surrounding text by color alone (WCAG 1.4.1, 3:1)"
+                    >
+                      Links ({categoryStats.links})
+                    </button>
+                  )}
+                </div>
+
                 {/* Stats */}
                 <div className="flex gap-2">
-                  <StatBadge label="Total" count={scanStats.total} color="gray" onClick={() => setScanFilter('all')} active={scanFilter === 'all'} />
-                  <StatBadge label="Fail" count={scanStats.fail} color="red" onClick={() => setScanFilter('fail')} active={scanFilter === 'fail'} />
-                  <StatBadge label="Warning" count={scanStats.warning} color="yellow" onClick={() => setScanFilter('warning')} active={scanFilter === 'warning'} />
-                  <StatBadge label="Pass" count={scanStats.pass} color="green" onClick={() => setScanFilter('pass')} active={scanFilter === 'pass'} />
+                  <StatBadge label="Total" count={categoryStats.total} color="gray" onClick={() => setScanFilter('all')} active={scanFilter === 'all'} />
+                  <StatBadge label="Fail" count={categoryStats.fail} color="red" onClick={() => setScanFilter('fail')} active={scanFilter === 'fail'} />
+                  {scanCategory !== 'non-text' && (
+                    <StatBadge label="Warning" count={categoryStats.warning} color="yellow" onClick={() => setScanFilter('warning')} active={scanFilter === 'warning'} />
+                  )}
+                  <StatBadge label="Pass" count={categoryStats.pass} color="green" onClick={() => setScanFilter('pass')} active={scanFilter === 'pass'} />
+                  <select
+                    value={effectiveGroupBy}
+                    onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+                    className="input text-xs py-1 ml-auto w-auto"
+                    aria-label="Group results"
+                    title="Collapse results that share one fix"
+                  >
+                    {(Object.keys(GROUP_BY_LABELS) as GroupBy[])
+                      .filter((option) => scanCategory === 'text' || option === 'none' || option === 'pair')
+                      .map((option) => (
+                        <option key={option} value={option}>{GROUP_BY_LABELS[option]}</option>
+                      ))}
+                  </select>
                 </div>
+                {isFindingsOnlyGrouping(effectiveGroupBy) && (
+                  <p className="text-xs text-gray-500">
+                    Only failures and warnings are traced to rules, so passing results are hidden in this grouping.
+                  </p>
+                )}
 
                 {/* Results List */}
                 <div className="space-y-2 max-h-[60vh] overflow-y-auto">
-                  {filteredResults.map((result, index) => (
-                    <ScanResultItem 
-                      key={index} 
-                      result={result} 
-                      onScrollTo={handleScrollToElement}
-                    />
-                  ))}
+                  {effectiveGroupBy === 'none'
+                    ? filteredResults.map((result, index) => (
+                        <ScanResultItem 
+                          key={index} 
+                          result={result} 
+                          metric={metric}
+                          onScrollTo={handleScrollToElement}
+                          preview={fixPreviews[getFindingKey(result)]}
+                          onPreviewFix={handlePreviewFix}
+                        />
+                      ))
+                    : resultGroups.map((group) => (
+                        <ResultGroupItem
+                          key={group.key}
+                          group={group}
+                          metric={metric}
+                          onScrollTo={handleScrollToElement}
+                          previews={fixPreviews}
+                          onPreviewFix={handlePreviewFix}
+                        />
+                      ))}
                 </div>
               </>
             )}
@@ -512,7 +981,7 @@ export function DevToolsPanel() {
               </div>
             )}
 
-            {scanResults.length === 0 && !isScanning && !scanError && (
+            {scanResults.length === 0 && !isScanning && !isWatching && !scanError && (
               <div className="text-center py-12 text-warm-brown dark:text-cream/60">
                 <svg className="w-12 h-12 mx-auto mb-3 opacity-30" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
@@ -635,14 +1104,73 @@ function StatBadge({ label, count, color, onClick, active }: { label: string; co
   )
 }
 
-function ScanResultItem({ result, onScrollTo }: { result: ScanResult; onScrollTo?: (selector: string) => void }) {
+interface ResultItemActions {
+  onScrollTo?: (result: ScanResult) => void
+  onPreviewFix?: (result: ScanResult) => void
+}
+
+function ResultGroupItem({ group, metric, onScrollTo, previews, onPreviewFix }: ResultItemActions & { group: ResultGroup; metric: ContrastMetric; previews: Record<string, FixPreview> }) {
+  const [expanded, setExpanded] = useState(false)
+  const status: ScanStatus = group.failCount > 0 ? 'fail' : group.warningCount > 0 ? 'warning' : 'pass'
+  const statusColors: Record<ScanStatus, string> = {
+    fail: 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20',
+    warning: 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20',
+    pass: 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-900/20',
+  }
+
+  return (
+    <div className={`rounded border ${statusColors[status]}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-3 flex items-center gap-2 text-left text-xs"
+        aria-expanded={expanded}
+      >
+        <svg className={`w-3 h-3 shrink-0 transition-transform ${expanded ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <div className="w-5 h-5 rounded border border-black/10 shrink-0" style={{ backgroundColor: group.foreground }} />
+        <div className="w-5 h-5 rounded border border-black/10 shrink-0" style={{ backgroundColor: group.background }} />
+        <div className="flex-1 min-w-0">
+          <code className="block truncate">{group.label}</code>
+          {group.detail && (
+            <span className="block truncate text-warm-brown dark:text-cream/60">{group.detail}</span>
+          )}
+        </div>
+        <span className="shrink-0 text-warm-brown dark:text-cream/70" title="Lowest contrast in this group">
+          {group.worstRatio.toFixed(2)}:1
+        </span>
+        <span className="shrink-0 px-2 py-0.5 rounded-full bg-white/70 dark:bg-dark/50 font-medium" title={`${group.failCount} failing, ${group.warningCount} warnings`}>
+          × {group.results.length}
+        </span>
+      </button>
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          {group.results.map((result, index) => (
+            <ScanResultItem
+              key={index}
+              result={result}
+              metric={metric}
+              onScrollTo={onScrollTo}
+              preview={previews[getFindingKey(result)]}
+              onPreviewFix={onPreviewFix}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ScanResultItem({ result, metric, onScrollTo, preview, onPreviewFix }: ResultItemActions & { result: ScanResult; metric: ContrastMetric; preview?: FixPreview }) {
   const [copied, setCopied] = useState(false)
   
-  const scoreColors: Record<string, string> = {
+  const status = getScanStatus(result)
+  const isNonText = result.category !== 'text'
+  const tokenSummary = describeTokenPair(result)
+  const statusColors: Record<ScanStatus, string> = {
     fail: 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20',
-    'aa-large': 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20',
-    aa: 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-900/20',
-    aaa: 'border-green-300 bg-green-100 dark:border-green-700 dark:bg-green-900/30',
+    warning: 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20',
+    pass: 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-900/20',
   }
 
   const handleCopySelector = async () => {
@@ -654,9 +1182,19 @@ function ScanResultItem({ result, onScrollTo }: { result: ScanResult; onScrollTo
   }
 
   return (
-    <div className={`p-3 rounded border ${scoreColors[result.score] || 'border-gray-200'}`}>
+    <div className={`p-3 rounded border ${statusColors[status]}`}>
       <div className="flex justify-between items-start mb-2">
         <div className="flex items-center gap-1 flex-1 min-w-0">
+          {result.state && (
+            <span className="shrink-0 px-1.5 py-0.5 rounded bg-beige dark:bg-warm-brown/20 text-xs font-mono" title="Colors from an interactive state rule">
+              {INTERACTIVE_STATE_LABELS[result.state]}
+            </span>
+          )}
+          {result.pseudoElement && (
+            <span className="shrink-0 px-1.5 py-0.5 rounded bg-beige dark:bg-warm-brown/20 text-xs font-mono" title="Text generated by CSS">
+              {result.pseudoElement}
+            </span>
+          )}
           <code className="text-xs text-warm-brown dark:text-cream/70 truncate">{result.selector}</code>
           <button
             onClick={handleCopySelector}
@@ -675,12 +1213,41 @@ function ScanResultItem({ result, onScrollTo }: { result: ScanResult; onScrollTo
           </button>
         </div>
         <div className="flex items-center gap-2 shrink-0">
-          <span className={`text-xs font-bold ${result.score === 'fail' ? 'text-red-600' : result.score === 'aa-large' ? 'text-yellow-600' : 'text-green-600'}`}>
-            {result.ratio.toFixed(2)}:1
-          </span>
+          {(metric !== 'apca' || isNonText) && (
+            <span
+              className={`text-xs font-bold ${status === 'fail' ? 'text-red-600' : status === 'warning' ? 'text-yellow-600' : 'text-green-600'}`}
+              title={result.focusIndicator
+                ? `Focused vs unfocused contrast; 2.4.13 requires ${result.requiredRatio}:1`
+                : result.link
+                ? `Link vs surrounding text; 1.4.1 requires ${result.requiredRatio}:1`
+                : isNonText
+                ? `Requires ${result.requiredRatio}:1 for non-text contrast (1.4.11)`
+                : result.textEffect
+                ? `Without its ${result.textEffect.source}; WCAG ${result.level} ${result.isLargeText ? 'large' : 'normal'} text requires ${result.requiredRatio}:1`
+                : `Requires ${result.requiredRatio}:1 for WCAG ${result.level} ${result.isLargeText ? 'large' : 'normal'} text`}
+            >
+              {result.ratio.toFixed(2)}:1
+            </span>
+          )}
+          {metric !== 'wcag2' && !isNonText && (
+            <span className="text-xs font-bold text-warm-brown dark:text-cream/70">
+              {formatApcaContrast(result.apcaLc)}
+            </span>
+          )}
+          {onPreviewFix && result.category === 'text' && !result.passes && (
+            <button
+              onClick={() => onPreviewFix(result)}
+              className="p-1 rounded hover:bg-black/10 transition-colors"
+              title="Preview the nearest passing color on the page"
+            >
+              <svg className="w-4 h-4 text-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+              </svg>
+            </button>
+          )}
           {onScrollTo && (
             <button
-              onClick={() => onScrollTo(result.selector)}
+              onClick={() => onScrollTo(result)}
               className="p-1 rounded hover:bg-black/10 transition-colors"
               title="Scroll to element"
             >
@@ -696,8 +1263,91 @@ function ScanResultItem({ result, onScrollTo }: { result: ScanResult; onScrollTo
         <div className="w-5 h-5 rounded border border-black/10" style={{ backgroundColor: result.foreground }} />
         <span className="text-warm-brown dark:text-cream/60">on</span>
         <div className="w-5 h-5 rounded border border-black/10" style={{ backgroundColor: result.background }} />
-        <span className="text-warm-brown dark:text-cream/70 truncate flex-1">&quot;{result.text}&quot;</span>
+        {result.focusIndicator ? (
+          <>
+            <span className="text-warm-brown dark:text-cream/70 truncate flex-1">{result.text}</span>
+            <span className="text-warm-brown dark:text-cream/60 shrink-0" title={`2.4.13 needs at least ${result.focusIndicator.requiredAreaPx}px²`}>
+              {result.focusIndicator.visible
+                ? `${result.focusIndicator.changedProperties.join(', ')} · ${result.focusIndicator.areaPx}/${result.focusIndicator.requiredAreaPx}px²`
+                : 'no visible focus change'}
+            </span>
+          </>
+        ) : result.link ? (
+          <>
+            <span className="text-warm-brown dark:text-cream/70 truncate flex-1">&quot;{result.text}&quot;</span>
+            <span className="text-warm-brown dark:text-cream/60 shrink-0" title="Technique G183 also asks for a non-color cue such as an underline on hover and focus">
+              link on text · {result.link.hoverFocusCue ? 'underlined on hover/focus' : 'no hover/focus underline'}
+            </span>
+          </>
+        ) : result.component ? (
+          <>
+            <span className="text-warm-brown dark:text-cream/70 truncate flex-1">{result.text}</span>
+            <span className="text-warm-brown dark:text-cream/60 shrink-0">
+              {NON_TEXT_COMPONENT_LABELS[result.component]}
+            </span>
+          </>
+        ) : (
+          <>
+            <span className="text-warm-brown dark:text-cream/70 truncate flex-1">&quot;{result.text}&quot;</span>
+            <span className="text-warm-brown dark:text-cream/60 shrink-0">
+              {result.fontSize} / {result.fontWeight}{result.isLargeText ? ' · large' : ''}
+            </span>
+            {result.textEffect && (
+              <span
+                className="flex items-center gap-1 text-warm-brown dark:text-cream/60 shrink-0"
+                title={result.passes
+                  ? 'The halo or outline is used as the local background; confirm by eye that it surrounds the glyphs'
+                  : 'Fails even against its halo or outline'}
+              >
+                <span className="w-3 h-3 rounded-sm border border-black/10" style={{ backgroundColor: result.textEffect.color }} />
+                {result.passes ? 'passes via' : 'fails with'} {result.textEffect.source} · {result.textEffect.ratio.toFixed(2)}:1
+              </span>
+            )}
+          </>
+        )}
       </div>
+      {tokenSummary && (
+        <div
+          className="mt-1 text-xs font-mono text-warm-brown dark:text-cream/70 truncate"
+          title={[result.tokens?.foreground, result.tokens?.background]
+            .filter((token) => token !== undefined)
+            .map((token) => `${token!.chain.join(' → ')} (defined on ${token!.definedOn})`)
+            .join('\n')}
+        >
+          {tokenSummary}
+        </div>
+      )}
+      {preview && (
+        <div className="mt-1 flex items-center gap-2 text-xs text-warm-brown dark:text-cream/70">
+          <div className="w-4 h-4 rounded border border-black/10" style={{ backgroundColor: preview.color }} />
+          <span>
+            Previewing {preview.color}
+            {preview.ratio !== undefined && ` · ${preview.ratio.toFixed(2)}:1 ${preview.passes ? 'passes' : 'still fails'}`}
+          </span>
+        </div>
+      )}
+      {result.placeholderAsLabel && (
+        <div className="mt-1 text-xs text-amber-700 dark:text-amber-400">
+          Placeholder is the only label for this field
+        </div>
+      )}
+      {result.sampledRatio && (
+        <div className="mt-1 flex items-center gap-2 text-xs text-warm-brown dark:text-cream/60">
+          <span>
+            Sampled: min {result.sampledRatio.min.toFixed(2)} · median {result.sampledRatio.median.toFixed(2)} · max {result.sampledRatio.max.toFixed(2)}
+          </span>
+          {result.lowConfidence && (
+            <span className="px-1.5 py-0.5 rounded bg-beige dark:bg-warm-brown/20" title="Background read from screenshot pixels behind an image or gradient">
+              low confidence
+            </span>
+          )}
+        </div>
+      )}
+      {!!result.frameId && (
+        <div className="mt-1 text-xs text-warm-brown dark:text-cream/60 truncate" title={`Frame path: ${result.framePath?.join(' > ')}`}>
+          in iframe: {result.frameUrl}
+        </div>
+      )}
     </div>
   )
 }
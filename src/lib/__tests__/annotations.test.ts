@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { getAnnotationTargets, countAnnotationTargets, formatBadgeLabel } from '../annotations'
+import { makeResult } from './fixtures'
+
+const passing = { ratio: 7.2, score: 'aaa', passes: true }
+
+describe('getAnnotationTargets', () => {
+  it('should give each element one target led by its worst result', () => {
+    const targets = getAnnotationTargets([
+      makeResult({ selector: '#cta', ...passing }),
+      makeResult({ selector: '#cta', state: 'hover', ratio: 3.1 }),
+      makeResult({ selector: '#intro', ...passing }),
+    ])
+    expect(targets).toHaveLength(2)
+    expect(targets[0]).toMatchObject({ selector: '#cta', status: 'fail' })
+    expect(targets[0].result.state).toBe('hover')
+    expect(targets[0].results).toHaveLength(2)
+    expect(targets[1].status).toBe('pass')
+  })
+
+  it('should rank failures by how far they fall short of their own threshold', () => {
+    const [target] = getAnnotationTargets([
+      makeResult({ category: 'non-text', component: 'form-control', ratio: 2.9, requiredRatio: 3 }),
+      makeResult({ ratio: 4.2 }),
+    ])
+    expect(target.result.category).toBe('text')
+  })
+
+  it('should leave out results from other frames', () => {
+    expect(getAnnotationTargets([makeResult({ frameId: 3 })])).toEqual([])
+  })
+})
+
+describe('countAnnotationTargets', () => {
+  it('should count targets per status', () => {
+    const targets = getAnnotationTargets([
+      makeResult({ selector: 'a' }),
+      makeResult({ selector: 'b' }),
+      makeResult({ selector: 'c', ...passing }),
+    ])
+    expect(countAnnotationTargets(targets)).toEqual({ fail: 2, warning: 0, pass: 1 })
+  })
+})
+
+describe('formatBadgeLabel', () => {
+  it('should show the ratio, a status mark and the number of other results', () => {
+    const [target] = getAnnotationTargets([
+      makeResult({}),
+      makeResult({ pseudoElement: '::before', ratio: 3.9 }),
+    ])
+    expect(formatBadgeLabel(target)).toBe('2.9:1 ✗ +1')
+    expect(formatBadgeLabel(getAnnotationTargets([makeResult(passing)])[0])).toBe('7.2:1 ✓')
+  })
+})
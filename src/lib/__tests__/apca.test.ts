@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateApcaContrast,
+  formatApcaContrast,
+  getApcaFontLookup,
+  getApcaMinFontSize,
+  passesApca,
+  analyzeApca,
+  APCA_FONT_WEIGHTS,
+} from '../apca'
+import { RGB } from '../color-utils'
+
+const black: RGB = { r: 0, g: 0, b: 0 }
+const white: RGB = { r: 255, g: 255, b: 255 }
+const gray: RGB = { r: 136, g: 136, b: 136 } // #888888
+
+describe('calculateApcaContrast', () => {
+  it('should match reference values for dark text on light background', () => {
+    expect(calculateApcaContrast(gray, white)).toBeCloseTo(63.056, 2)
+    expect(calculateApcaContrast(black, white)).toBeCloseTo(106.04, 1)
+  })
+
+  it('should return negative values for light text on dark background', () => {
+    expect(calculateApcaContrast(white, gray)).toBeCloseTo(-68.541, 2)
+    expect(calculateApcaContrast(white, black)).toBeCloseTo(-107.88, 1)
+  })
+
+  it('should be order-dependent unlike the WCAG 2 ratio', () => {
+    const normal = calculateApcaContrast(gray, white)
+    const reverse = calculateApcaContrast(white, gray)
+    expect(Math.abs(normal)).not.toBeCloseTo(Math.abs(reverse), 1)
+  })
+
+  it('should return 0 for identical or near-identical colors', () => {
+    expect(calculateApcaContrast(gray, gray)).toBe(0)
+    expect(calculateApcaContrast({ r: 250, g: 250, b: 250 }, white)).toBe(0)
+  })
+})
+
+describe('formatApcaContrast', () => {
+  it('should format Lc with 1 decimal place', () => {
+    expect(formatApcaContrast(63.056)).toBe('Lc 63.1')
+    expect(formatApcaContrast(-68.54)).toBe('Lc -68.5')
+  })
+})
+
+describe('getApcaFontLookup', () => {
+  it('should return one entry per weight', () => {
+    const lookup = getApcaFontLookup(75)
+    expect(lookup.map((item) => item.weight)).toEqual([...APCA_FONT_WEIGHTS])
+  })
+
+  it('should use the row at or below the Lc value', () => {
+    // Lc 63 uses the Lc 60 row
+    expect(getApcaMinFontSize(63, 400)).toBe(24)
+    expect(getApcaMinFontSize(60, 400)).toBe(24)
+    expect(getApcaMinFontSize(75, 400)).toBe(18)
+  })
+
+  it('should treat negative Lc by magnitude', () => {
+    expect(getApcaFontLookup(-75)).toEqual(getApcaFontLookup(75))
+  })
+
+  it('should return null for sizes not usable for text', () => {
+    expect(getApcaMinFontSize(20, 400)).toBeNull()
+    expect(getApcaMinFontSize(5, 900)).toBeNull()
+  })
+})
+
+describe('passesApca', () => {
+  it('should check font size against the lookup table', () => {
+    expect(passesApca(75, 18, 400)).toBe(true)
+    expect(passesApca(75, 16, 400)).toBe(false)
+    expect(passesApca(-90, 16, 400)).toBe(true)
+  })
+
+  it('should round intermediate weights down to the nearest column', () => {
+    expect(getApcaMinFontSize(75, 450)).toBe(getApcaMinFontSize(75, 400))
+  })
+
+  it('should never pass when the Lc is too low for text', () => {
+    expect(passesApca(20, 200, 700)).toBe(false)
+  })
+})
+
+describe('analyzeApca', () => {
+  it('should report polarity', () => {
+    expect(analyzeApca(black, white).polarity).toBe('dark-on-light')
+    expect(analyzeApca(white, black).polarity).toBe('light-on-dark')
+  })
+
+  it('should include formatted value and font lookup', () => {
+    const result = analyzeApca(gray, white)
+    expect(result.lcString).toBe('Lc 63.1')
+    expect(result.fontLookup).toHaveLength(APCA_FONT_WEIGHTS.length)
+  })
+})
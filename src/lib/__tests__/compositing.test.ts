@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { parseBlendMode, blendChannel, compositeLayer, compositeLayers, isOpaqueLayer } from '../compositing'
+
+const white = { r: 255, g: 255, b: 255 }
+const black = { r: 0, g: 0, b: 0 }
+
+describe('parseBlendMode', () => {
+  it('should accept separable blend modes', () => {
+    expect(parseBlendMode('multiply')).toBe('multiply')
+    expect(parseBlendMode('difference')).toBe('difference')
+  })
+
+  it('should fall back to normal for non-separable modes', () => {
+    expect(parseBlendMode('luminosity')).toBe('normal')
+    expect(parseBlendMode('')).toBe('normal')
+  })
+})
+
+describe('blendChannel', () => {
+  it('should follow the compositing spec formulas', () => {
+    expect(blendChannel('normal', 0.2, 0.6)).toBe(0.6)
+    expect(blendChannel('multiply', 0.5, 0.5)).toBe(0.25)
+    expect(blendChannel('screen', 0.5, 0.5)).toBe(0.75)
+    expect(blendChannel('difference', 1, 0.25)).toBe(0.75)
+  })
+})
+
+describe('compositeLayer', () => {
+  it('should alpha blend normal layers', () => {
+    const result = compositeLayer({ rgb: black, alpha: 0.5, blendMode: 'normal' }, white)
+    expect(result).toEqual({ r: 128, g: 128, b: 128 })
+  })
+
+  it('should invert the backdrop with an opaque white difference layer', () => {
+    const result = compositeLayer({ rgb: white, alpha: 1, blendMode: 'difference' }, { r: 200, g: 100, b: 0 })
+    expect(result).toEqual({ r: 55, g: 155, b: 255 })
+  })
+})
+
+describe('compositeLayers', () => {
+  it('should paint layers bottom-up onto white', () => {
+    const result = compositeLayers([
+      { rgb: white, alpha: 0.5, blendMode: 'normal' },
+      { rgb: black, alpha: 1, blendMode: 'normal' },
+    ])
+    expect(result).toEqual({ r: 128, g: 128, b: 128 })
+  })
+
+  it('should return the base color when there are no layers', () => {
+    expect(compositeLayers([])).toEqual(white)
+  })
+})
+
+describe('isOpaqueLayer', () => {
+  it('should only treat normal, fully opaque layers as opaque', () => {
+    expect(isOpaqueLayer({ rgb: black, alpha: 1, blendMode: 'normal' })).toBe(true)
+    expect(isOpaqueLayer({ rgb: black, alpha: 0.5, blendMode: 'normal' })).toBe(false)
+    expect(isOpaqueLayer({ rgb: black, alpha: 1, blendMode: 'multiply' })).toBe(false)
+  })
+})
@@ -123,6 +123,16 @@ describe('analyzeContrast', () => {
     expect(result.foreground).toBe('#FF0000')
     expect(result.background).toBe('#FFFFFF')
   })
+
+  it('should include APCA analysis in result', () => {
+    const black: RGB = { r: 0, g: 0, b: 0 }
+    const white: RGB = { r: 255, g: 255, b: 255 }
+
+    const result = analyzeContrast(black, white)
+
+    expect(result.apca.lc).toBeCloseTo(106.04, 1)
+    expect(result.apca.polarity).toBe('dark-on-light')
+  })
 })
 
 describe('passesWcag', () => {
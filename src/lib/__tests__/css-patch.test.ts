@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { buildCssPatch, formatCssPatch, findPassingColor, getSelectorSuffix } from '../css-patch'
+import { parseColor } from '../color-utils'
+import { calculateContrastRatio } from '../contrast'
+import { makeResult } from './fixtures'
+
+const muted = { selector: '.muted', stylesheet: 'main.css' }
+
+describe('buildCssPatch', () => {
+  it('should emit one rule per declaring selector with an occurrence count', () => {
+    const rules = buildCssPatch([
+      makeResult({ selector: '#a', colorSource: muted }),
+      makeResult({ selector: '#b', colorSource: muted }),
+    ])
+    expect(rules).toHaveLength(1)
+    expect(rules[0]).toMatchObject({ selector: '.muted', property: 'color', occurrences: 2, resolved: true })
+  })
+
+  it('should pick a color that meets the required ratio', () => {
+    const [rule] = buildCssPatch([makeResult({ colorSource: muted })])
+    const ratio = calculateContrastRatio(parseColor(rule.to)!, parseColor('#FFFFFF')!)
+    expect(ratio).toBeGreaterThanOrEqual(4.5)
+    expect(rule.toRatio).toBeCloseTo(ratio, 5)
+  })
+
+  it('should pass on every background the rule applies to', () => {
+    const [rule] = buildCssPatch([
+      makeResult({ selector: '#a', colorSource: muted }),
+      makeResult({ selector: '#b', colorSource: muted, background: '#EEEEEE', ratio: 2.46 }),
+    ])
+    expect(calculateContrastRatio(parseColor(rule.to)!, parseColor('#EEEEEE')!)).toBeGreaterThanOrEqual(4.5)
+    expect(rule.fromRatio).toBe(2.46)
+  })
+
+  it('should redefine the token when the color comes from a custom property', () => {
+    const [rule] = buildCssPatch([
+      makeResult({
+        colorSource: muted,
+        tokens: { foreground: { name: '--text-muted', chain: ['--text-muted'], definedOn: 'html' } },
+      }),
+    ])
+    expect(rule).toMatchObject({ selector: 'html', property: '--text-muted' })
+  })
+
+  it('should redefine a root token on :root', () => {
+    const [rule] = buildCssPatch([
+      makeResult({
+        colorSource: muted,
+        tokens: { foreground: { name: '--text-muted', chain: ['--text-muted'], definedOn: ':root' } },
+      }),
+    ])
+    expect(rule).toMatchObject({ selector: ':root', property: '--text-muted' })
+  })
+
+  it('should fall back to the rule when the token is defined where a stylesheet cannot reach', () => {
+    const rules = buildCssPatch([
+      makeResult({
+        selector: '#a',
+        colorSource: muted,
+        tokens: { foreground: { name: '--text-muted', chain: ['--text-muted'], definedOn: '' } },
+      }),
+      makeResult({
+        selector: '#b',
+        colorSource: muted,
+        tokens: { foreground: { name: '--ink', chain: ['--ink'], definedOn: 'my-card >>> .body' } },
+      }),
+    ])
+    expect(rules.map((rule) => [rule.selector, rule.property])).toEqual([[muted.selector, 'color']])
+  })
+
+  it('should target states and pseudo-elements on the element selector', () => {
+    const rules = buildCssPatch([
+      makeResult({ selector: '#cta', state: 'hover' }),
+      makeResult({ selector: '#field', pseudoElement: '::placeholder' }),
+    ])
+    expect(rules.map((rule) => rule.selector).sort()).toEqual(['#cta:hover', '#field::placeholder'])
+  })
+
+  it('should skip passing results, non-text results and shadow-piercing selectors', () => {
+    expect(buildCssPatch([
+      makeResult({ passes: true, ratio: 7 }),
+      makeResult({ category: 'non-text', requiredRatio: 3 }),
+      makeResult({ selector: 'my-card >>> p' }),
+    ])).toEqual([])
+  })
+})
+
+describe('findPassingColor', () => {
+  it('should return the color unchanged when it already passes', () => {
+    const black = { r: 0, g: 0, b: 0 }
+    expect(findPassingColor(black, [{ r: 255, g: 255, b: 255 }], 4.5)).toEqual(black)
+  })
+
+  it('should meet the ratio on every background', () => {
+    const backgrounds = ['#FFFFFF', '#E5E5E5'].map((hex) => parseColor(hex)!)
+    const color = findPassingColor(parseColor('#999999')!, backgrounds, 4.5)
+    backgrounds.forEach((background) => {
+      expect(calculateContrastRatio(color, background)).toBeGreaterThanOrEqual(4.5)
+    })
+  })
+})
+
+describe('getSelectorSuffix', () => {
+  it('should combine the state and pseudo-element', () => {
+    expect(getSelectorSuffix(makeResult({ state: 'focus-visible' }))).toBe(':focus-visible')
+    expect(getSelectorSuffix(makeResult({ pseudoElement: '::placeholder' }))).toBe('::placeholder')
+    expect(getSelectorSuffix(makeResult({}))).toBe('')
+  })
+})
+
+describe('formatCssPatch', () => {
+  it('should comment each rule with the old and new ratio', () => {
+    const css = formatCssPatch(buildCssPatch([makeResult({ colorSource: muted })]), 'https://example.com/')
+    expect(css).toContain('Page: https://example.com/')
+    expect(css).toMatch(/\/\* 2\.85:1 → \d\.\d\d:1 \(needs 4\.5:1\) · #999999 → #[0-9A-F]{6} · 1 occurrence \*\/\n\.muted \{\n {2}color: #[0-9A-F]{6};\n\}/)
+  })
+})
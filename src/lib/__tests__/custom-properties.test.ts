@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { parseVarReference, traceVarChain, describeTokenPair } from '../custom-properties'
+import { makeResult } from './fixtures'
+
+describe('parseVarReference', () => {
+  it('should parse a reference without a fallback', () => {
+    expect(parseVarReference('var(--text-muted)')).toEqual({ name: '--text-muted' })
+  })
+
+  it('should keep nested fallbacks intact', () => {
+    expect(parseVarReference('var(--a, var(--b, rgb(0 0 0)))')).toEqual({ name: '--a', fallback: 'var(--b, rgb(0 0 0))' })
+  })
+
+  it('should find references inside other functions', () => {
+    expect(parseVarReference('rgb(var(--rgb-muted) / 0.8)')).toEqual({ name: '--rgb-muted' })
+  })
+
+  it('should return null for literal colors', () => {
+    expect(parseVarReference('#9CA3AF')).toBeNull()
+  })
+})
+
+describe('traceVarChain', () => {
+  const tokens: Record<string, string> = {
+    '--text-muted': 'var(--gray-400)',
+    '--gray-400': '#9CA3AF',
+    '--loop-a': 'var(--loop-b)',
+    '--loop-b': 'var(--loop-a)',
+  }
+  const lookup = (name: string) => tokens[name] ?? null
+
+  it('should follow aliases to the base token', () => {
+    expect(traceVarChain('var(--text-muted)', lookup)).toEqual(['--text-muted', '--gray-400'])
+  })
+
+  it('should use the fallback when a token is not defined', () => {
+    expect(traceVarChain('var(--brand-muted, var(--gray-400))', lookup)).toEqual(['--gray-400'])
+  })
+
+  it('should return an empty chain for literal fallbacks', () => {
+    expect(traceVarChain('var(--missing, #777)', lookup)).toEqual([])
+  })
+
+  it('should stop on cycles', () => {
+    expect(traceVarChain('var(--loop-a)', lookup)).toEqual(['--loop-a', '--loop-b'])
+  })
+})
+
+describe('describeTokenPair', () => {
+  const gray = { foreground: '#9CA3AF', background: '#F3F4F6', ratio: 2.27 }
+
+  it('should name both tokens with their colors', () => {
+    const result = makeResult({
+      ...gray,
+      tokens: {
+        foreground: { name: '--text-muted', chain: ['--text-muted', '--gray-400'], definedOn: 'html' },
+        background: { name: '--surface-2', chain: ['--surface-2'], definedOn: '.card' },
+      },
+    })
+    expect(describeTokenPair(result)).toBe('--text-muted (#9CA3AF) on --surface-2 (#F3F4F6) fails 4.5:1')
+  })
+
+  it('should fall back to hex for the untraced side', () => {
+    const result = makeResult({
+      ...gray,
+      tokens: { foreground: { name: '--text-muted', chain: ['--text-muted'], definedOn: 'html' } },
+    })
+    expect(describeTokenPair(result)).toBe('--text-muted (#9CA3AF) on #F3F4F6 fails 4.5:1')
+  })
+
+  it('should return null without tokens', () => {
+    expect(describeTokenPair(makeResult({}))).toBeNull()
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { CVD_TYPES, simulateCvd, getCvdMatrix, getCvdLabel, getSvgColorMatrix } from '../cvd'
+
+const white = { r: 255, g: 255, b: 255 }
+const black = { r: 0, g: 0, b: 0 }
+
+describe('simulateCvd', () => {
+  it('should leave white and black unchanged for every deficiency', () => {
+    CVD_TYPES.forEach((type) => {
+      expect(simulateCvd(white, { type, severity: 1 })).toEqual(white)
+      expect(simulateCvd(black, { type, severity: 1 })).toEqual(black)
+    })
+  })
+
+  it('should leave colors unchanged at zero severity', () => {
+    const color = { r: 200, g: 40, b: 90 }
+    expect(simulateCvd(color, { type: 'protanopia', severity: 0 })).toEqual(color)
+  })
+
+  it('should turn colors gray for achromatopsia', () => {
+    const { r, g, b } = simulateCvd({ r: 220, g: 30, b: 30 }, { type: 'achromatopsia', severity: 1 })
+    expect(r).toBe(g)
+    expect(g).toBe(b)
+  })
+
+  it('should shift red and green toward the same hue for deuteranopia', () => {
+    const simulation = { type: 'deuteranopia' as const, severity: 1 }
+    const red = simulateCvd({ r: 204, g: 0, b: 0 }, simulation)
+    const green = simulateCvd({ r: 0, g: 153, b: 0 }, simulation)
+    expect(Math.abs(red.r - red.g)).toBeLessThan(30)
+    expect(Math.abs(green.r - green.g)).toBeLessThan(30)
+  })
+})
+
+describe('getCvdMatrix', () => {
+  it('should blend from the identity toward the full matrix by severity', () => {
+    const full = getCvdMatrix({ type: 'tritanopia', severity: 1 })
+    const half = getCvdMatrix({ type: 'tritanopia', severity: 0.5 })
+    expect(half[0]).toBeCloseTo((1 + full[0]) / 2)
+    expect(half[1]).toBeCloseTo(full[1] / 2)
+  })
+
+  it('should clamp severity to 0-1', () => {
+    expect(getCvdMatrix({ type: 'protanopia', severity: 2 })).toEqual(getCvdMatrix({ type: 'protanopia', severity: 1 }))
+  })
+})
+
+describe('getCvdLabel', () => {
+  it('should name the partial form below full severity', () => {
+    expect(getCvdLabel({ type: 'deuteranopia', severity: 1 })).toBe('Deuteranopia')
+    expect(getCvdLabel({ type: 'protanopia', severity: 0.6 })).toBe('Protanomaly (60%)')
+  })
+})
+
+describe('getSvgColorMatrix', () => {
+  it('should produce a 4×5 matrix that keeps alpha', () => {
+    const values = getSvgColorMatrix({ type: 'achromatopsia', severity: 1 }).split(' ').map(Number)
+    expect(values).toHaveLength(20)
+    expect(values.slice(15)).toEqual([0, 0, 0, 1, 0])
+    expect(values.slice(0, 3)).toEqual([0.2126, 0.7152, 0.0722])
+  })
+})
@@ -0,0 +1,29 @@
+/**
+ * Shared test fixtures
+ */
+
+import { ScanResult } from '../scanner'
+
+/**
+ * A failing AA text result; override only what a test depends on
+ */
+export function makeResult(overrides: Partial<ScanResult>): ScanResult {
+  return {
+    category: 'text',
+    element: 'p',
+    selector: 'p',
+    foreground: '#999999',
+    background: '#FFFFFF',
+    ratio: 2.85,
+    apcaLc: 60.1,
+    score: 'fail',
+    fontSize: '16px',
+    fontWeight: '400',
+    text: 'Sample',
+    isLargeText: false,
+    level: 'AA',
+    requiredRatio: 4.5,
+    passes: false,
+    ...overrides,
+  }
+}
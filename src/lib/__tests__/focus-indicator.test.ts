@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { parseBoxShadow, getFocusChanges, analyzeFocusIndicator, FocusStyleSnapshot } from '../focus-indicator'
+import { parseColor } from '../color-utils'
+
+const white = { r: 255, g: 255, b: 255 }
+const blue = { r: 0, g: 95, b: 204 }
+const lightGray = { r: 238, g: 238, b: 238 }
+const box = { width: 100, height: 40 }
+
+function makeSnapshot(overrides: Partial<FocusStyleSnapshot> = {}): FocusStyleSnapshot {
+  return {
+    outlineWidth: 0,
+    outlineColor: null,
+    outlineOffset: 0,
+    borderWidth: 0,
+    borderColor: null,
+    boxShadow: [],
+    background: white,
+    ...overrides,
+  }
+}
+
+describe('parseBoxShadow', () => {
+  it('should parse computed box-shadow layers', () => {
+    const layers = parseBoxShadow('rgb(0, 95, 204) 0px 0px 0px 3px, rgba(0, 0, 0, 0.2) 0px 2px 4px 0px inset', parseColor)
+    expect(layers).toHaveLength(2)
+    expect(layers[0]).toMatchObject({ color: blue, spread: 3, inset: false })
+    expect(layers[1]).toMatchObject({ offsetY: 2, blur: 4, inset: true })
+  })
+
+  it('should return no layers for none', () => {
+    expect(parseBoxShadow('none', parseColor)).toEqual([])
+  })
+})
+
+describe('getFocusChanges', () => {
+  it('should detect a new outline against the adjacent background', () => {
+    const changes = getFocusChanges(makeSnapshot(), makeSnapshot({ outlineWidth: 2, outlineColor: blue }), box, white)
+    expect(changes).toHaveLength(1)
+    expect(changes[0].property).toBe('outline')
+    expect(changes[0].previous).toEqual(white)
+    expect(changes[0].areaPx).toBe(104 * 44 - 100 * 40)
+  })
+
+  it('should ignore styles that did not change', () => {
+    const styled = makeSnapshot({ outlineWidth: 2, outlineColor: blue })
+    expect(getFocusChanges(styled, styled, box, white)).toEqual([])
+  })
+
+  it('should detect background changes', () => {
+    const changes = getFocusChanges(makeSnapshot(), makeSnapshot({ background: lightGray }), box, white)
+    expect(changes[0]).toMatchObject({ property: 'background', areaPx: 4000 })
+  })
+})
+
+describe('analyzeFocusIndicator', () => {
+  it('should report no visible indicator when nothing changes', () => {
+    const result = analyzeFocusIndicator(makeSnapshot(), makeSnapshot(), box, white)
+    expect(result.visible).toBe(false)
+    expect(result.meetsEnhanced).toBe(false)
+    expect(result.ratio).toBe(1)
+  })
+
+  it('should meet 2.4.13 with a 2px high-contrast outline', () => {
+    const result = analyzeFocusIndicator(makeSnapshot(), makeSnapshot({ outlineWidth: 2, outlineColor: blue }), box, white)
+    expect(result.visible).toBe(true)
+    expect(result.meetsEnhanced).toBe(true)
+    expect(result.requiredAreaPx).toBe(4 * (100 + 40))
+  })
+
+  it('should be visible but not enhanced for a faint background change', () => {
+    const result = analyzeFocusIndicator(makeSnapshot(), makeSnapshot({ background: lightGray }), box, white)
+    expect(result.visible).toBe(true)
+    expect(result.meetsEnhanced).toBe(false)
+  })
+
+  it('should fail 2.4.13 when a 1px outline is too thin', () => {
+    const result = analyzeFocusIndicator(makeSnapshot(), makeSnapshot({ outlineWidth: 1, outlineColor: blue }), box, white)
+    expect(result.meetsEnhanced).toBe(false)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { getCustomPropertyName, groupResults } from '../grouping'
+import { makeResult } from './fixtures'
+
+const muted = { selector: '.muted', stylesheet: 'main.css', customProperty: '--text-muted' }
+const caption = { selector: 'figcaption', stylesheet: 'main.css' }
+
+describe('getCustomPropertyName', () => {
+  it('should find the first custom property in a value', () => {
+    expect(getCustomPropertyName('var(--text-muted)')).toBe('--text-muted')
+    expect(getCustomPropertyName('var( --a , var(--b))')).toBe('--a')
+  })
+
+  it('should return null for plain colors', () => {
+    expect(getCustomPropertyName('#777')).toBeNull()
+    expect(getCustomPropertyName('rgb(0 0 0)')).toBeNull()
+  })
+})
+
+describe('groupResults', () => {
+  const results = [
+    makeResult({ selector: '.a', colorSource: muted }),
+    makeResult({ selector: '.b', colorSource: muted, background: '#F5F5F5', ratio: 2.6 }),
+    makeResult({ selector: '.c', colorSource: caption, foreground: '#aaaaaa', ratio: 2.32 }),
+    makeResult({ selector: '.d', foreground: '#AAAAAA', ratio: 2.32 }),
+  ]
+
+  it('should group by color pair regardless of hex case', () => {
+    const groups = groupResults(results, 'pair')
+    expect(groups.map((group) => group.results.length)).toEqual([2, 1, 1])
+    expect(groups[0].label).toBe('#aaaaaa on #FFFFFF')
+  })
+
+  it('should group by declaring rule with an occurrence count', () => {
+    const groups = groupResults(results, 'rule')
+    expect(groups[0]).toMatchObject({ label: '.muted', detail: 'main.css', failCount: 2 })
+    expect(groups[0].results).toHaveLength(2)
+  })
+
+  it('should use the lowest-contrast member for the group colors', () => {
+    const [group] = groupResults(results, 'rule')
+    expect(group.worstRatio).toBe(2.6)
+    expect(group.background).toBe('#F5F5F5')
+  })
+
+  it('should list untraced results last', () => {
+    const groups = groupResults(results, 'property')
+    expect(groups.map((group) => group.label)).toEqual(['var(--text-muted)', 'Not from a custom property'])
+    expect(groups[1].results).toHaveLength(2)
+  })
+
+  it('should put groups with more failures first', () => {
+    const groups = groupResults([
+      makeResult({ selector: '.x', colorSource: caption, state: 'disabled', passes: true }),
+      makeResult({ selector: '.y', colorSource: caption, state: 'disabled', passes: true }),
+      makeResult({ selector: '.z', colorSource: muted }),
+    ], 'rule')
+    expect(groups.map((group) => group.label)).toEqual(['.muted', 'figcaption'])
+  })
+
+  it('should leave passing results out of rule and property groups', () => {
+    const withPass = [...results, makeResult({ selector: '.e', passes: true, ratio: 7 })]
+    expect(groupResults(withPass, 'rule').flatMap((group) => group.results)).toHaveLength(4)
+    expect(groupResults(withPass, 'property').flatMap((group) => group.results)).toHaveLength(4)
+    expect(groupResults(withPass, 'pair').flatMap((group) => group.results)).toHaveLength(5)
+  })
+})
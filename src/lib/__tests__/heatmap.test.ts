@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { getHeatLevel, getHeatmapEntries } from '../heatmap'
+import { makeResult } from './fixtures'
+
+describe('getHeatLevel', () => {
+  it('should bucket ratios against the target', () => {
+    expect(getHeatLevel(4.5, 4.5)).toBe('pass')
+    expect(getHeatLevel(3.8, 4.5)).toBe('close')
+    expect(getHeatLevel(2.85, 4.5)).toBe('far')
+  })
+
+  it('should follow the target for AAA', () => {
+    expect(getHeatLevel(5.2, 4.5)).toBe('pass')
+    expect(getHeatLevel(5.2, 7)).toBe('far')
+    expect(getHeatLevel(6, 7)).toBe('close')
+  })
+})
+
+describe('getHeatmapEntries', () => {
+  it('should keep the lowest-contrast text per element', () => {
+    expect(getHeatmapEntries([
+      makeResult({ selector: '#a', ratio: 5, passes: true }),
+      makeResult({ selector: '#a', pseudoElement: '::before', ratio: 2 }),
+      makeResult({ selector: '#b', ratio: 4, isLargeText: true, requiredRatio: 3, passes: true }),
+    ])).toEqual([
+      { selector: '#a', level: 'far' },
+      { selector: '#b', level: 'pass' },
+    ])
+  })
+
+  it('should skip states, non-text results and other frames', () => {
+    expect(getHeatmapEntries([
+      makeResult({ state: 'hover' }),
+      makeResult({ category: 'non-text', component: 'checkbox', requiredRatio: 3 }),
+      makeResult({ frameId: 2 }),
+    ])).toEqual([])
+  })
+})
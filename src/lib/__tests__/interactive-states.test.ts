@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  splitSelectorList,
+  extractStateSelector,
+  calculateSpecificity,
+  compareSpecificity,
+} from '../interactive-states'
+
+describe('splitSelectorList', () => {
+  it('should split on top-level commas only', () => {
+    expect(splitSelectorList('a:hover, :is(.x, .y):focus')).toEqual(['a:hover', ':is(.x, .y):focus'])
+  })
+})
+
+describe('extractStateSelector', () => {
+  it('should strip state pseudo-classes', () => {
+    expect(extractStateSelector('a:hover')).toEqual({ states: ['hover'], base: 'a' })
+    expect(extractStateSelector('.card:hover .title')).toEqual({ states: ['hover'], base: '.card .title' })
+  })
+
+  it('should fold :focus into focus-visible', () => {
+    expect(extractStateSelector('button:focus')?.states).toEqual(['focus-visible'])
+    expect(extractStateSelector('button:focus-visible')?.states).toEqual(['focus-visible'])
+  })
+
+  it('should keep :disabled in the base so enabled controls do not match', () => {
+    expect(extractStateSelector('button:disabled')).toEqual({ states: ['disabled'], base: 'button:disabled' })
+    expect(extractStateSelector('.btn:disabled:hover')).toEqual({ states: ['disabled', 'hover'], base: '.btn:disabled' })
+  })
+
+  it('should ignore :focus-within', () => {
+    expect(extractStateSelector('form:focus-within')).toBeNull()
+  })
+
+  it('should collect combined states', () => {
+    expect(extractStateSelector('a:visited:hover')?.states).toEqual(['visited', 'hover'])
+  })
+
+  it('should skip selectors it cannot emulate', () => {
+    expect(extractStateSelector('a')).toBeNull()
+    expect(extractStateSelector(':hover')).toBeNull()
+    expect(extractStateSelector('.nav *:hover')).toBeNull()
+    expect(extractStateSelector('a:hover::after')).toBeNull()
+    expect(extractStateSelector('a:not(:hover)')).toBeNull()
+  })
+})
+
+describe('calculateSpecificity', () => {
+  it('should count ids, classes and types', () => {
+    expect(calculateSpecificity('a')).toEqual([0, 0, 1])
+    expect(calculateSpecificity('.nav a:hover')).toEqual([0, 2, 1])
+    expect(calculateSpecificity('#main .btn[disabled]')).toEqual([1, 2, 0])
+  })
+
+  it('should count :where() as zero', () => {
+    expect(calculateSpecificity(':where(.nav) a')).toEqual([0, 0, 1])
+  })
+
+  it('should compare specificities', () => {
+    expect(compareSpecificity([0, 1, 0], [0, 0, 5])).toBeGreaterThan(0)
+    expect(compareSpecificity([0, 1, 0], [1, 0, 0])).toBeLessThan(0)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { getNonColorCue, declaresUnderline, classifyLinkDistinction, LinkCueStyle } from '../link-distinction'
+
+const text: LinkCueStyle = {
+  textDecorationLine: 'none',
+  borderBottomStyle: 'none',
+  borderBottomWidth: '0px',
+  fontWeight: '400',
+  fontStyle: 'normal',
+  backgroundColor: 'rgba(0, 0, 0, 0)',
+}
+
+describe('getNonColorCue', () => {
+  it('should return null when only the color differs', () => {
+    expect(getNonColorCue({ ...text }, text)).toBeNull()
+  })
+
+  it('should find an underline the surrounding text does not have', () => {
+    expect(getNonColorCue({ ...text, textDecorationLine: 'underline' }, text)).toBe('underline')
+    const underlinedText = { ...text, textDecorationLine: 'underline' }
+    expect(getNonColorCue(underlinedText, underlinedText)).toBeNull()
+  })
+
+  it('should count a visible bottom border', () => {
+    expect(getNonColorCue({ ...text, borderBottomStyle: 'solid', borderBottomWidth: '1px' }, text)).toBe('border')
+    expect(getNonColorCue({ ...text, borderBottomStyle: 'none', borderBottomWidth: '1px' }, text)).toBeNull()
+  })
+
+  it('should only count a clear weight difference', () => {
+    expect(getNonColorCue({ ...text, fontWeight: '700' }, text)).toBe('weight')
+    expect(getNonColorCue({ ...text, fontWeight: '500' }, text)).toBeNull()
+  })
+
+  it('should count italics and a background of its own', () => {
+    expect(getNonColorCue({ ...text, fontStyle: 'italic' }, text)).toBe('italic')
+    expect(getNonColorCue({ ...text, backgroundColor: 'rgb(255, 243, 196)' }, text)).toBe('background')
+  })
+})
+
+describe('declaresUnderline', () => {
+  it('should find underline in a declared text-decoration-line', () => {
+    expect(declaresUnderline('underline')).toBe(true)
+    expect(declaresUnderline('underline overline')).toBe(true)
+    expect(declaresUnderline('none')).toBe(false)
+  })
+})
+
+describe('classifyLinkDistinction', () => {
+  it('should require 3:1 against the surrounding text at either level', () => {
+    expect(classifyLinkDistinction(2.9, 'AA')).toMatchObject({ requiredRatio: 3, passes: false })
+    expect(classifyLinkDistinction(3.1, 'AAA')).toMatchObject({ requiredRatio: 3, passes: true, level: 'AAA' })
+  })
+})
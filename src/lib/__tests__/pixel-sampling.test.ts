@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { samplePixelsInRect, summarizeSampledContrast, averagePixels, PixelBuffer } from '../pixel-sampling'
+
+/** Build a buffer whose left half is black and right half is white */
+function makeSplitBuffer(width: number, height: number): PixelBuffer {
+  const data: number[] = []
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = x < width / 2 ? 0 : 255
+      data.push(v, v, v, 255)
+    }
+  }
+  return { width, height, data }
+}
+
+describe('samplePixelsInRect', () => {
+  it('should read pixels inside the rect', () => {
+    const buffer = makeSplitBuffer(10, 10)
+    const pixels = samplePixelsInRect(buffer, { left: 0, top: 0, width: 2, height: 2 }, 1)
+    expect(pixels).toHaveLength(4)
+    expect(pixels.every((p) => p.r === 0)).toBe(true)
+  })
+
+  it('should apply the device pixel scale', () => {
+    const buffer = makeSplitBuffer(20, 20)
+    const pixels = samplePixelsInRect(buffer, { left: 5, top: 0, width: 5, height: 1 }, 2)
+    expect(pixels.every((p) => p.r === 255)).toBe(true)
+  })
+
+  it('should clip rects outside the buffer', () => {
+    const buffer = makeSplitBuffer(10, 10)
+    expect(samplePixelsInRect(buffer, { left: 20, top: 20, width: 5, height: 5 }, 1)).toEqual([])
+  })
+
+  it('should stay within the sample budget', () => {
+    const buffer = makeSplitBuffer(100, 100)
+    const pixels = samplePixelsInRect(buffer, { left: 0, top: 0, width: 100, height: 100 }, 1, 50)
+    expect(pixels.length).toBeLessThanOrEqual(50)
+  })
+})
+
+describe('averagePixels', () => {
+  it('should return the pixel itself for a 1×1 area', () => {
+    expect(averagePixels(makeSplitBuffer(10, 10), 7, 2, 1)).toEqual({ r: 255, g: 255, b: 255 })
+  })
+
+  it('should average the area around the point', () => {
+    // Columns 4 (black) and 5, 6 (white) around x = 5
+    expect(averagePixels(makeSplitBuffer(10, 10), 5, 5, 3)).toEqual({ r: 170, g: 170, b: 170 })
+  })
+
+  it('should skip pixels outside the buffer', () => {
+    expect(averagePixels(makeSplitBuffer(10, 10), 0, 0, 5)).toEqual({ r: 0, g: 0, b: 0 })
+    expect(averagePixels(makeSplitBuffer(10, 10), 30, 30, 3)).toBeNull()
+  })
+})
+
+describe('summarizeSampledContrast', () => {
+  it('should return null without samples', () => {
+    expect(summarizeSampledContrast({ r: 0, g: 0, b: 0 }, [])).toBeNull()
+  })
+
+  it('should report min, median and max ratios', () => {
+    const black = { r: 0, g: 0, b: 0 }
+    const white = { r: 255, g: 255, b: 255 }
+    const gray = { r: 119, g: 119, b: 119 }
+    const summary = summarizeSampledContrast(white, [black, gray, white])!
+    expect(summary.min).toBeCloseTo(1, 2)
+    expect(summary.max).toBeCloseTo(21, 0)
+    expect(summary.median).toBeCloseTo(4.48, 1)
+    expect(summary.minBackground).toEqual(white)
+    expect(summary.sampleCount).toBe(3)
+  })
+})
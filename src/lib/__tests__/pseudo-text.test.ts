@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { parseContentText, isIconGlyphText, getMarkerText } from '../pseudo-text'
+
+const noAttributes = () => null
+
+describe('parseContentText', () => {
+  it('should return empty text for none and normal', () => {
+    expect(parseContentText('none', noAttributes)).toBe('')
+    expect(parseContentText('normal', noAttributes)).toBe('')
+    expect(parseContentText('""', noAttributes)).toBe('')
+  })
+
+  it('should read quoted strings', () => {
+    expect(parseContentText('"New"', noAttributes)).toBe('New')
+    expect(parseContentText('"Step " "1"', noAttributes)).toBe('Step 1')
+  })
+
+  it('should resolve attr()', () => {
+    const getAttribute = (name: string) => (name === 'data-label' ? 'Beta' : null)
+    expect(parseContentText('attr(data-label)', getAttribute)).toBe('Beta')
+  })
+
+  it('should ignore alternative text after a slash', () => {
+    expect(parseContentText('"→" / "next"', noAttributes)).toBe('→')
+  })
+})
+
+describe('isIconGlyphText', () => {
+  it('should treat private use characters as icons', () => {
+    expect(isIconGlyphText('\uf007')).toBe(true)
+    expect(isIconGlyphText('New')).toBe(false)
+  })
+})
+
+describe('getMarkerText', () => {
+  it('should skip graphic bullets', () => {
+    expect(getMarkerText('disc', 1)).toBeNull()
+    expect(getMarkerText('none', 1)).toBeNull()
+  })
+
+  it('should generate ordered markers', () => {
+    expect(getMarkerText('decimal', 3)).toBe('3.')
+    expect(getMarkerText('lower-alpha', 2)).toBe('b.')
+    expect(getMarkerText('upper-roman', 4)).toBe('IV.')
+  })
+
+  it('should use string list styles as-is', () => {
+    expect(getMarkerText('"- "', 1)).toBe('- ')
+  })
+})
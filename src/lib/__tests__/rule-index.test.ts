@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { createRuleIndex, getSelectorKey, getTargetKeys } from '../rule-index'
+
+const target = (localName: string, id = '', classes: string[] = []) => ({ localName, id, classList: classes })
+
+describe('getSelectorKey', () => {
+  it('should key on the rightmost compound selector', () => {
+    expect(getSelectorKey('.nav > a.button')).toBe('.button')
+    expect(getSelectorKey('main #intro p')).toBe('p')
+    expect(getSelectorKey('ul li + li')).toBe('li')
+  })
+
+  it('should prefer ids over classes over tags', () => {
+    expect(getSelectorKey('a#home.active')).toBe('#home')
+    expect(getSelectorKey('button.primary')).toBe('.primary')
+    expect(getSelectorKey('BUTTON')).toBe('button')
+  })
+
+  it('should ignore pseudo-class arguments and attributes', () => {
+    expect(getSelectorKey('a:not(.external)')).toBe('a')
+    expect(getSelectorKey('[data-state="open closed"]')).toBe('*')
+    expect(getSelectorKey(':is(.a, .b) span')).toBe('span')
+  })
+
+  it('should fall back to the universal bucket', () => {
+    expect(getSelectorKey('*')).toBe('*')
+    expect(getSelectorKey('.card :is(h2, h3)')).toBe('*')
+    expect(getSelectorKey('.a\\:hover')).toBe('*')
+  })
+})
+
+describe('getTargetKeys', () => {
+  it('should list the tag, universal, id and class keys', () => {
+    expect(getTargetKeys(target('A', 'home', ['nav', 'active']))).toEqual(['a', '*', '#home', '.nav', '.active'])
+  })
+})
+
+describe('createRuleIndex', () => {
+  it('should return only rules that could match, in insertion order', () => {
+    const index = createRuleIndex<string>()
+    index.add('.nav a', 'first')
+    index.add('.button', 'second')
+    index.add('[role="link"]', 'third')
+    index.add('#home', 'fourth')
+
+    expect(index.candidates(target('a', 'home'))).toEqual(['first', 'third', 'fourth'])
+    expect(index.candidates(target('span', '', ['button']))).toEqual(['second', 'third'])
+    expect(index.size).toBe(4)
+  })
+})
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseFontSizePx,
+  parseFontWeight,
+  isLargeTextStyle,
+  classifyTextContrast,
+  classifyNonTextContrast,
+  classifyFocusIndicator,
+  getScanStatus,
+  getFramePath,
+  tagFrameResults,
+  createScanProgress,
+  combineScanProgress,
+  parseSelectorLines,
+  FrameInfo,
+} from '../scanner'
+import { makeResult } from './fixtures'
+
+describe('parseFontSizePx', () => {
+  it('should parse computed px values', () => {
+    expect(parseFontSizePx('16px')).toBe(16)
+    expect(parseFontSizePx('18.6667px')).toBeCloseTo(18.67, 2)
+  })
+
+  it('should convert pt to px', () => {
+    expect(parseFontSizePx('18pt')).toBe(24)
+    expect(parseFontSizePx('14pt')).toBeCloseTo(18.67, 2)
+  })
+
+  it('should return 0 for unparseable values', () => {
+    expect(parseFontSizePx('')).toBe(0)
+  })
+})
+
+describe('parseFontWeight', () => {
+  it('should parse numeric weights', () => {
+    expect(parseFontWeight('400')).toBe(400)
+    expect(parseFontWeight('650')).toBe(650)
+  })
+
+  it('should map keyword weights', () => {
+    expect(parseFontWeight('bold')).toBe(700)
+    expect(parseFontWeight('normal')).toBe(400)
+  })
+})
+
+describe('isLargeTextStyle', () => {
+  it('should treat 24px regular text as large', () => {
+    expect(isLargeTextStyle('24px', '400')).toBe(true)
+    expect(isLargeTextStyle('23px', '400')).toBe(false)
+  })
+
+  it('should treat 14pt bold text as large', () => {
+    expect(isLargeTextStyle('18.6667px', '700')).toBe(true)
+    expect(isLargeTextStyle('18.6667px', '600')).toBe(false)
+  })
+})
+
+describe('classifyTextContrast', () => {
+  it('should pass a 28px heading at 3.5:1 for AA', () => {
+    const result = classifyTextContrast(3.5, '28px', '400', 'AA')
+    expect(result.isLargeText).toBe(true)
+    expect(result.requiredRatio).toBe(3)
+    expect(result.passes).toBe(true)
+  })
+
+  it('should fail 16px body text at 3.5:1 for AA', () => {
+    const result = classifyTextContrast(3.5, '16px', '400', 'AA')
+    expect(result.requiredRatio).toBe(4.5)
+    expect(result.passes).toBe(false)
+  })
+
+  it('should use AAA thresholds when configured', () => {
+    expect(classifyTextContrast(5, '28px', '400', 'AAA').passes).toBe(true)
+    expect(classifyTextContrast(5, '16px', '400', 'AAA').passes).toBe(false)
+  })
+})
+
+describe('classifyNonTextContrast', () => {
+  it('should require 3:1 for UI components', () => {
+    expect(classifyNonTextContrast(3.2, 'AA')).toEqual({
+      isLargeText: false,
+      level: 'AA',
+      requiredRatio: 3,
+      passes: true,
+    })
+    expect(classifyNonTextContrast(2.9, 'AA').passes).toBe(false)
+  })
+
+  it('should keep 3:1 at AAA since 1.4.11 has no enhanced level', () => {
+    expect(classifyNonTextContrast(3.2, 'AAA').requiredRatio).toBe(3)
+  })
+})
+
+describe('classifyFocusIndicator', () => {
+  it('should only require a visible change at AA', () => {
+    expect(classifyFocusIndicator({ visible: true, meetsEnhanced: false }, 'AA').passes).toBe(true)
+    expect(classifyFocusIndicator({ visible: false, meetsEnhanced: false }, 'AA').passes).toBe(false)
+  })
+
+  it('should require focus appearance at AAA', () => {
+    expect(classifyFocusIndicator({ visible: true, meetsEnhanced: false }, 'AAA').passes).toBe(false)
+    expect(classifyFocusIndicator({ visible: true, meetsEnhanced: true }, 'AAA').passes).toBe(true)
+  })
+})
+
+describe('getScanStatus', () => {
+  it('should report fail when the element does not pass', () => {
+    expect(getScanStatus(makeResult({ passes: false }))).toBe('fail')
+  })
+
+  it('should report pass when large text meets its own threshold', () => {
+    const result = makeResult({ ratio: 3.5, isLargeText: true, requiredRatio: 3, passes: true })
+    expect(getScanStatus(result)).toBe('pass')
+  })
+
+  it('should never report warning for non-text results', () => {
+    const result = makeResult({ category: 'non-text', component: 'svg-icon', ratio: 3.2, requiredRatio: 3, passes: true })
+    expect(getScanStatus(result)).toBe('pass')
+  })
+
+  it('should warn when a focus indicator is visible but below 2.4.13', () => {
+    const result = makeResult({
+      category: 'focus-indicator',
+      passes: true,
+      focusIndicator: { changedProperties: ['background'], areaPx: 4000, requiredAreaPx: 560, visible: true, meetsEnhanced: false },
+    })
+    expect(getScanStatus(result)).toBe('warning')
+  })
+
+  it('should warn when a color-only link has no underline on hover and focus', () => {
+    const link = { category: 'link' as const, ratio: 3.4, requiredRatio: 3, passes: true }
+    expect(getScanStatus(makeResult({ ...link, link: { hoverFocusCue: false } }))).toBe('warning')
+    expect(getScanStatus(makeResult({ ...link, link: { hoverFocusCue: true } }))).toBe('pass')
+  })
+
+  it('should warn when text passes only via its text effect', () => {
+    const textEffect = { source: 'text-shadow' as const, color: '#000000', ratio: 9.2 }
+    expect(getScanStatus(makeResult({ ratio: 2.1, requiredRatio: 4.5, passes: true, textEffect }))).toBe('warning')
+    expect(getScanStatus(makeResult({ ratio: 2.1, requiredRatio: 4.5, passes: false, textEffect }))).toBe('fail')
+  })
+
+  it('should warn about low contrast disabled states instead of failing them', () => {
+    const result = makeResult({ state: 'disabled', ratio: 2.1, requiredRatio: 4.5, passes: true })
+    expect(getScanStatus(result)).toBe('warning')
+  })
+
+  it('should report pass when meeting the normal text threshold', () => {
+    const result = makeResult({ ratio: 5, isLargeText: true, requiredRatio: 3, passes: true })
+    expect(getScanStatus(result)).toBe('pass')
+  })
+})
+
+describe('getFramePath', () => {
+  const frames: FrameInfo[] = [
+    { frameId: 0, parentFrameId: -1, url: 'https://example.com/' },
+    { frameId: 4, parentFrameId: 0, url: 'https://checkout.example.net/' },
+    { frameId: 9, parentFrameId: 4, url: 'https://cdn.example.org/widget' },
+  ]
+
+  it('should return just the top frame for frame 0', () => {
+    expect(getFramePath(0, frames)).toEqual([0])
+  })
+
+  it('should walk nested frames up to the top', () => {
+    expect(getFramePath(9, frames)).toEqual([0, 4, 9])
+  })
+
+  it('should return an empty path for unknown frames', () => {
+    expect(getFramePath(42, frames)).toEqual([])
+  })
+
+  it('should tag results with frame details', () => {
+    const [tagged] = tagFrameResults([makeResult({})], frames[2], frames)
+    expect(tagged.frameId).toBe(9)
+    expect(tagged.frameUrl).toBe('https://cdn.example.org/widget')
+    expect(tagged.framePath).toEqual([0, 4, 9])
+  })
+})
+
+describe('createScanProgress', () => {
+  it('should round the percentage', () => {
+    expect(createScanProgress(1, 3)).toEqual({ processed: 1, total: 3, percent: 33 })
+  })
+
+  it('should treat an empty page as complete', () => {
+    expect(createScanProgress(0, 0).percent).toBe(100)
+  })
+})
+
+describe('combineScanProgress', () => {
+  it('should sum the progress of every frame', () => {
+    const combined = combineScanProgress([createScanProgress(500, 1000), createScanProgress(0, 1000)])
+    expect(combined).toEqual({ processed: 500, total: 2000, percent: 25 })
+  })
+})
+
+describe('parseSelectorLines', () => {
+  it('should read one selector per line', () => {
+    expect(parseSelectorLines('.cookie-banner\n  [data-wcag-ignore]  \n\n')).toEqual(['.cookie-banner', '[data-wcag-ignore]'])
+  })
+
+  it('should keep selector lists together and drop duplicates', () => {
+    expect(parseSelectorLines('.ad, .promo\n.ad, .promo')).toEqual(['.ad, .promo'])
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { findOutlineEffect, isHaloShadow } from '../text-effects'
+
+const black = { r: 0, g: 0, b: 0 }
+const red = { r: 255, g: 0, b: 0 }
+const noStroke = { width: 0, color: null }
+
+const shadow = (offsetX: number, offsetY: number, blur: number, color = black) => ({
+  color,
+  offsetX,
+  offsetY,
+  blur,
+  spread: 0,
+  inset: false,
+})
+
+describe('isHaloShadow', () => {
+  it('should accept a blurred shadow centred on the glyphs', () => {
+    expect(isHaloShadow(shadow(0, 0, 4), 16)).toBe(true)
+    expect(isHaloShadow(shadow(1, 1, 3), 16)).toBe(true)
+  })
+
+  it('should reject offset drop shadows', () => {
+    expect(isHaloShadow(shadow(3, 3, 4), 16)).toBe(false)
+  })
+
+  it('should reject hard or widely blurred shadows', () => {
+    expect(isHaloShadow(shadow(0, 0, 0), 16)).toBe(false)
+    expect(isHaloShadow(shadow(0, 0, 12), 16)).toBe(false)
+  })
+
+  it('should scale the limits with the font size', () => {
+    expect(isHaloShadow(shadow(0, 0, 12), 32)).toBe(true)
+  })
+})
+
+describe('findOutlineEffect', () => {
+  it('should prefer a stroke over shadows', () => {
+    const effect = findOutlineEffect([shadow(0, 0, 4)], { width: 2, color: red }, 16)
+    expect(effect).toEqual({ source: 'text-stroke', color: red })
+  })
+
+  it('should ignore hairline strokes', () => {
+    expect(findOutlineEffect([], { width: 0.5, color: red }, 16)).toBeNull()
+  })
+
+  it('should use the first halo shadow', () => {
+    const effect = findOutlineEffect([shadow(4, 4, 0, red), shadow(0, 0, 3), shadow(0, 0, 3, red)], noStroke, 16)
+    expect(effect).toEqual({ source: 'text-shadow', color: black })
+  })
+
+  it('should accept hard shadows stacked in every direction', () => {
+    const stacked = [shadow(-1, -1, 0), shadow(1, -1, 0), shadow(-1, 1, 0), shadow(1, 1, 0)]
+    expect(findOutlineEffect(stacked, noStroke, 16)).toEqual({ source: 'text-shadow', color: black })
+  })
+
+  it('should not mix colors when checking stacked shadows', () => {
+    const mixed = [shadow(-1, -1, 0), shadow(1, 1, 0, red)]
+    expect(findOutlineEffect(mixed, noStroke, 16)).toBeNull()
+  })
+
+  it('should return null for a one-sided drop shadow', () => {
+    expect(findOutlineEffect([shadow(2, 2, 0)], noStroke, 16)).toBeNull()
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { getFindingKey, isFinding, diffFindings, applyWatchUpdate, isEmptyUpdate } from '../watch'
+import { makeResult } from './fixtures'
+
+describe('getFindingKey', () => {
+  it('should distinguish states and pseudo-elements of the same element', () => {
+    const base = makeResult({ selector: '#cta' })
+    const hover = makeResult({ selector: '#cta', state: 'hover' })
+    const before = makeResult({ selector: '#cta', pseudoElement: '::before' })
+
+    const keys = new Set([base, hover, before].map(getFindingKey))
+    expect(keys.size).toBe(3)
+  })
+
+  it('should ignore values that change between scans', () => {
+    expect(getFindingKey(makeResult({ ratio: 2 }))).toBe(getFindingKey(makeResult({ ratio: 3 })))
+  })
+})
+
+describe('isFinding', () => {
+  it('should include failures and warnings but not passes', () => {
+    expect(isFinding(makeResult({}))).toBe(true)
+    expect(isFinding(makeResult({ state: 'disabled', passes: true, ratio: 2.1, requiredRatio: 4.5 }))).toBe(true)
+    expect(isFinding(makeResult({ passes: true, ratio: 7, requiredRatio: 4.5 }))).toBe(false)
+  })
+})
+
+describe('diffFindings', () => {
+  it('should report new failures as added', () => {
+    const update = diffFindings([], [makeResult({ selector: '.modal p' })])
+    expect(update.added).toHaveLength(1)
+    expect(update.changed).toHaveLength(0)
+    expect(update.resolved).toHaveLength(0)
+  })
+
+  it('should not report passing results', () => {
+    const update = diffFindings([], [makeResult({ passes: true, ratio: 7 })])
+    expect(isEmptyUpdate(update)).toBe(true)
+  })
+
+  it('should report findings that disappeared or now pass as resolved', () => {
+    const gone = makeResult({ selector: '.toast' })
+    const fixed = makeResult({ selector: '.nav a' })
+    const update = diffFindings([gone, fixed], [makeResult({ selector: '.nav a', passes: true, ratio: 5 })])
+    expect(update.resolved).toEqual([getFindingKey(gone), getFindingKey(fixed)])
+  })
+
+  it('should report findings whose colors changed', () => {
+    const before = makeResult({})
+    const after = makeResult({ foreground: '#AAAAAA', ratio: 2.32 })
+    const update = diffFindings([before], [after])
+    expect(update.changed).toEqual([after])
+  })
+
+  it('should leave unchanged findings out of the update', () => {
+    expect(isEmptyUpdate(diffFindings([makeResult({})], [makeResult({})]))).toBe(true)
+  })
+})
+
+describe('applyWatchUpdate', () => {
+  it('should remove, replace and append findings in order', () => {
+    const a = makeResult({ selector: '.a' })
+    const b = makeResult({ selector: '.b' })
+    const c = makeResult({ selector: '.c' })
+    const bChanged = makeResult({ selector: '.b', ratio: 1.5 })
+    const d = makeResult({ selector: '.d' })
+
+    const results = applyWatchUpdate([a, b, c], {
+      added: [d],
+      changed: [bChanged],
+      resolved: [getFindingKey(a)],
+    })
+
+    expect(results).toEqual([bChanged, c, d])
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Page Annotations
+ * Turns scan results into one badge per element for the in-page annotation
+ * layer, so states and pseudo-elements of the same element share a badge
+ */
+
+import { ScanResult, ScanStatus, getScanStatus } from './scanner'
+
+export type AnnotationFilter = Record<ScanStatus, boolean>
+
+// Passing badges would cover most of the page, so they start hidden
+export const DEFAULT_ANNOTATION_FILTER: AnnotationFilter = { fail: true, warning: true, pass: false }
+
+export const ANNOTATION_STATUS_LABELS: Record<ScanStatus, string> = {
+  fail: 'Fail',
+  warning: 'Warning',
+  pass: 'Pass',
+}
+
+export interface AnnotationTarget {
+  selector: string
+  result: ScanResult // the worst result, shown on the badge
+  results: ScanResult[] // every result for the element, worst first
+  status: ScanStatus
+}
+
+const STATUS_RANK: Record<ScanStatus, number> = { fail: 0, warning: 1, pass: 2 }
+
+function compareResults(a: ScanResult, b: ScanResult): number {
+  const byStatus = STATUS_RANK[getScanStatus(a)] - STATUS_RANK[getScanStatus(b)]
+  if (byStatus !== 0) return byStatus
+  // How far below (or above) its own threshold each result is
+  return a.ratio / a.requiredRatio - b.ratio / b.requiredRatio
+}
+
+/**
+ * Group results by element, worst result first
+ * Results from other frames are dropped: their elements are not in this document.
+ */
+export function getAnnotationTargets(results: ScanResult[]): AnnotationTarget[] {
+  const bySelector = new Map<string, ScanResult[]>()
+  results
+    .filter((result) => !result.frameId)
+    .forEach((result) => {
+      const members = bySelector.get(result.selector) ?? []
+      members.push(result)
+      bySelector.set(result.selector, members)
+    })
+
+  return Array.from(bySelector, ([selector, members]) => {
+    const sorted = [...members].sort(compareResults)
+    return { selector, result: sorted[0], results: sorted, status: getScanStatus(sorted[0]) }
+  })
+}
+
+/**
+ * Count targets per status, for the filter toggles
+ */
+export function countAnnotationTargets(targets: AnnotationTarget[]): Record<ScanStatus, number> {
+  const counts: Record<ScanStatus, number> = { fail: 0, warning: 0, pass: 0 }
+  targets.forEach((target) => counts[target.status]++)
+  return counts
+}
+
+/**
+ * Short badge text, e.g. `2.8:1 ✗`
+ */
+export function formatBadgeLabel(target: AnnotationTarget): string {
+  const mark = target.status === 'fail' ? '✗' : target.status === 'warning' ? '!' : '✓'
+  const extra = target.results.length > 1 ? ` +${target.results.length - 1}` : ''
+  return `${target.result.ratio.toFixed(1)}:1 ${mark}${extra}`
+}
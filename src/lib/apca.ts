@@ -0,0 +1,186 @@
+/**
+ * APCA Contrast Engine (WCAG 3 draft)
+ * Implements the APCA-W3 0.0.98G-4g lightness contrast (Lc) calculation
+ * and the matching font size/weight lookup table
+ */
+
+import { RGB } from './color-utils'
+
+export type ApcaPolarity = 'dark-on-light' | 'light-on-dark'
+
+export interface ApcaFontRequirement {
+  weight: number // CSS font-weight 100-900
+  minFontSize: number | null // px, null when no size is usable for text
+}
+
+export interface ApcaResult {
+  lc: number // signed Lc, positive for dark-on-light, negative for light-on-dark
+  lcString: string
+  polarity: ApcaPolarity
+  fontLookup: ApcaFontRequirement[]
+}
+
+/**
+ * APCA-W3 0.0.98G-4g constants
+ */
+const APCA_CONSTANTS = {
+  mainTRC: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.072175,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scaleBoW: 1.14,
+  scaleWoB: 1.14,
+  loBoWoffset: 0.027,
+  loWoBoffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1,
+} as const
+
+/**
+ * Font weights covered by the lookup table, in column order
+ */
+export const APCA_FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const
+
+/**
+ * APCA font lookup table (apca-w3 fontLookupAPCA, 0.1.9 "G")
+ * Each row: [Lc, ...minimum font size in px for weights 100-900]
+ *
+ * 999 = prohibited for any text
+ * 777 = non-text elements only (spot readability, icons, dividers)
+ */
+const APCA_FONT_MATRIX: ReadonlyArray<readonly number[]> = [
+  [0, 999, 999, 999, 999, 999, 999, 999, 999, 999],
+  [10, 999, 999, 999, 999, 999, 999, 999, 999, 999],
+  [15, 777, 777, 777, 777, 777, 777, 777, 777, 777],
+  [20, 777, 777, 777, 777, 777, 777, 777, 777, 777],
+  [25, 777, 777, 777, 120, 120, 108, 96, 96, 96],
+  [30, 777, 777, 120, 108, 108, 96, 72, 72, 72],
+  [35, 777, 120, 108, 96, 72, 60, 48, 48, 48],
+  [40, 120, 108, 96, 60, 48, 42, 32, 32, 32],
+  [45, 108, 96, 72, 42, 32, 28, 24, 24, 24],
+  [50, 96, 72, 60, 32, 28, 24, 21, 21, 21],
+  [55, 80, 60, 48, 28, 24, 21, 18, 18, 18],
+  [60, 72, 48, 42, 24, 21, 18, 16, 16, 18],
+  [65, 68, 46, 32, 21.75, 19, 17, 15, 16, 18],
+  [70, 64, 44, 28, 19.5, 18, 16, 14.5, 16, 18],
+  [75, 60, 42, 24, 18, 16, 15, 14, 16, 18],
+  [80, 56, 38.25, 23, 17.25, 15.81, 14.81, 14, 16, 18],
+  [85, 52, 34.5, 22, 16.5, 15.625, 14.625, 14, 16, 18],
+  [90, 48, 32, 21, 16, 15.5, 14.5, 14, 16, 18],
+  [95, 45, 28, 19.5, 15.5, 15, 14, 13.5, 16, 18],
+  [100, 42, 26.5, 18.5, 15, 14.5, 13.5, 13, 16, 18],
+  [105, 39, 25, 18, 14, 14, 13, 12, 16, 18],
+]
+
+const PROHIBITED = 999
+const NON_TEXT_ONLY = 777
+
+/**
+ * Convert sRGB to APCA screen luminance (Y)
+ * APCA uses a simple 2.4 power curve instead of the piecewise sRGB transfer
+ */
+export function getApcaLuminance(rgb: RGB): number {
+  const { mainTRC, sRco, sGco, sBco } = APCA_CONSTANTS
+  const toY = (c: number) => Math.pow(c / 255, mainTRC)
+  return sRco * toY(rgb.r) + sGco * toY(rgb.g) + sBco * toY(rgb.b)
+}
+
+/**
+ * Soft clamp near-black luminance (flare / black level compensation)
+ */
+function clampBlackLevel(y: number): number {
+  const { blkThrs, blkClmp } = APCA_CONSTANTS
+  return y > blkThrs ? y : y + Math.pow(blkThrs - y, blkClmp)
+}
+
+/**
+ * Calculate the APCA lightness contrast (Lc) of text on a background
+ * Unlike the WCAG 2 ratio, Lc is order-dependent: positive for dark text
+ * on a light background, negative for light text on a dark background
+ */
+export function calculateApcaContrast(text: RGB, background: RGB): number {
+  const c = APCA_CONSTANTS
+  const yText = clampBlackLevel(getApcaLuminance(text))
+  const yBg = clampBlackLevel(getApcaLuminance(background))
+
+  if (Math.abs(yBg - yText) < c.deltaYmin) return 0
+
+  let output: number
+  if (yBg > yText) {
+    // Normal polarity: dark text on light background
+    const sapc = (Math.pow(yBg, c.normBG) - Math.pow(yText, c.normTXT)) * c.scaleBoW
+    output = sapc < c.loClip ? 0 : sapc - c.loBoWoffset
+  } else {
+    // Reverse polarity: light text on dark background
+    const sapc = (Math.pow(yBg, c.revBG) - Math.pow(yText, c.revTXT)) * c.scaleWoB
+    output = sapc > -c.loClip ? 0 : sapc + c.loWoBoffset
+  }
+
+  return output * 100
+}
+
+/**
+ * Format an Lc value for display
+ */
+export function formatApcaContrast(lc: number): string {
+  return `Lc ${lc.toFixed(1)}`
+}
+
+/**
+ * Get the minimum font size (px) per weight for an Lc value
+ * Uses the row at or below |Lc| so results are never more lenient than the table
+ */
+export function getApcaFontLookup(lc: number): ApcaFontRequirement[] {
+  const absLc = Math.abs(lc)
+  let row = APCA_FONT_MATRIX[0]
+  for (const candidate of APCA_FONT_MATRIX) {
+    if (candidate[0] <= absLc) row = candidate
+  }
+
+  return APCA_FONT_WEIGHTS.map((weight, i) => {
+    const size = row[i + 1]
+    return {
+      weight,
+      minFontSize: size === PROHIBITED || size === NON_TEXT_ONLY ? null : size,
+    }
+  })
+}
+
+/**
+ * Get the minimum font size (px) for a specific weight
+ * Weights between table columns round down to the nearest listed weight
+ */
+export function getApcaMinFontSize(lc: number, fontWeight: number): number | null {
+  const lookup = getApcaFontLookup(lc)
+  const clamped = Math.min(900, Math.max(100, fontWeight))
+  const index = Math.floor(clamped / 100) - 1
+  return lookup[index].minFontSize
+}
+
+/**
+ * Check whether text of a given size and weight meets the APCA lookup table
+ */
+export function passesApca(lc: number, fontSizePx: number, fontWeight: number): boolean {
+  const minSize = getApcaMinFontSize(lc, fontWeight)
+  return minSize !== null && fontSizePx >= minSize
+}
+
+/**
+ * Get comprehensive APCA analysis
+ */
+export function analyzeApca(text: RGB, background: RGB): ApcaResult {
+  const lc = calculateApcaContrast(text, background)
+
+  return {
+    lc,
+    lcString: formatApcaContrast(lc),
+    polarity: getApcaLuminance(text) > getApcaLuminance(background) ? 'light-on-dark' : 'dark-on-light',
+    fontLookup: getApcaFontLookup(lc),
+  }
+}
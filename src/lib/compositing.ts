@@ -0,0 +1,118 @@
+/**
+ * Compositing - Flatten stacked background layers into the color actually painted
+ * Implements source-over alpha compositing plus the separable CSS blend modes
+ * (https://www.w3.org/TR/compositing-1/#blending)
+ */
+
+import { RGB } from './color-utils'
+
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+
+export interface ColorLayer {
+  rgb: RGB
+  alpha: number // 0-1, already multiplied by any opacity
+  blendMode: BlendMode
+}
+
+const SEPARABLE_BLEND_MODES: BlendMode[] = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten',
+  'color-dodge', 'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion',
+]
+
+/**
+ * Normalize a computed mix-blend-mode value
+ * Non-separable modes (hue, saturation, color, luminosity) fall back to normal
+ */
+export function parseBlendMode(value: string): BlendMode {
+  const mode = value.trim() as BlendMode
+  return SEPARABLE_BLEND_MODES.includes(mode) ? mode : 'normal'
+}
+
+/**
+ * Blend a single channel (0-1) of the source layer onto the backdrop
+ */
+export function blendChannel(mode: BlendMode, backdrop: number, source: number): number {
+  switch (mode) {
+    case 'multiply':
+      return backdrop * source
+    case 'screen':
+      return backdrop + source - backdrop * source
+    case 'overlay':
+      return blendChannel('hard-light', source, backdrop)
+    case 'darken':
+      return Math.min(backdrop, source)
+    case 'lighten':
+      return Math.max(backdrop, source)
+    case 'color-dodge':
+      if (backdrop === 0) return 0
+      if (source === 1) return 1
+      return Math.min(1, backdrop / (1 - source))
+    case 'color-burn':
+      if (backdrop === 1) return 1
+      if (source === 0) return 0
+      return 1 - Math.min(1, (1 - backdrop) / source)
+    case 'hard-light':
+      return source <= 0.5
+        ? blendChannel('multiply', backdrop, 2 * source)
+        : blendChannel('screen', backdrop, 2 * source - 1)
+    case 'soft-light': {
+      if (source <= 0.5) {
+        return backdrop - (1 - 2 * source) * backdrop * (1 - backdrop)
+      }
+      const d = backdrop <= 0.25
+        ? ((16 * backdrop - 12) * backdrop + 4) * backdrop
+        : Math.sqrt(backdrop)
+      return backdrop + (2 * source - 1) * (d - backdrop)
+    }
+    case 'difference':
+      return Math.abs(backdrop - source)
+    case 'exclusion':
+      return backdrop + source - 2 * backdrop * source
+    default:
+      return source
+  }
+}
+
+/**
+ * Paint one layer onto an opaque backdrop
+ */
+export function compositeLayer(layer: ColorLayer, backdrop: RGB): RGB {
+  const channel = (key: keyof RGB) => {
+    const cb = backdrop[key] / 255
+    const cs = layer.rgb[key] / 255
+    const blended = blendChannel(layer.blendMode, cb, cs)
+    return Math.round((layer.alpha * blended + (1 - layer.alpha) * cb) * 255)
+  }
+
+  return { r: channel('r'), g: channel('g'), b: channel('b') }
+}
+
+/**
+ * Flatten layers ordered top-most first onto a base color (white by default)
+ */
+export function compositeLayers(layers: ColorLayer[], base: RGB = { r: 255, g: 255, b: 255 }): RGB {
+  let result = base
+  for (let i = layers.length - 1; i >= 0; i--) {
+    result = compositeLayer(layers[i], result)
+  }
+  return result
+}
+
+/**
+ * Whether a layer hides everything painted beneath it
+ */
+export function isOpaqueLayer(layer: ColorLayer): boolean {
+  return layer.alpha >= 0.99 && layer.blendMode === 'normal'
+}
@@ -4,6 +4,14 @@
  */
 
 import { RGB, getRelativeLuminance, rgbToHex } from './color-utils'
+import { ApcaResult, analyzeApca } from './apca'
+
+/**
+ * Which contrast metric(s) to display
+ * - wcag2: WCAG 2.x contrast ratio
+ * - apca: APCA lightness contrast (WCAG 3 draft)
+ */
+export type ContrastMetric = 'wcag2' | 'apca' | 'both'
 
 export interface ContrastResult {
   ratio: number
@@ -20,6 +28,7 @@ export interface ContrastResult {
   score: 'fail' | 'aa-large' | 'aa' | 'aaa'
   foreground: string
   background: string
+  apca: ApcaResult
 }
 
 /**
@@ -65,6 +74,7 @@ export function formatContrastRatio(ratio: number): string {
 
 /**
  * Get comprehensive contrast analysis
+ * Includes the APCA Lc value alongside the WCAG 2 ratio
  */
 export function analyzeContrast(foreground: RGB, background: RGB): ContrastResult {
   const ratio = calculateContrastRatio(foreground, background)
@@ -98,6 +108,7 @@ export function analyzeContrast(foreground: RGB, background: RGB): ContrastResul
     score,
     foreground: rgbToHex(foreground),
     background: rgbToHex(background),
+    apca: analyzeApca(foreground, background),
   }
 }
 
@@ -0,0 +1,163 @@
+/**
+ * CSS Patch Generator
+ * Turns failing scan results into override rules with the nearest compliant
+ * color, targeting the design token or declaring rule when one was traced
+ */
+
+import { RGB, parseColor, rgbToHex } from './color-utils'
+import { calculateContrastRatio } from './contrast'
+import { getSuggestions } from './suggestions'
+import { INTERACTIVE_STATE_LABELS } from './interactive-states'
+import { ScanResult } from './scanner'
+
+export interface CssPatchRule {
+  selector: string
+  property: string // `color`, or the custom property to redefine
+  from: string
+  to: string
+  fromRatio: number // of the lowest-contrast occurrence
+  toRatio: number
+  requiredRatio: number
+  occurrences: number
+  resolved: boolean // false when no single color passes on every background
+  note?: string
+}
+
+interface PatchTarget {
+  selector: string
+  property: string
+  note?: string
+}
+
+/**
+ * Where a fix for one result belongs
+ * Tokens beat rules, rules beat the element's own selector; selectors that
+ * pierce shadow roots cannot be written in a page stylesheet.
+ */
+function getPatchTarget(result: ScanResult): PatchTarget | null {
+  const token = result.tokens?.foreground
+  // A token defined on an unnamed or shadow element falls back to the rule below
+  const tokenReachable = token && token.definedOn !== '' && !token.definedOn.includes('>>>')
+  if (token && tokenReachable && !result.state && !result.pseudoElement) {
+    return {
+      selector: token.definedOn,
+      property: token.name,
+      note: `changes every use of ${token.name}`,
+    }
+  }
+
+  const source = result.colorSource
+  const base = source && source.selector !== 'style attribute' && !result.state && !result.pseudoElement
+    ? source.selector
+    : result.selector
+  if (base.includes('>>>')) return null
+
+  const suffix = getSelectorSuffix(result)
+  return { selector: suffix ? `${base}${suffix}` : base, property: 'color' }
+}
+
+/**
+ * The state pseudo-class and pseudo-element a result was measured in, e.g. `:hover`
+ */
+export function getSelectorSuffix(result: ScanResult): string {
+  return (result.state ? INTERACTIVE_STATE_LABELS[result.state] : '') + (result.pseudoElement ?? '')
+}
+
+// getSuggestions takes a level and text size; map a required ratio onto them
+function getTargetParams(requiredRatio: number): ['AA' | 'AAA', 'normal' | 'large'] {
+  if (requiredRatio >= 7) return ['AAA', 'normal']
+  if (requiredRatio >= 4.5) return ['AA', 'normal']
+  return ['AA', 'large']
+}
+
+/**
+ * Nudge a text color until it meets the ratio on every background
+ * Backgrounds are tried in order, so pass the lowest-contrast one first.
+ */
+export function findPassingColor(color: RGB, backgrounds: RGB[], requiredRatio: number): RGB {
+  const [level, size] = getTargetParams(requiredRatio)
+  let current = color
+  backgrounds.forEach((background) => {
+    if (calculateContrastRatio(current, background) >= requiredRatio) return
+    const best = getSuggestions(current, background, level, size).bestForeground
+    if (best) current = best.color
+  })
+  return current
+}
+
+/**
+ * Build one override per target for every failing text result
+ * The color has to pass against every background the rule applies to.
+ */
+export function buildCssPatch(results: ScanResult[]): CssPatchRule[] {
+  const groups = new Map<string, { target: PatchTarget; members: ScanResult[] }>()
+
+  results
+    .filter((result) => result.category === 'text' && !result.passes)
+    .forEach((result) => {
+      const target = getPatchTarget(result)
+      if (!target) return
+      const key = `${target.selector}|${target.property}`
+      const group = groups.get(key)
+      if (group) group.members.push(result)
+      else groups.set(key, { target, members: [result] })
+    })
+
+  const rules: CssPatchRule[] = []
+
+  groups.forEach(({ target, members }) => {
+    const sorted = [...members].sort((a, b) => a.ratio - b.ratio)
+    const worst = sorted[0]
+    const original = parseColor(worst.foreground)
+    if (!original) return
+
+    const requiredRatio = Math.max(...members.map((result) => result.requiredRatio))
+    const backgrounds = sorted
+      .map((result) => parseColor(result.background))
+      .filter((color): color is RGB => color !== null)
+
+    const color = findPassingColor(original, backgrounds, requiredRatio)
+    const toRatio = Math.min(...backgrounds.map((background) => calculateContrastRatio(color, background)))
+
+    rules.push({
+      selector: target.selector,
+      property: target.property,
+      from: worst.foreground,
+      to: rgbToHex(color),
+      fromRatio: worst.ratio,
+      toRatio,
+      requiredRatio,
+      occurrences: members.length,
+      resolved: toRatio >= requiredRatio,
+      note: target.note,
+    })
+  })
+
+  return rules.sort((a, b) => b.occurrences - a.occurrences)
+}
+
+/**
+ * Format patch rules as a stylesheet, one commented rule per fix
+ */
+export function formatCssPatch(rules: CssPatchRule[], pageUrl?: string): string {
+  const header = [
+    '/* TheWCAG suggested contrast fixes',
+    ...(pageUrl ? [` * Page: ${pageUrl}`] : []),
+    ` * Generated: ${new Date().toISOString().split('T')[0]}`,
+    ' * Each color is the nearest lightness that meets the required ratio. Review before shipping.',
+    ' */',
+  ].join('\n')
+
+  const blocks = rules.map((rule) => {
+    const comment = [
+      `${rule.fromRatio.toFixed(2)}:1 → ${rule.toRatio.toFixed(2)}:1 (needs ${rule.requiredRatio}:1)`,
+      `${rule.from} → ${rule.to}`,
+      `${rule.occurrences} ${rule.occurrences === 1 ? 'occurrence' : 'occurrences'}`,
+      ...(rule.note ? [rule.note] : []),
+      ...(rule.resolved ? [] : ['still fails on some backgrounds; change the background instead']),
+    ].join(' · ')
+    return `/* ${comment} */\n${rule.selector} {\n  ${rule.property}: ${rule.to};\n}`
+  })
+
+  return [header, ...blocks].join('\n\n') + '\n'
+}
@@ -0,0 +1,78 @@
+/**
+ * Custom Property Tracing
+ * Follows `var(--token, fallback)` references back to the design token that
+ * produced a color, through aliases and fallback chains
+ */
+
+import { ScanResult } from './scanner'
+
+export interface VarReference {
+  name: string
+  fallback?: string
+}
+
+// Guards against cycles and absurdly deep alias chains
+const MAX_CHAIN_LENGTH = 16
+
+/**
+ * Parse the first var() in a value, keeping nested fallbacks intact
+ * `var(--a, var(--b, #fff))` gives `{ name: '--a', fallback: 'var(--b, #fff)' }`
+ */
+export function parseVarReference(value: string): VarReference | null {
+  const start = value.search(/var\(\s*--/)
+  if (start === -1) return null
+
+  let depth = 0
+  let end = -1
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === '(') depth++
+    if (value[i] === ')' && --depth === 0) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) return null
+
+  const inner = value.slice(value.indexOf('(', start) + 1, end)
+  const comma = inner.indexOf(',')
+  const name = (comma === -1 ? inner : inner.slice(0, comma)).trim()
+  const fallback = comma === -1 ? undefined : inner.slice(comma + 1).trim()
+
+  return fallback ? { name, fallback } : { name }
+}
+
+/**
+ * Follow a declared value through the tokens it reads
+ * `lookup` returns the declared value of a custom property, or null when it is
+ * not defined (so the var() fallback applies). Returns the tokens in the order
+ * they were resolved, e.g. ['--text-muted', '--gray-400'].
+ */
+export function traceVarChain(value: string, lookup: (name: string) => string | null): string[] {
+  const chain: string[] = []
+  let reference = parseVarReference(value)
+
+  while (reference && chain.length < MAX_CHAIN_LENGTH && !chain.includes(reference.name)) {
+    const declared = lookup(reference.name)
+    if (declared === null) {
+      // Undefined token: the fallback is what renders
+      reference = reference.fallback ? parseVarReference(reference.fallback) : null
+      continue
+    }
+    chain.push(reference.name)
+    reference = parseVarReference(declared)
+  }
+
+  return chain
+}
+
+/**
+ * Describe a result by its tokens, e.g. `--text-muted (#9CA3AF) on --surface-2 (#F3F4F6) fails 4.5:1`
+ */
+export function describeTokenPair(result: ScanResult): string | null {
+  const { foreground, background } = result.tokens ?? {}
+  if (!foreground && !background) return null
+
+  const side = (token: string | undefined, hex: string) => (token ? `${token} (${hex})` : hex)
+  return `${side(foreground?.name, result.foreground)} on ${side(background?.name, result.background)} ` +
+    `${result.passes ? 'passes' : 'fails'} ${result.requiredRatio}:1`
+}
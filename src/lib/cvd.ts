@@ -0,0 +1,109 @@
+/**
+ * Color Vision Deficiency Simulation
+ * Approximates how colors appear with color vision deficiencies, using the
+ * Machado et al. (2009) dichromat matrices applied in linear RGB. Partial
+ * forms (protanomaly, deuteranomaly, tritanomaly, achromatomaly) blend from
+ * normal vision toward the full deficiency by severity.
+ */
+
+import { RGB } from './color-utils'
+
+export type CvdType = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia'
+
+export interface CvdSimulation {
+  type: CvdType
+  severity: number // 0-1; below 1 simulates the "-anomaly" form
+}
+
+export const CVD_TYPES: CvdType[] = ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia']
+
+export const CVD_LABELS: Record<CvdType, { full: string; partial: string; description: string }> = {
+  protanopia: { full: 'Protanopia', partial: 'Protanomaly', description: 'Red-blind' },
+  deuteranopia: { full: 'Deuteranopia', partial: 'Deuteranomaly', description: 'Green-blind' },
+  tritanopia: { full: 'Tritanopia', partial: 'Tritanomaly', description: 'Blue-blind' },
+  achromatopsia: { full: 'Achromatopsia', partial: 'Achromatomaly', description: 'No color' },
+}
+
+// Row-major 3×3 matrices for full severity, in linear RGB
+const DICHROMAT_MATRICES: Record<CvdType, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.01182, 0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.3039,
+  ],
+  // Every channel becomes the relative luminance
+  achromatopsia: [
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+  ],
+}
+
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+
+function toLinear(c: number): number {
+  const v = c / 255
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+}
+
+function toSrgb(c: number): number {
+  const v = Math.max(0, Math.min(1, c))
+  const s = v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055
+  return Math.round(s * 255)
+}
+
+/**
+ * Label for a simulation, e.g. "Deuteranopia" or "Protanomaly (60%)"
+ */
+export function getCvdLabel({ type, severity }: CvdSimulation): string {
+  const labels = CVD_LABELS[type]
+  return severity >= 1 ? labels.full : `${labels.partial} (${Math.round(severity * 100)}%)`
+}
+
+/**
+ * Row-major 3×3 linear RGB matrix for a simulation
+ */
+export function getCvdMatrix({ type, severity }: CvdSimulation): number[] {
+  const s = Math.max(0, Math.min(1, severity))
+  return DICHROMAT_MATRICES[type].map((value, i) => IDENTITY[i] * (1 - s) + value * s)
+}
+
+/**
+ * Simulate how a color appears with the given deficiency
+ */
+export function simulateCvd(rgb: RGB, simulation: CvdSimulation): RGB {
+  const m = getCvdMatrix(simulation)
+  const r = toLinear(rgb.r)
+  const g = toLinear(rgb.g)
+  const b = toLinear(rgb.b)
+
+  return {
+    r: toSrgb(m[0] * r + m[1] * g + m[2] * b),
+    g: toSrgb(m[3] * r + m[4] * g + m[5] * b),
+    b: toSrgb(m[6] * r + m[7] * g + m[8] * b),
+  }
+}
+
+/**
+ * `values` for an SVG feColorMatrix (4×5, alpha untouched)
+ * The filter must use color-interpolation-filters="linearRGB", the SVG default.
+ */
+export function getSvgColorMatrix(simulation: CvdSimulation): string {
+  const m = getCvdMatrix(simulation).map((value) => Number(value.toFixed(6)))
+  return [
+    m[0], m[1], m[2], 0, 0,
+    m[3], m[4], m[5], 0, 0,
+    m[6], m[7], m[8], 0, 0,
+    0, 0, 0, 1, 0,
+  ].join(' ')
+}
@@ -0,0 +1,186 @@
+/**
+ * Focus Indicator Analysis (WCAG 2.4.7 Focus Visible / 2.4.13 Focus Appearance)
+ * Compares an element's unfocused and focused styles and measures the
+ * contrast and area of whatever changed
+ */
+
+import { RGB } from './color-utils'
+import { calculateContrastRatio, WCAG_THRESHOLDS } from './contrast'
+
+export interface ShadowLayer {
+  color: RGB
+  offsetX: number
+  offsetY: number
+  blur: number
+  spread: number
+  inset: boolean
+}
+
+/**
+ * Parsed focus-relevant styles of an element in one state
+ * Colors are already resolved to opaque RGB by the caller
+ */
+export interface FocusStyleSnapshot {
+  outlineWidth: number // 0 when outline-style is none
+  outlineColor: RGB | null
+  outlineOffset: number
+  borderWidth: number // widest side
+  borderColor: RGB | null
+  boxShadow: ShadowLayer[]
+  background: RGB
+}
+
+export type FocusChangeProperty = 'outline' | 'box-shadow' | 'border' | 'background'
+
+export interface FocusChange {
+  property: FocusChangeProperty
+  color: RGB // color in the focused state
+  previous: RGB // color of the same pixels when unfocused
+  ratio: number
+  areaPx: number
+}
+
+export interface FocusIndicatorDetails {
+  changedProperties: FocusChangeProperty[]
+  indicatorColor: RGB | null
+  previousColor: RGB | null
+  ratio: number // contrast between focused and unfocused pixels (1 if nothing changed)
+  areaPx: number
+  requiredAreaPx: number // 2 CSS px thick perimeter of the unfocused component
+  visible: boolean // 2.4.7
+  meetsEnhanced: boolean // 2.4.13: 3:1 change contrast over the minimum area
+}
+
+const sameColor = (a: RGB | null, b: RGB | null) =>
+  !!a && !!b && a.r === b.r && a.g === b.g && a.b === b.b
+
+/**
+ * Area of a band of `thickness` drawn around (or inside, when negative offset) a box
+ */
+function ringArea(width: number, height: number, offset: number, thickness: number): number {
+  const inner = Math.max(0, width + 2 * offset) * Math.max(0, height + 2 * offset)
+  const outer = Math.max(0, width + 2 * (offset + thickness)) * Math.max(0, height + 2 * (offset + thickness))
+  return Math.max(0, outer - inner)
+}
+
+/**
+ * Parse a computed box-shadow value
+ * Computed values always list the color first: `rgb(0, 0, 255) 0px 0px 0px 3px inset`
+ */
+export function parseBoxShadow(value: string, parseColor: (color: string) => RGB | null): ShadowLayer[] {
+  if (!value || value === 'none') return []
+
+  // Split on commas that are not inside a color function
+  const layers = value.split(/,(?![^(]*\))/)
+  const result: ShadowLayer[] = []
+
+  for (const layer of layers) {
+    const colorMatch = layer.match(/(?:rgba?|hsla?|oklch|oklab|color)\([^)]*\)|#[0-9a-f]{3,8}\b/i)
+    const color = colorMatch ? parseColor(colorMatch[0]) : null
+    if (!color) continue
+
+    const rest = colorMatch ? layer.replace(colorMatch[0], '') : layer
+    const lengths = (rest.match(/-?[\d.]+px/g) || []).map((n) => parseFloat(n))
+
+    result.push({
+      color,
+      offsetX: lengths[0] ?? 0,
+      offsetY: lengths[1] ?? 0,
+      blur: lengths[2] ?? 0,
+      spread: lengths[3] ?? 0,
+      inset: /\binset\b/.test(rest),
+    })
+  }
+
+  return result
+}
+
+/**
+ * Find every visible style change between the unfocused and focused states
+ */
+export function getFocusChanges(
+  unfocused: FocusStyleSnapshot,
+  focused: FocusStyleSnapshot,
+  box: { width: number; height: number },
+  adjacent: RGB
+): FocusChange[] {
+  const changes: FocusChange[] = []
+  const add = (property: FocusChangeProperty, color: RGB, previous: RGB, areaPx: number) => {
+    if (areaPx <= 0 || sameColor(color, previous)) return
+    changes.push({ property, color, previous, ratio: calculateContrastRatio(color, previous), areaPx })
+  }
+
+  // Outline drawn outside the border box (offset may pull it inside)
+  if (focused.outlineWidth > 0 && focused.outlineColor) {
+    const changed =
+      focused.outlineWidth !== unfocused.outlineWidth ||
+      !sameColor(focused.outlineColor, unfocused.outlineColor)
+    if (changed) {
+      const previous = unfocused.outlineWidth > 0 && unfocused.outlineColor ? unfocused.outlineColor : adjacent
+      add('outline', focused.outlineColor, previous, ringArea(box.width, box.height, focused.outlineOffset, focused.outlineWidth))
+    }
+  }
+
+  // New box-shadow rings; blur is only half solid, so count half of it
+  focused.boxShadow
+    .filter((shadow) => !unfocused.boxShadow.some((before) =>
+      sameColor(before.color, shadow.color) && before.spread === shadow.spread && before.inset === shadow.inset))
+    .forEach((shadow) => {
+      const thickness = shadow.spread + shadow.blur / 2
+      if (shadow.inset) {
+        add('box-shadow', shadow.color, unfocused.background, ringArea(box.width, box.height, -thickness, thickness))
+      } else {
+        add('box-shadow', shadow.color, adjacent, ringArea(box.width, box.height, 0, thickness))
+      }
+    })
+
+  // Border color or width change
+  if (focused.borderWidth > 0 && focused.borderColor) {
+    const changed =
+      focused.borderWidth !== unfocused.borderWidth ||
+      !sameColor(focused.borderColor, unfocused.borderColor)
+    if (changed) {
+      const previous = unfocused.borderWidth > 0 && unfocused.borderColor ? unfocused.borderColor : unfocused.background
+      add('border', focused.borderColor, previous, ringArea(box.width, box.height, -focused.borderWidth, focused.borderWidth))
+    }
+  }
+
+  // Background change fills the whole component
+  if (!sameColor(focused.background, unfocused.background)) {
+    add('background', focused.background, unfocused.background, box.width * box.height)
+  }
+
+  return changes
+}
+
+/**
+ * Summarize the focus indicator of a component
+ * The strongest change wins, preferring one that meets 2.4.13 on its own
+ */
+export function analyzeFocusIndicator(
+  unfocused: FocusStyleSnapshot,
+  focused: FocusStyleSnapshot,
+  box: { width: number; height: number },
+  adjacent: RGB
+): FocusIndicatorDetails {
+  const changes = getFocusChanges(unfocused, focused, box, adjacent)
+  const requiredAreaPx = ringArea(box.width, box.height, -1, 2)
+  const meets = (change: FocusChange) =>
+    change.ratio >= WCAG_THRESHOLDS.AA_UI && change.areaPx >= requiredAreaPx
+
+  const best = [...changes].sort((a, b) => {
+    if (meets(a) !== meets(b)) return meets(a) ? -1 : 1
+    return b.ratio - a.ratio
+  })[0]
+
+  return {
+    changedProperties: changes.map((change) => change.property),
+    indicatorColor: best?.color ?? null,
+    previousColor: best?.previous ?? null,
+    ratio: best?.ratio ?? 1,
+    areaPx: Math.round(best?.areaPx ?? 0),
+    requiredAreaPx: Math.round(requiredAreaPx),
+    visible: changes.length > 0,
+    meetsEnhanced: !!best && meets(best),
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Result Grouping
+ * Collapses findings that share one fix (a color pair, a CSS rule or a custom
+ * property) into a single line item with an occurrence count
+ */
+
+import { ScanResult, getScanStatus } from './scanner'
+
+export type GroupBy = 'none' | 'pair' | 'rule' | 'property'
+
+export const GROUP_BY_LABELS: Record<GroupBy, string> = {
+  none: 'No grouping',
+  pair: 'Color pair',
+  rule: 'CSS rule',
+  property: 'Custom property',
+}
+
+export interface ResultGroup {
+  key: string
+  label: string
+  detail?: string
+  foreground: string // of the lowest-contrast result
+  background: string
+  results: ScanResult[]
+  failCount: number
+  warningCount: number
+  worstRatio: number
+}
+
+// Results whose color could not be traced to a rule or custom property
+const UNTRACED_KEY = '(untraced)'
+
+/**
+ * Name of the first custom property a declared value reads, e.g. `--muted`
+ */
+export function getCustomPropertyName(value: string): string | null {
+  const match = value.match(/var\(\s*(--[\w-]+)/)
+  return match ? match[1] : null
+}
+
+function getGroupKey(result: ScanResult, by: Exclude<GroupBy, 'none'>): string {
+  switch (by) {
+    case 'pair':
+      return `${result.foreground.toUpperCase()}|${result.background.toUpperCase()}`
+    case 'rule':
+      return result.colorSource
+        ? `${result.colorSource.stylesheet}|${result.colorSource.selector}`
+        : UNTRACED_KEY
+    case 'property':
+      return result.colorSource?.customProperty ?? UNTRACED_KEY
+  }
+}
+
+function describeGroup(key: string, sample: ScanResult, by: Exclude<GroupBy, 'none'>): { label: string; detail?: string } {
+  if (key === UNTRACED_KEY) {
+    return by === 'rule'
+      ? { label: 'No matching rule', detail: 'Browser default, inherited from the page root, or a cross-origin stylesheet' }
+      : { label: 'Not from a custom property' }
+  }
+  switch (by) {
+    case 'pair':
+      return { label: `${sample.foreground} on ${sample.background}` }
+    case 'rule':
+      return { label: sample.colorSource!.selector, detail: sample.colorSource!.stylesheet }
+    case 'property':
+      return { label: `var(${key})` }
+  }
+}
+
+/**
+ * Whether a grouping only covers findings
+ * The scanner traces rules and custom properties for findings alone, so
+ * passing results would all land in the untraced group
+ */
+export function isFindingsOnlyGrouping(by: GroupBy): boolean {
+  return by === 'rule' || by === 'property'
+}
+
+/**
+ * Group results, most failures first
+ * Untraced results are always listed last; passing results are left out of
+ * rule and custom property groups
+ */
+export function groupResults(results: ScanResult[], by: Exclude<GroupBy, 'none'>): ResultGroup[] {
+  const grouped = isFindingsOnlyGrouping(by)
+    ? results.filter((result) => getScanStatus(result) !== 'pass')
+    : results
+  const buckets = new Map<string, ScanResult[]>()
+  grouped.forEach((result) => {
+    const key = getGroupKey(result, by)
+    const bucket = buckets.get(key)
+    if (bucket) bucket.push(result)
+    else buckets.set(key, [result])
+  })
+
+  const groups = Array.from(buckets, ([key, members]): ResultGroup => {
+    const worst = members.reduce((lowest, result) => (result.ratio < lowest.ratio ? result : lowest))
+    return {
+      key,
+      ...describeGroup(key, members[0], by),
+      foreground: worst.foreground,
+      background: worst.background,
+      results: members,
+      failCount: members.filter((result) => getScanStatus(result) === 'fail').length,
+      warningCount: members.filter((result) => getScanStatus(result) === 'warning').length,
+      worstRatio: worst.ratio,
+    }
+  })
+
+  return groups.sort((a, b) =>
+    Number(a.key === UNTRACED_KEY) - Number(b.key === UNTRACED_KEY) ||
+    b.failCount - a.failCount ||
+    b.results.length - a.results.length
+  )
+}
@@ -0,0 +1,62 @@
+/**
+ * Contrast Heatmap
+ * Buckets scanned text by how far its ratio is from the target, for the
+ * canvas overlay that tints each text region on the page
+ */
+
+import { ScanResult } from './scanner'
+
+/**
+ * - far: well below the target ratio
+ * - close: within reach of the target (a small lightness change fixes it)
+ * - pass: meets the target
+ */
+export type HeatLevel = 'far' | 'close' | 'pass'
+
+// Ratios at or above this share of the target count as close
+export const HEATMAP_CLOSE_FRACTION = 0.8
+
+// Translucent fills, so the text under the tint stays readable
+export const HEAT_COLORS: Record<HeatLevel, string> = {
+  far: 'rgba(220, 38, 38, 0.45)',
+  close: 'rgba(217, 119, 6, 0.4)',
+  pass: 'rgba(5, 150, 105, 0.3)',
+}
+
+export const HEAT_LEVEL_LABELS: Record<HeatLevel, string> = {
+  far: 'Far below',
+  close: 'Close',
+  pass: 'Passing',
+}
+
+export interface HeatmapEntry {
+  selector: string
+  level: HeatLevel
+}
+
+export function getHeatLevel(ratio: number, requiredRatio: number): HeatLevel {
+  if (ratio >= requiredRatio) return 'pass'
+  if (ratio >= requiredRatio * HEATMAP_CLOSE_FRACTION) return 'close'
+  return 'far'
+}
+
+/**
+ * One entry per text element in this document, from its lowest-contrast text
+ * Interactive state results are left out: the tint shows the page at rest.
+ */
+export function getHeatmapEntries(results: ScanResult[]): HeatmapEntry[] {
+  const worst = new Map<string, ScanResult>()
+  results
+    .filter((result) => result.category === 'text' && !result.state && !result.frameId)
+    .forEach((result) => {
+      const current = worst.get(result.selector)
+      if (!current || result.ratio / result.requiredRatio < current.ratio / current.requiredRatio) {
+        worst.set(result.selector, result)
+      }
+    })
+
+  return Array.from(worst.values(), (result) => ({
+    selector: result.selector,
+    level: getHeatLevel(result.ratio, result.requiredRatio),
+  }))
+}
@@ -0,0 +1,100 @@
+/**
+ * Interactive State Selectors
+ * Helpers for finding the CSS rules that restyle an element when it is
+ * hovered, focused, pressed, visited or disabled
+ */
+
+export type InteractiveState = 'hover' | 'focus-visible' | 'active' | 'visited' | 'disabled'
+
+export const INTERACTIVE_STATES: InteractiveState[] = ['hover', 'focus-visible', 'active', 'visited', 'disabled']
+
+export const INTERACTIVE_STATE_LABELS: Record<InteractiveState, string> = {
+  hover: ':hover',
+  'focus-visible': ':focus-visible',
+  active: ':active',
+  visited: ':visited',
+  disabled: ':disabled',
+}
+
+// Specificity as [ids, classes/attributes/pseudo-classes, types/pseudo-elements]
+export type Specificity = [number, number, number]
+
+// :focus is folded into focus-visible, since the scanner cares about what keyboard users see
+const STATE_PSEUDO_PATTERN = /:(hover|focus-visible|focus(?![-\w])|active|visited|disabled)(?![-\w(])/g
+
+/**
+ * Split a selector list on top-level commas
+ */
+export function splitSelectorList(selectorText: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (const char of selectorText) {
+    if (char === '(' || char === '[') depth++
+    if (char === ')' || char === ']') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+
+  return parts
+}
+
+/**
+ * Find the interactive states a single selector depends on, and the selector
+ * that matches the same elements at rest (state pseudo-classes removed)
+ * `:disabled` stays in the base: it is not triggered by the user, so the rule
+ * only applies to elements that are disabled now. Returns null for selectors we cannot emulate: negated states, pseudo-elements,
+ * or states on the universal selector alone.
+ */
+export function extractStateSelector(selector: string): { states: InteractiveState[]; base: string } | null {
+  const states = new Set<InteractiveState>()
+  const base = selector.replace(STATE_PSEUDO_PATTERN, (match, state: string) => {
+    states.add(state === 'focus' ? 'focus-visible' : (state as InteractiveState))
+    return state === 'disabled' ? match : ''
+  })
+
+  if (states.size === 0) return null
+  if (selector.includes('::')) return null
+  if (/:(not|where|is|has)\([^)]*:(hover|focus|active|visited|disabled)/.test(selector)) return null
+
+  // A state on the universal selector (`:hover`, `.nav *:hover`) would restyle
+  // everything; too noisy to report
+  if (/(^|[\s>+~])\*?\s*$/.test(base)) return null
+
+  return { states: Array.from(states), base: base.trim() }
+}
+
+/**
+ * Approximate selector specificity
+ * :where() counts as zero; :is()/:not()/:has() count their arguments
+ */
+export function calculateSpecificity(selector: string): Specificity {
+  let rest = selector.replace(/:where\([^)]*\)/g, '')
+  rest = rest.replace(/:(is|not|has|matches)\(([^)]*)\)/g, ' $2 ')
+  // Attribute selectors may contain anything, count and drop them first
+  let classes = (rest.match(/\[[^\]]*\]/g) || []).length
+  rest = rest.replace(/\[[^\]]*\]/g, '')
+
+  const ids = (rest.match(/#[\w-]+/g) || []).length
+  const pseudoElements = (rest.match(/::[\w-]+/g) || []).length
+  rest = rest.replace(/::[\w-]+(\([^)]*\))?/g, '')
+  classes += (rest.match(/\.[\w-]+/g) || []).length
+  classes += (rest.match(/:[\w-]+(\([^)]*\))?/g) || []).length
+
+  const types = (rest.replace(/[#.:][\w-]+(\([^)]*\))?/g, ' ').match(/(^|[\s>+~])[a-zA-Z][\w-]*/g) || []).length
+
+  return [ids, classes, types + pseudoElements]
+}
+
+/**
+ * Compare specificities; positive when `a` wins
+ */
+export function compareSpecificity(a: Specificity, b: Specificity): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+}
@@ -0,0 +1,82 @@
+/**
+ * Link Distinguishability
+ * WCAG 1.4.1 Use of Color: a link inside a run of text that is told apart
+ * only by its color needs 3:1 contrast with the surrounding text, plus a
+ * non-color cue such as an underline on hover and focus (technique G183)
+ */
+
+import { ScanResult, parseFontWeight } from './scanner'
+
+export const LINK_TEXT_RATIO = 3
+
+/**
+ * The computed properties that can set a link apart without color
+ */
+export interface LinkCueStyle {
+  textDecorationLine: string
+  borderBottomStyle: string
+  borderBottomWidth: string
+  fontWeight: string
+  fontStyle: string
+  backgroundColor: string
+}
+
+export type LinkCue = 'underline' | 'border' | 'weight' | 'italic' | 'background'
+
+export const LINK_CUE_LABELS: Record<LinkCue, string> = {
+  underline: 'text decoration',
+  border: 'bottom border',
+  weight: 'font weight',
+  italic: 'font style',
+  background: 'background',
+}
+
+// Bold against regular text; a 100-200 step is too subtle to count
+const WEIGHT_CUE_DIFFERENCE = 300
+
+const TRANSPARENT_VALUES = new Set(['transparent', 'rgba(0, 0, 0, 0)'])
+
+/**
+ * The first cue other than color that sets a link apart from its surrounding text
+ * Returns null when color is the only difference.
+ */
+export function getNonColorCue(link: LinkCueStyle, surrounding: LinkCueStyle): LinkCue | null {
+  // Decorations on the surrounding text are drawn across the link too
+  if (link.textDecorationLine !== 'none' && link.textDecorationLine !== surrounding.textDecorationLine) {
+    return 'underline'
+  }
+  if (parseFloat(link.borderBottomWidth) > 0 && !['none', 'hidden'].includes(link.borderBottomStyle)) {
+    return 'border'
+  }
+  if (Math.abs(parseFontWeight(link.fontWeight) - parseFontWeight(surrounding.fontWeight)) >= WEIGHT_CUE_DIFFERENCE) {
+    return 'weight'
+  }
+  if (link.fontStyle !== surrounding.fontStyle) return 'italic'
+  if (!TRANSPARENT_VALUES.has(link.backgroundColor) && link.backgroundColor !== surrounding.backgroundColor) {
+    return 'background'
+  }
+  return null
+}
+
+/**
+ * Whether a declared text-decoration value draws a line under the text
+ */
+export function declaresUnderline(value: string): boolean {
+  return /\bunderline\b/.test(value)
+}
+
+/**
+ * Classify the contrast between a color-only link and its surrounding text
+ * 1.4.1 is level A, so the 3:1 applies at either configured level
+ */
+export function classifyLinkDistinction(
+  ratio: number,
+  level: 'AA' | 'AAA'
+): Pick<ScanResult, 'isLargeText' | 'level' | 'requiredRatio' | 'passes'> {
+  return {
+    isLargeText: false,
+    level,
+    requiredRatio: LINK_TEXT_RATIO,
+    passes: ratio >= LINK_TEXT_RATIO,
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Pixel Sampling
+ * Estimates contrast for text drawn over images, gradients and video by
+ * reading the rendered pixels behind the text instead of CSS colors
+ */
+
+import { RGB } from './color-utils'
+import { calculateContrastRatio } from './contrast'
+
+/**
+ * Structural subset of ImageData so sampling can run without a DOM
+ */
+export interface PixelBuffer {
+  width: number
+  height: number
+  data: Uint8ClampedArray | number[]
+}
+
+export interface SampleRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface SampledContrast {
+  min: number
+  median: number
+  max: number
+  minBackground: RGB // sampled color that produced the minimum ratio
+  medianBackground: RGB
+  sampleCount: number
+}
+
+/**
+ * Read pixels inside a CSS-pixel rect from a screenshot
+ * `scale` converts CSS pixels to screenshot pixels (usually devicePixelRatio).
+ * At most `maxSamples` pixels are read, spread evenly over the rect.
+ */
+export function samplePixelsInRect(
+  buffer: PixelBuffer,
+  rect: SampleRect,
+  scale: number,
+  maxSamples: number = 400
+): RGB[] {
+  const left = Math.max(0, Math.floor(rect.left * scale))
+  const top = Math.max(0, Math.floor(rect.top * scale))
+  const right = Math.min(buffer.width, Math.ceil((rect.left + rect.width) * scale))
+  const bottom = Math.min(buffer.height, Math.ceil((rect.top + rect.height) * scale))
+
+  const width = right - left
+  const height = bottom - top
+  if (width <= 0 || height <= 0) return []
+
+  // Pick a stride so we stay within the sample budget
+  const stride = Math.max(1, Math.ceil(Math.sqrt((width * height) / maxSamples)))
+  const pixels: RGB[] = []
+
+  for (let y = top; y < bottom; y += stride) {
+    for (let x = left; x < right; x += stride) {
+      const i = (y * buffer.width + x) * 4
+      pixels.push({ r: buffer.data[i], g: buffer.data[i + 1], b: buffer.data[i + 2] })
+    }
+  }
+
+  return pixels
+}
+
+/**
+ * Average the `size`×`size` screenshot pixels centred on (x, y)
+ * Pixels outside the buffer are skipped, so edges average what is there.
+ */
+export function averagePixels(buffer: PixelBuffer, x: number, y: number, size: number): RGB | null {
+  const half = Math.floor(size / 2)
+  const cx = Math.floor(x)
+  const cy = Math.floor(y)
+  let r = 0
+  let g = 0
+  let b = 0
+  let count = 0
+
+  for (let py = cy - half; py < cy - half + size; py++) {
+    if (py < 0 || py >= buffer.height) continue
+    for (let px = cx - half; px < cx - half + size; px++) {
+      if (px < 0 || px >= buffer.width) continue
+      const i = (py * buffer.width + px) * 4
+      r += buffer.data[i]
+      g += buffer.data[i + 1]
+      b += buffer.data[i + 2]
+      count++
+    }
+  }
+
+  if (count === 0) return null
+  return { r: Math.round(r / count), g: Math.round(g / count), b: Math.round(b / count) }
+}
+
+/**
+ * Summarize the contrast of a foreground color against sampled backgrounds
+ * Returns null when there are no samples
+ */
+export function summarizeSampledContrast(foreground: RGB, backgrounds: RGB[]): SampledContrast | null {
+  if (backgrounds.length === 0) return null
+
+  const samples = backgrounds
+    .map((background) => ({ background, ratio: calculateContrastRatio(foreground, background) }))
+    .sort((a, b) => a.ratio - b.ratio)
+
+  const median = samples[Math.floor((samples.length - 1) / 2)]
+
+  return {
+    min: samples[0].ratio,
+    median: median.ratio,
+    max: samples[samples.length - 1].ratio,
+    minBackground: samples[0].background,
+    medianBackground: median.background,
+    sampleCount: samples.length,
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Pseudo-element Text
+ * Extracts the text that CSS generates through `content`, list markers and
+ * placeholders, none of which appears in the DOM
+ */
+
+export type TextPseudoElement = '::before' | '::after' | '::placeholder' | '::marker' | '::selection'
+
+// Bullet-style markers are graphics, not text
+const GRAPHIC_MARKER_TYPES = new Set(['none', 'disc', 'circle', 'square', 'disclosure-open', 'disclosure-closed'])
+
+/**
+ * Turn a computed `content` value into the text it renders
+ * Handles strings, attr() and quotes; counters and images are skipped.
+ */
+export function parseContentText(content: string, getAttribute: (name: string) => string | null): string {
+  const value = content.trim()
+  if (!value || value === 'none' || value === 'normal') return ''
+
+  // Anything after a `/` is alternative text for screen readers, not rendered
+  const rendered = value.split(/\s\/\s(?=(?:[^"]*"[^"]*")*[^"]*$)/)[0]
+  const tokens = rendered.match(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|attr\(\s*[\w-]+\s*\)|open-quote|close-quote/g) || []
+
+  return tokens
+    .map((token) => {
+      if (token.startsWith('attr(')) {
+        return getAttribute(token.slice(5, -1).trim()) ?? ''
+      }
+      if (token === 'open-quote') return '\u201C'
+      if (token === 'close-quote') return '\u201D'
+      return token.slice(1, -1).replace(/\\(.)/g, '$1')
+    })
+    .join('')
+}
+
+/**
+ * Whether generated text is only icon-font glyphs (Private Use Area characters)
+ * Those are graphics and belong to the non-text checks
+ */
+export function isIconGlyphText(text: string): boolean {
+  const visible = text.replace(/\s/g, '')
+  if (!visible) return true
+  return Array.from(visible).every((char) => {
+    const code = char.codePointAt(0) ?? 0
+    return (code >= 0xe000 && code <= 0xf8ff) || code >= 0xf0000
+  })
+}
+
+/**
+ * Text of a list marker for a list-style-type, or null for graphic bullets
+ * `index` is the 1-based position of the list item
+ */
+export function getMarkerText(listStyleType: string, index: number): string | null {
+  const type = listStyleType.trim()
+  if (GRAPHIC_MARKER_TYPES.has(type)) return null
+
+  // list-style-type can be a string: `list-style-type: "- "`
+  if (/^["']/.test(type)) return type.slice(1, -1) || null
+
+  switch (type) {
+    case 'lower-alpha':
+    case 'lower-latin':
+      return `${String.fromCharCode(96 + ((index - 1) % 26) + 1)}.`
+    case 'upper-alpha':
+    case 'upper-latin':
+      return `${String.fromCharCode(64 + ((index - 1) % 26) + 1)}.`
+    case 'lower-roman':
+      return `${toRoman(index).toLowerCase()}.`
+    case 'upper-roman':
+      return `${toRoman(index)}.`
+    default:
+      // decimal and the many locale-specific counter styles
+      return `${index}.`
+  }
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+  ]
+  let remaining = value
+  let result = ''
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral
+      remaining -= amount
+    }
+  }
+  return result
+}
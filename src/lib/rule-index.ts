@@ -0,0 +1,98 @@
+/**
+ * Rule Index
+ * Files selectors under the id, class or tag of their rightmost compound
+ * selector (the element the rule styles), so each element is only tested
+ * against rules that could match it instead of every rule re-querying the DOM
+ */
+
+/**
+ * The parts of an element that decide which bucket rules it can match
+ */
+export interface RuleIndexTarget {
+  id: string
+  classList: Iterable<string>
+  localName: string
+}
+
+export interface RuleIndex<T> {
+  add: (selector: string, value: T) => void
+  // Values whose selectors might match, in the order they were added
+  candidates: (target: RuleIndexTarget) => T[]
+  size: number
+}
+
+const COMBINATORS = new Set([' ', '>', '+', '~'])
+
+/**
+ * The rightmost compound selector, e.g. `a.button:hover` for `.nav > a.button:hover`
+ */
+function getSubjectCompound(selector: string): string {
+  let depth = 0
+  const trimmed = selector.trim()
+
+  for (let i = trimmed.length - 1; i >= 0; i--) {
+    const char = trimmed[i]
+    if (char === ')' || char === ']') depth++
+    if (char === '(' || char === '[') depth--
+    if (depth === 0 && COMBINATORS.has(char)) return trimmed.slice(i + 1).trim()
+  }
+  return trimmed
+}
+
+/**
+ * Bucket key for a selector: `#id`, `.class`, a tag name, or `*` when the
+ * subject has none of these (or uses escapes we can't read reliably)
+ */
+export function getSelectorKey(selector: string): string {
+  const compound = getSubjectCompound(selector)
+  if (compound.includes('\\')) return '*'
+
+  // Arguments (:not(.x), :is(...)) and attributes don't narrow what must be present
+  const plain = compound.replace(/\([^)]*\)/g, '').replace(/\[[^\]]*\]/g, '')
+
+  const id = plain.match(/#(-?[_a-zA-Z][\w-]*)/)
+  if (id) return `#${id[1]}`
+  const className = plain.match(/\.(-?[_a-zA-Z][\w-]*)/)
+  if (className) return `.${className[1]}`
+  const tag = plain.match(/^([a-zA-Z][\w-]*)/)
+  if (tag) return tag[1].toLowerCase()
+  return '*'
+}
+
+/**
+ * Keys an element can be found under
+ */
+export function getTargetKeys(target: RuleIndexTarget): string[] {
+  const keys = [target.localName.toLowerCase(), '*']
+  if (target.id) keys.push(`#${target.id}`)
+  for (const className of target.classList) keys.push(`.${className}`)
+  return keys
+}
+
+/**
+ * Create an empty index; values keep their insertion order when looked up
+ */
+export function createRuleIndex<T>(): RuleIndex<T> {
+  const buckets = new Map<string, Array<{ order: number; value: T }>>()
+  let size = 0
+
+  return {
+    add: (selector, value) => {
+      const key = getSelectorKey(selector)
+      const bucket = buckets.get(key) ?? []
+      bucket.push({ order: size++, value })
+      buckets.set(key, bucket)
+    },
+    candidates: (target) => {
+      const found: Array<{ order: number; value: T }> = []
+      getTargetKeys(target).forEach((key) => {
+        const bucket = buckets.get(key)
+        if (bucket) found.push(...bucket)
+      })
+      return found.sort((a, b) => a.order - b.order).map((entry) => entry.value)
+    },
+    get size() {
+      return size
+    },
+  }
+}
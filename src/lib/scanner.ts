@@ -0,0 +1,298 @@
+/**
+ * Page Scanner Types & Scoring
+ * Shared between the content script (which produces scan results)
+ * and the DevTools panel / popup (which display them)
+ */
+
+import { WCAG_THRESHOLDS, getRequiredRatio, isLargeText } from './contrast'
+import { FocusIndicatorDetails } from './focus-indicator'
+import { InteractiveState } from './interactive-states'
+import { TextPseudoElement } from './pseudo-text'
+import { TextEffectSource } from './text-effects'
+
+/**
+ * Rule that produced a result
+ * - text: text contrast (1.4.3 / 1.4.6)
+ * - non-text: UI components and graphical objects (1.4.11)
+ * - focus-indicator: focus visible / focus appearance (2.4.7 / 2.4.13)
+ * - link: links set apart from surrounding text by color alone (1.4.1)
+ */
+export type ScanCategory = 'text' | 'non-text' | 'focus-indicator' | 'link'
+
+export type NonTextComponent =
+  | 'form-control'
+  | 'checkbox'
+  | 'radio'
+  | 'icon-button'
+  | 'svg-icon'
+  | 'focus-ring'
+
+export const NON_TEXT_COMPONENT_LABELS: Record<NonTextComponent, string> = {
+  'form-control': 'Form control border',
+  checkbox: 'Checkbox outline',
+  radio: 'Radio outline',
+  'icon-button': 'Icon-only button',
+  'svg-icon': 'SVG icon',
+  'focus-ring': 'Focus ring',
+}
+
+/**
+ * The stylesheet rule that gives an element its text color
+ */
+export interface ColorSource {
+  selector: string // rule selector, or `style attribute`
+  stylesheet: string // file name, or `<style>` for inline sheets
+  customProperty?: string // set when the declared color is var(--x)
+}
+
+/**
+ * The design token a color was read from
+ */
+export interface TokenTrace {
+  name: string // token referenced by the declaration, e.g. --text-muted
+  chain: string[] // every token it resolved through, e.g. ['--text-muted', '--gray-400']
+  definedOn: string // selector of the element that defines the token
+}
+
+export interface ScanResult {
+  category: ScanCategory
+  component?: NonTextComponent // set for non-text results
+  element: string
+  selector: string
+  foreground: string
+  background: string
+  ratio: number
+  apcaLc: number
+  score: string
+  fontSize: string
+  fontWeight: string
+  text: string
+  isLargeText: boolean
+  level: 'AA' | 'AAA'
+  requiredRatio: number
+  passes: boolean
+  // Set when the colors come from a :hover/:focus-visible/... rule rather than the resting style
+  state?: InteractiveState
+  // Set when the text is generated by CSS rather than present in the DOM
+  pseudoElement?: TextPseudoElement
+  placeholderAsLabel?: boolean // placeholder is the field's only label
+  // Set for focus-indicator results; ratio is the focused vs unfocused contrast
+  focusIndicator?: Pick<
+    FocusIndicatorDetails,
+    'changedProperties' | 'areaPx' | 'requiredAreaPx' | 'visible' | 'meetsEnhanced'
+  >
+  // Set for link results; foreground is the link color and background the surrounding text color
+  link?: { hoverFocusCue: boolean } // an underline is declared for both :hover and :focus
+  // Set when failing text has a halo or outline; `ratio` stays the contrast without it
+  textEffect?: { source: TextEffectSource; color: string; ratio: number }
+  // Set when the background was read from a screenshot instead of CSS
+  sampledRatio?: { min: number; median: number; max: number }
+  lowConfidence?: boolean
+  // Where the text color is declared, for grouping findings by their fix
+  colorSource?: ColorSource
+  tokens?: { foreground?: TokenTrace; background?: TokenTrace }
+  // Set by the service worker when merging results from every frame
+  frameId?: number
+  frameUrl?: string
+  framePath?: number[] // frame IDs from the top frame (0) down to this frame
+}
+
+/**
+ * Options that change how a scan is performed
+ */
+export interface ScanOptions {
+  pixelSampling?: boolean // sample screenshot pixels behind text over images/gradients
+  focusIndicators?: boolean // focus every focusable element and check its indicator
+  interactiveStates?: boolean // check :hover/:focus-visible/:active/:visited/:disabled rules
+  rootSelector?: string // only scan inside this element (top frame; other frames are skipped)
+  excludeSelectors?: string[] // skip elements inside any of these, e.g. `.cookie-banner`
+  viewportOnly?: boolean // skip elements outside the visible viewport
+}
+
+/**
+ * Progress of a running scan, reported by each frame
+ */
+export interface ScanProgress {
+  processed: number // elements checked so far
+  total: number
+  percent: number
+}
+
+/**
+ * Minimal frame details, as each frame reports them with its scan results
+ */
+export interface FrameInfo {
+  frameId: number
+  parentFrameId: number
+  url: string
+}
+
+export type ScanStatus = 'fail' | 'warning' | 'pass'
+
+/**
+ * Parse a computed font-size (e.g. "16px") into px
+ * Computed values are always px, but pt is converted for completeness (1pt = 4/3 px)
+ */
+export function parseFontSizePx(fontSize: string): number {
+  const value = parseFloat(fontSize)
+  if (isNaN(value)) return 0
+  if (fontSize.trim().endsWith('pt')) return value * (4 / 3)
+  return value
+}
+
+/**
+ * Parse a computed font-weight into its numeric value
+ * Handles keyword values that older engines may still report
+ */
+export function parseFontWeight(fontWeight: string): number {
+  const keyword = fontWeight.trim().toLowerCase()
+  if (keyword === 'bold' || keyword === 'bolder') return 700
+  if (keyword === 'normal' || keyword === 'lighter') return 400
+
+  const value = parseFloat(keyword)
+  return isNaN(value) ? 400 : value
+}
+
+/**
+ * Determine if computed font styles qualify as WCAG large text
+ * Bold means a font-weight of 700 or heavier
+ */
+export function isLargeTextStyle(fontSize: string, fontWeight: string): boolean {
+  // Round to 2 decimals so 14pt computed as "18.6667px" meets the 18.67px threshold
+  const px = Math.round(parseFontSizePx(fontSize) * 100) / 100
+  return isLargeText(px, parseFontWeight(fontWeight) >= 700)
+}
+
+/**
+ * Classify a contrast ratio against WCAG 1.4.3 (AA) or 1.4.6 (AAA)
+ * using the text size of the scanned element
+ */
+export function classifyTextContrast(
+  ratio: number,
+  fontSize: string,
+  fontWeight: string,
+  level: 'AA' | 'AAA'
+): Pick<ScanResult, 'isLargeText' | 'level' | 'requiredRatio' | 'passes'> {
+  const large = isLargeTextStyle(fontSize, fontWeight)
+  const requiredRatio = getRequiredRatio(level, large ? 'large' : 'normal')
+
+  return {
+    isLargeText: large,
+    level,
+    requiredRatio,
+    passes: ratio >= requiredRatio,
+  }
+}
+
+/**
+ * Classify a contrast ratio against WCAG 1.4.11 Non-text Contrast
+ * 1.4.11 is AA-only, so 3:1 applies at either configured level
+ */
+export function classifyNonTextContrast(
+  ratio: number,
+  level: 'AA' | 'AAA'
+): Pick<ScanResult, 'isLargeText' | 'level' | 'requiredRatio' | 'passes'> {
+  return {
+    isLargeText: false,
+    level,
+    requiredRatio: WCAG_THRESHOLDS.AA_UI,
+    passes: ratio >= WCAG_THRESHOLDS.AA_UI,
+  }
+}
+
+/**
+ * Classify a focus indicator
+ * AA (2.4.7) only needs a visible change; AAA (2.4.13) needs 3:1 change
+ * contrast over at least a 2px perimeter's worth of area
+ */
+export function classifyFocusIndicator(
+  details: Pick<FocusIndicatorDetails, 'visible' | 'meetsEnhanced'>,
+  level: 'AA' | 'AAA'
+): Pick<ScanResult, 'isLargeText' | 'level' | 'requiredRatio' | 'passes'> {
+  return {
+    isLargeText: false,
+    level,
+    requiredRatio: WCAG_THRESHOLDS.AA_UI,
+    passes: level === 'AAA' ? details.meetsEnhanced : details.visible,
+  }
+}
+
+/**
+ * Get the display status of a scan result
+ * - fail: does not meet the configured level for its text size
+ * - warning: a focus indicator is visible but too faint or small for 2.4.13, a
+ *   color-only link gains no underline on hover and focus, text passes only
+ *   via its text-shadow or stroke (to confirm by eye), or a disabled state
+ *   is low contrast (exempt from 1.4.3, but worth a look)
+ * - pass: meets the configured level for its text size (large text at its own threshold)
+ */
+export function getScanStatus(result: ScanResult): ScanStatus {
+  if (!result.passes) return 'fail'
+  if (result.focusIndicator && !result.focusIndicator.meetsEnhanced) return 'warning'
+  if (result.link && !result.link.hoverFocusCue) return 'warning'
+  if (result.textEffect && result.ratio < result.requiredRatio) return 'warning'
+  if (result.state === 'disabled' && result.ratio < result.requiredRatio) return 'warning'
+  return 'pass'
+}
+
+/**
+ * Parse exclude selectors entered one per line
+ * Commas stay part of a selector, so `a, b` excludes both
+ */
+export function parseSelectorLines(text: string): string[] {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean)
+  return Array.from(new Set(lines))
+}
+
+export function createScanProgress(processed: number, total: number): ScanProgress {
+  return {
+    processed,
+    total,
+    percent: total > 0 ? Math.min(100, Math.round((processed / total) * 100)) : 100,
+  }
+}
+
+/**
+ * Combine the progress of every frame into one figure for the page
+ */
+export function combineScanProgress(progress: ScanProgress[]): ScanProgress {
+  return createScanProgress(
+    progress.reduce((sum, frame) => sum + frame.processed, 0),
+    progress.reduce((sum, frame) => sum + frame.total, 0)
+  )
+}
+
+/**
+ * Build the chain of frame IDs from the top frame down to a frame
+ */
+export function getFramePath(frameId: number, frames: FrameInfo[]): number[] {
+  const byId = new Map(frames.map((frame) => [frame.frameId, frame]))
+  const path: number[] = []
+  let current = byId.get(frameId)
+
+  while (current) {
+    path.unshift(current.frameId)
+    // parentFrameId is -1 for the top frame
+    if (current.parentFrameId < 0 || path.includes(current.parentFrameId)) break
+    current = byId.get(current.parentFrameId)
+  }
+
+  return path
+}
+
+/**
+ * Tag results from a single frame with where they came from
+ */
+export function tagFrameResults(
+  results: ScanResult[],
+  frame: FrameInfo,
+  frames: FrameInfo[]
+): ScanResult[] {
+  const framePath = getFramePath(frame.frameId, frames)
+  return results.map((result) => ({
+    ...result,
+    frameId: frame.frameId,
+    frameUrl: frame.url,
+    framePath,
+  }))
+}
@@ -4,6 +4,7 @@
  */
 
 import { RGB, rgbToHex } from './color-utils'
+import { ContrastMetric } from './contrast'
 
 export interface ColorPair {
   id: string
@@ -28,6 +29,10 @@ export interface UserPreferences {
   darkMode: boolean
   showNotifications: boolean
   maxHistoryItems: number
+  contrastMetric: ContrastMetric
+  pixelSampling: boolean
+  focusIndicators: boolean
+  interactiveStates: boolean
 }
 
 const DEFAULT_PREFERENCES: UserPreferences = {
@@ -36,6 +41,25 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   darkMode: false,
   showNotifications: true,
   maxHistoryItems: 20,
+  contrastMetric: 'wcag2',
+  pixelSampling: false,
+  focusIndicators: false,
+  interactiveStates: true,
+}
+
+/**
+ * Which part of a page to scan, remembered per origin
+ */
+export interface ScanScope {
+  rootSelector: string
+  excludeSelectors: string[]
+  viewportOnly: boolean
+}
+
+export const DEFAULT_SCAN_SCOPE: ScanScope = {
+  rootSelector: '',
+  excludeSelectors: ['[data-wcag-ignore]'],
+  viewportOnly: false,
 }
 
 const STORAGE_KEYS = {
@@ -44,6 +68,7 @@ const STORAGE_KEYS = {
   PREFERENCES: 'wcag_preferences',
   PENDING_EYEDROPPER: 'wcag_pending_eyedropper',
   CURRENT_COLORS: 'wcag_current_colors',
+  SCAN_SCOPES: 'wcag_scan_scopes',
 } as const
 
 /**
@@ -93,8 +118,9 @@ export async function getCurrentColors(): Promise<CurrentColors | null> {
  * Pending eyedropper state - stored when user picks a color
  */
 export interface PendingEyedropper {
-  color: string // hex color
-  colorType: 'foreground' | 'background'
+  color: string // hex color; the foreground when a whole pair was picked
+  colorType: 'foreground' | 'background' | 'pair'
+  background?: string // hex color, only set for pairs
   timestamp: number
 }
 
@@ -276,6 +302,33 @@ export async function updatePreferences(
   }
 }
 
+/**
+ * Get the scan scope saved for an origin
+ */
+export async function getScanScope(origin: string): Promise<ScanScope> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.SCAN_SCOPES)
+    const scopes: Record<string, ScanScope> = result[STORAGE_KEYS.SCAN_SCOPES] || {}
+    return { ...DEFAULT_SCAN_SCOPE, ...scopes[origin] }
+  } catch (error) {
+    console.error('Error getting scan scope:', error)
+    return DEFAULT_SCAN_SCOPE
+  }
+}
+
+/**
+ * Save the scan scope for an origin
+ */
+export async function saveScanScope(origin: string, scope: ScanScope): Promise<void> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.SCAN_SCOPES)
+    const scopes: Record<string, ScanScope> = result[STORAGE_KEYS.SCAN_SCOPES] || {}
+    await chrome.storage.local.set({ [STORAGE_KEYS.SCAN_SCOPES]: { ...scopes, [origin]: scope } })
+  } catch (error) {
+    console.error('Error saving scan scope:', error)
+  }
+}
+
 /**
  * Export all data for backup
  */
@@ -339,16 +392,18 @@ export function onStorageChange(
 
 /**
  * Store pending eyedropper result
- * Called by service worker when a color is picked
+ * Called by service worker when a color (or a foreground/background pair) is picked
  */
 export async function setPendingEyedropper(
   color: string,
-  colorType: 'foreground' | 'background'
+  colorType: PendingEyedropper['colorType'],
+  background?: string
 ): Promise<void> {
   try {
     const pending: PendingEyedropper = {
       color,
       colorType,
+      ...(colorType === 'pair' && background ? { background } : {}),
       timestamp: Date.now(),
     }
     await chrome.storage.local.set({
@@ -0,0 +1,80 @@
+/**
+ * Text Effects
+ * Text drawn with a halo (`text-shadow`) or an outline (`-webkit-text-stroke`)
+ * is read against that color rather than the background behind it. When the
+ * effect hugs the glyphs closely enough to outline them, its color serves as
+ * the local background for an "effective" contrast.
+ */
+
+import { RGB } from './color-utils'
+import { ShadowLayer } from './focus-indicator'
+
+export type TextEffectSource = 'text-shadow' | 'text-stroke'
+
+export interface TextEffect {
+  source: TextEffectSource
+  color: RGB // already flattened onto the background
+}
+
+// Offsets beyond this read as a drop shadow on one side rather than a halo
+const OUTLINE_MAX_OFFSET_EM = 0.1
+const OUTLINE_MIN_OFFSET_PX = 1
+// Wider blurs fade out before they can separate the glyph from the background
+const OUTLINE_MAX_BLUR_EM = 0.5
+// Hard shadows stacked in every direction (the classic outline trick) may sit further out
+const STACKED_MAX_OFFSET_EM = 0.15
+const MIN_STROKE_PX = 1
+
+const colorKey = ({ r, g, b }: RGB) => `${r},${g},${b}`
+
+/**
+ * A single blurred shadow centred closely enough on the glyphs to surround them
+ */
+export function isHaloShadow(shadow: ShadowLayer, fontSizePx: number): boolean {
+  const maxOffset = Math.max(OUTLINE_MIN_OFFSET_PX, fontSizePx * OUTLINE_MAX_OFFSET_EM)
+  return Math.hypot(shadow.offsetX, shadow.offsetY) <= maxOffset &&
+    shadow.blur > 0 &&
+    shadow.blur <= fontSizePx * OUTLINE_MAX_BLUR_EM
+}
+
+/**
+ * Same-colored shadows that together reach out on the left, right, top and bottom
+ */
+function findStackedOutline(shadows: ShadowLayer[], fontSizePx: number): RGB | null {
+  const maxOffset = Math.max(OUTLINE_MIN_OFFSET_PX, fontSizePx * STACKED_MAX_OFFSET_EM)
+  const groups = new Map<string, ShadowLayer[]>()
+  shadows
+    .filter((shadow) => Math.abs(shadow.offsetX) <= maxOffset && Math.abs(shadow.offsetY) <= maxOffset)
+    .forEach((shadow) => {
+      const key = colorKey(shadow.color)
+      groups.set(key, [...(groups.get(key) ?? []), shadow])
+    })
+
+  for (const group of groups.values()) {
+    const surrounds = group.some((s) => s.offsetX < 0) && group.some((s) => s.offsetX > 0) &&
+      group.some((s) => s.offsetY < 0) && group.some((s) => s.offsetY > 0)
+    if (surrounds) return group[0].color
+  }
+  return null
+}
+
+/**
+ * The text effect that outlines the glyphs, if any
+ * A stroke is drawn on the glyph edge, so it wins over shadows; among shadows
+ * the first listed is painted on top.
+ */
+export function findOutlineEffect(
+  shadows: ShadowLayer[],
+  stroke: { width: number; color: RGB | null },
+  fontSizePx: number
+): TextEffect | null {
+  if (stroke.color && stroke.width >= MIN_STROKE_PX) {
+    return { source: 'text-stroke', color: stroke.color }
+  }
+
+  const halo = shadows.find((shadow) => isHaloShadow(shadow, fontSizePx))
+  if (halo) return { source: 'text-shadow', color: halo.color }
+
+  const stacked = findStackedOutline(shadows, fontSizePx)
+  return stacked ? { source: 'text-shadow', color: stacked } : null
+}
@@ -0,0 +1,91 @@
+/**
+ * Watch Mode
+ * Keys and diffs findings so live re-scans can be streamed to the DevTools
+ * panel as incremental added / changed / resolved updates
+ */
+
+import { ScanResult, getScanStatus } from './scanner'
+
+// Name of the long-lived Port between the DevTools panel and the content script
+export const WATCH_PORT_NAME = 'thewcag-watch'
+
+// Quiet period after the last mutation before re-scanning
+export const WATCH_DEBOUNCE_MS = 400
+
+export interface WatchUpdate {
+  added: ScanResult[]
+  changed: ScanResult[]
+  resolved: string[] // finding keys
+}
+
+/**
+ * Stable identity of a finding across re-scans
+ */
+export function getFindingKey(result: ScanResult): string {
+  return [
+    result.frameId ?? 0,
+    result.category,
+    result.component ?? '',
+    result.state ?? '',
+    result.pseudoElement ?? '',
+    result.selector,
+  ].join('|')
+}
+
+/**
+ * Findings are results that need attention (failures and warnings)
+ */
+export function isFinding(result: ScanResult): boolean {
+  return getScanStatus(result) !== 'pass'
+}
+
+function hasChanged(before: ScanResult, after: ScanResult): boolean {
+  return (
+    before.ratio.toFixed(2) !== after.ratio.toFixed(2) ||
+    before.foreground !== after.foreground ||
+    before.background !== after.background ||
+    before.passes !== after.passes ||
+    before.text !== after.text ||
+    getScanStatus(before) !== getScanStatus(after)
+  )
+}
+
+/**
+ * Diff the findings of a re-scanned scope against what was there before
+ */
+export function diffFindings(previous: ScanResult[], next: ScanResult[]): WatchUpdate {
+  const before = new Map(previous.map((result) => [getFindingKey(result), result]))
+  const after = new Map(next.filter(isFinding).map((result) => [getFindingKey(result), result]))
+
+  const update: WatchUpdate = { added: [], changed: [], resolved: [] }
+
+  after.forEach((result, key) => {
+    const existing = before.get(key)
+    if (!existing) update.added.push(result)
+    else if (hasChanged(existing, result)) update.changed.push(result)
+  })
+  before.forEach((_result, key) => {
+    if (!after.has(key)) update.resolved.push(key)
+  })
+
+  return update
+}
+
+export function isEmptyUpdate(update: WatchUpdate): boolean {
+  return update.added.length === 0 && update.changed.length === 0 && update.resolved.length === 0
+}
+
+/**
+ * Apply an incremental update to a result list, keeping its order
+ */
+export function applyWatchUpdate(results: ScanResult[], update: WatchUpdate): ScanResult[] {
+  const resolved = new Set(update.resolved)
+  const changed = new Map(update.changed.map((result) => [getFindingKey(result), result]))
+
+  return [
+    ...results
+      .filter((result) => !resolved.has(getFindingKey(result)))
+      .map((result) => changed.get(getFindingKey(result)) ?? result),
+    ...update.added,
+  ]
+}
@@ -1,4 +1,8 @@
-import { ContrastResult, getScoreLabel, WCAG_THRESHOLDS } from '@/lib/contrast'
+import { useState } from 'react'
+import { ContrastResult, ContrastMetric, getScoreLabel, WCAG_THRESHOLDS, calculateContrastRatio, formatContrastRatio } from '@/lib/contrast'
+import { ApcaResult } from '@/lib/apca'
+import { parseColor, rgbToHex } from '@/lib/color-utils'
+import { CvdSimulation, CvdType, CVD_TYPES, CVD_LABELS, getCvdLabel, simulateCvd } from '@/lib/cvd'
 
 interface ContrastDisplayProps {
   result: ContrastResult
@@ -6,6 +10,9 @@ interface ContrastDisplayProps {
   backgroundHex: string
   targetLevel: 'AA' | 'AAA'
   textSize: 'normal' | 'large'
+  metric?: ContrastMetric
+  pageSimulation?: CvdSimulation | null // simulation currently applied to the page
+  onSimulatePage?: (simulation: CvdSimulation | null) => void
 }
 
 export function ContrastDisplay({
@@ -14,7 +21,14 @@ export function ContrastDisplay({
   backgroundHex,
   targetLevel,
   textSize,
+  metric = 'wcag2',
+  pageSimulation = null,
+  onSimulatePage,
 }: ContrastDisplayProps) {
+  const showWcag2 = metric !== 'apca'
+  const showApca = metric !== 'wcag2'
+  const [simulation, setSimulation] = useState<CvdSimulation | null>(null)
+
   const getScoreStyles = (score: ContrastResult['score']) => {
     switch (score) {
       case 'aaa':
@@ -38,107 +52,229 @@ export function ContrastDisplay({
   const requiredRatio = getRequiredRatio()
   const meetsTarget = result.ratio >= requiredRatio
 
+  // Colors as seen with the selected color vision deficiency
+  const foregroundRgb = parseColor(foregroundHex)
+  const backgroundRgb = parseColor(backgroundHex)
+  const simulated = simulation && foregroundRgb && backgroundRgb
+    ? { foreground: simulateCvd(foregroundRgb, simulation), background: simulateCvd(backgroundRgb, simulation) }
+    : null
+  const simulatedRatio = simulated ? calculateContrastRatio(simulated.foreground, simulated.background) : null
+  const previewForeground = simulated ? rgbToHex(simulated.foreground) : foregroundHex
+  const previewBackground = simulated ? rgbToHex(simulated.background) : backgroundHex
+  const pageMatches = !!simulation && pageSimulation?.type === simulation.type &&
+    pageSimulation.severity === simulation.severity
+
   return (
     <div className="card space-y-4">
       {/* Preview */}
       <div
         className="rounded-lg p-4 text-center border border-border dark:border-warm-brown/30"
-        style={{ backgroundColor: backgroundHex }}
+        style={{ backgroundColor: previewBackground }}
       >
         <p
           className="text-2xl font-bold"
-          style={{ color: foregroundHex }}
+          style={{ color: previewForeground }}
         >
           Sample Text
         </p>
         <p
           className="text-sm mt-1"
-          style={{ color: foregroundHex }}
+          style={{ color: previewForeground }}
         >
           The quick brown fox jumps over the lazy dog
         </p>
       </div>
 
-      {/* Contrast Ratio */}
-      <div className="text-center">
-        <div className="contrast-ratio-large text-dark dark:text-cream">
-          {result.ratioString}
-        </div>
-        <p className="text-sm text-warm-brown dark:text-cream/60 mt-1">
-          Contrast Ratio
-        </p>
-      </div>
+      {/* Color Vision Simulation */}
+      <div className="space-y-2">
+        <select
+          value={simulation?.type ?? ''}
+          onChange={(e) => setSimulation(e.target.value
+            ? { type: e.target.value as CvdType, severity: simulation?.severity ?? 1 }
+            : null)}
+          className="input w-full text-sm"
+          aria-label="Simulate color vision deficiency"
+        >
+          <option value="">Normal vision</option>
+          {CVD_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {CVD_LABELS[type].full} / {CVD_LABELS[type].partial.toLowerCase()} ({CVD_LABELS[type].description.toLowerCase()})
+            </option>
+          ))}
+        </select>
 
-      {/* Score Badge */}
-      <div className={`rounded-lg p-3 border ${getScoreStyles(result.score)}`}>
-        <div className="flex items-center justify-between">
-          <span className="font-semibold">{getScoreLabel(result.score)}</span>
-          {meetsTarget ? (
-            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-            </svg>
-          ) : (
-            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-            </svg>
-          )}
-        </div>
-        <p className="text-xs mt-1 opacity-80">
-          {meetsTarget 
-            ? `Meets ${targetLevel} requirements for ${textSize} text`
-            : `Requires ${requiredRatio}:1 for ${targetLevel} ${textSize} text`
-          }
-        </p>
+        {simulation && simulated && simulatedRatio !== null && (
+          <>
+            <label className="flex items-center gap-2 text-xs text-warm-brown dark:text-cream/60">
+              <span className="w-28 shrink-0">{getCvdLabel(simulation)}</span>
+              <input
+                type="range"
+                min={10}
+                max={100}
+                step={10}
+                value={Math.round(simulation.severity * 100)}
+                onChange={(e) => setSimulation({ ...simulation, severity: Number(e.target.value) / 100 })}
+                className="flex-1 accent-primary"
+                aria-label="Severity"
+              />
+            </label>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-dark dark:text-cream">
+                {previewForeground} on {previewBackground} ·{' '}
+                <strong className={simulatedRatio >= requiredRatio ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}>
+                  {formatContrastRatio(simulatedRatio)}
+                </strong>
+              </span>
+              {onSimulatePage && (
+                <button
+                  onClick={() => onSimulatePage(pageMatches ? null : simulation)}
+                  className="btn-ghost text-xs px-2 py-1"
+                  title="Render the whole page through this simulation"
+                >
+                  {pageMatches ? 'Stop on page' : 'Apply to page'}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {pageSimulation && !pageMatches && onSimulatePage && (
+          <button
+            onClick={() => onSimulatePage(null)}
+            className="btn-ghost w-full text-xs py-1"
+          >
+            Stop simulating {getCvdLabel(pageSimulation)} on the page
+          </button>
+        )}
       </div>
 
-      {/* Human-readable explanation when contrast fails */}
-      {!meetsTarget && (
-        <div className="bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
-          <div className="flex gap-2">
-            <svg className="w-5 h-5 text-amber-600 dark:text-amber-400 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-            </svg>
-            <div className="text-xs text-amber-800 dark:text-amber-300">
-              <p className="font-medium mb-1">Why does this matter?</p>
-              <p className="opacity-80">
-                {result.ratio < 3 
-                  ? "This color combination may be very difficult to read for users with low vision or color blindness. Consider making the text color darker or the background lighter."
-                  : result.ratio < 4.5
-                    ? "This contrast works for large text (18pt+) but may be hard to read at smaller sizes. For body text, try making the colors more distinct."
-                    : "This meets basic requirements but won't achieve the highest accessibility standard. For critical content, consider increasing contrast."
-                }
-              </p>
-              <p className="mt-2 opacity-80">
-                <strong>Current:</strong> {result.ratio.toFixed(2)}:1 → <strong>Need:</strong> {requiredRatio}:1 
-                <span className="ml-1">(missing {(requiredRatio - result.ratio).toFixed(2)} points)</span>
-              </p>
+      {showWcag2 && (
+        <>
+          {/* Contrast Ratio */}
+          <div className="text-center">
+            <div className="contrast-ratio-large text-dark dark:text-cream">
+              {result.ratioString}
             </div>
+            <p className="text-sm text-warm-brown dark:text-cream/60 mt-1">
+              Contrast Ratio
+            </p>
           </div>
-        </div>
+
+          {/* Score Badge */}
+          <div className={`rounded-lg p-3 border ${getScoreStyles(result.score)}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">{getScoreLabel(result.score)}</span>
+              {meetsTarget ? (
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                </svg>
+              ) : (
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                </svg>
+              )}
+            </div>
+            <p className="text-xs mt-1 opacity-80">
+              {meetsTarget 
+                ? `Meets ${targetLevel} requirements for ${textSize} text`
+                : `Requires ${requiredRatio}:1 for ${targetLevel} ${textSize} text`
+              }
+            </p>
+          </div>
+
+          {/* Human-readable explanation when contrast fails */}
+          {!meetsTarget && (
+            <div className="bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
+              <div className="flex gap-2">
+                <svg className="w-5 h-5 text-amber-600 dark:text-amber-400 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <div className="text-xs text-amber-800 dark:text-amber-300">
+                  <p className="font-medium mb-1">Why does this matter?</p>
+                  <p className="opacity-80">
+                    {result.ratio < 3 
+                      ? "This color combination may be very difficult to read for users with low vision or color blindness. Consider making the text color darker or the background lighter."
+                      : result.ratio < 4.5
+                        ? "This contrast works for large text (18pt+) but may be hard to read at smaller sizes. For body text, try making the colors more distinct."
+                        : "This meets basic requirements but won't achieve the highest accessibility standard. For critical content, consider increasing contrast."
+                    }
+                  </p>
+                  <p className="mt-2 opacity-80">
+                    <strong>Current:</strong> {result.ratio.toFixed(2)}:1 → <strong>Need:</strong> {requiredRatio}:1 
+                    <span className="ml-1">(missing {(requiredRatio - result.ratio).toFixed(2)} points)</span>
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* WCAG Compliance Grid */}
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <ComplianceItem
+              label="AA Normal"
+              passed={result.aa.normalText}
+              ratio={WCAG_THRESHOLDS.AA_NORMAL}
+            />
+            <ComplianceItem
+              label="AA Large"
+              passed={result.aa.largeText}
+              ratio={WCAG_THRESHOLDS.AA_LARGE}
+            />
+            <ComplianceItem
+              label="AAA Normal"
+              passed={result.aaa.normalText}
+              ratio={WCAG_THRESHOLDS.AAA_NORMAL}
+            />
+            <ComplianceItem
+              label="AAA Large"
+              passed={result.aaa.largeText}
+              ratio={WCAG_THRESHOLDS.AAA_LARGE}
+            />
+          </div>
+        </>
       )}
 
-      {/* WCAG Compliance Grid */}
+      {/* APCA Lightness Contrast */}
+      {showApca && <ApcaDisplay apca={result.apca} />}
+    </div>
+  )
+}
+
+interface ApcaDisplayProps {
+  apca: ApcaResult
+}
+
+function ApcaDisplay({ apca }: ApcaDisplayProps) {
+  // Only show the weights designers reach for most often
+  const keyWeights = apca.fontLookup.filter((item) => [300, 400, 500, 700].includes(item.weight))
+
+  return (
+    <div className="space-y-2">
+      <div className="text-center">
+        <div className="contrast-ratio-large text-dark dark:text-cream">
+          {apca.lcString}
+        </div>
+        <p className="text-sm text-warm-brown dark:text-cream/60 mt-1">
+          APCA Lightness Contrast ({apca.polarity === 'dark-on-light' ? 'dark on light' : 'light on dark'})
+        </p>
+      </div>
+
       <div className="grid grid-cols-2 gap-2 text-xs">
-        <ComplianceItem
-          label="AA Normal"
-          passed={result.aa.normalText}
-          ratio={WCAG_THRESHOLDS.AA_NORMAL}
-        />
-        <ComplianceItem
-          label="AA Large"
-          passed={result.aa.largeText}
-          ratio={WCAG_THRESHOLDS.AA_LARGE}
-        />
-        <ComplianceItem
-          label="AAA Normal"
-          passed={result.aaa.normalText}
-          ratio={WCAG_THRESHOLDS.AAA_NORMAL}
-        />
-        <ComplianceItem
-          label="AAA Large"
-          passed={result.aaa.largeText}
-          ratio={WCAG_THRESHOLDS.AAA_LARGE}
-        />
+        {keyWeights.map((item) => (
+          <div
+            key={item.weight}
+            className={`flex items-center justify-between p-2 rounded ${
+              item.minFontSize !== null
+                ? 'bg-green-50 dark:bg-green-900/10'
+                : 'bg-red-50 dark:bg-red-900/10'
+            }`}
+          >
+            <span className="text-dark dark:text-cream">Weight {item.weight}</span>
+            <span className="text-warm-brown dark:text-cream/60">
+              {item.minFontSize !== null ? `≥ ${item.minFontSize}px` : 'Not for text'}
+            </span>
+          </div>
+        ))}
       </div>
     </div>
   )
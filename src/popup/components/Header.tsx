@@ -1,9 +1,14 @@
 
+// Layers the content script can draw over the page
+export type PageOverlay = 'annotations' | 'heatmap'
+
 interface HeaderProps {
   onScanPage: () => void
+  overlays: Record<PageOverlay, boolean>
+  onToggleOverlay: (overlay: PageOverlay) => void
 }
 
-export function Header({ onScanPage }: HeaderProps) {
+export function Header({ onScanPage, overlays, onToggleOverlay }: HeaderProps) {
   return (
     <header className="bg-beige dark:bg-warm-brown/20 border-b border-border dark:border-warm-brown/30 px-4 py-3">
       <div className="flex items-center justify-between">
@@ -22,16 +27,37 @@ export function Header({ onScanPage }: HeaderProps) {
           </div>
         </div>
         
-        <button
-          onClick={onScanPage}
-          className="btn-primary text-xs py-1.5 px-3"
-          title="Scan current page for contrast issues"
-        >
-          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
-          </svg>
-          Scan Page
-        </button>
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => onToggleOverlay('heatmap')}
+            className={`${overlays.heatmap ? 'btn-primary' : 'btn-secondary'} text-xs py-1.5 px-2`}
+            title="Tint text on the page by how far it is from the target ratio"
+            aria-label="Heatmap"
+            aria-pressed={overlays.heatmap}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm0 5h16M4 15h16M10 4v16M15 4v16" />
+            </svg>
+          </button>
+          <button
+            onClick={() => onToggleOverlay('annotations')}
+            className={`${overlays.annotations ? 'btn-primary' : 'btn-secondary'} text-xs py-1.5 px-3`}
+            title="Badge every scanned element on the page with its contrast ratio"
+            aria-pressed={overlays.annotations}
+          >
+            Annotate
+          </button>
+          <button
+            onClick={onScanPage}
+            className="btn-primary text-xs py-1.5 px-3"
+            title="Scan current page for contrast issues"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+            Scan Page
+          </button>
+        </div>
       </div>
     </header>
   )
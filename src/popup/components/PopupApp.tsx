@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react'
 import { RGB, parseColor, rgbToHex } from '@/lib/color-utils'
-import { analyzeContrast, ContrastResult } from '@/lib/contrast'
+import { analyzeContrast, ContrastResult, ContrastMetric } from '@/lib/contrast'
 import { getSuggestions, SuggestionResult } from '@/lib/suggestions'
+import { CvdSimulation } from '@/lib/cvd'
 import { 
   addToHistory, 
   getColorHistory, 
@@ -10,20 +11,27 @@ import {
   clearPendingEyedropper,
   setEyedropperActive,
   saveCurrentColors,
-  getCurrentColors
+  getCurrentColors,
+  getPreferences
 } from '@/lib/storage'
 import { isRestrictedUrl, getRestrictedPageMessage, getRestrictedPageTitle } from '@/lib/content-script-helper'
 import { ColorInput } from './ColorInput'
 import { ContrastDisplay } from './ContrastDisplay'
 import { SuggestionsList } from './SuggestionsList'
 import { ColorHistory } from './ColorHistory'
-import { Header } from './Header'
+import { Header, PageOverlay } from './Header'
 import { Tabs } from './Tabs'
 import { Settings } from './Settings'
 import { ToastContainer, useToast } from './Toast'
+import { ScanProgressBar, useScanProgress } from './ScanProgress'
 
 type TabId = 'checker' | 'history' | 'settings'
 
+const OVERLAY_TOGGLE_MESSAGES: Record<PageOverlay, string> = {
+  annotations: 'TOGGLE_ANNOTATIONS',
+  heatmap: 'TOGGLE_HEATMAP',
+}
+
 export function PopupApp() {
   const [foregroundHex, setForegroundHex] = useState('#1F1F1E')
   const [backgroundHex, setBackgroundHex] = useState('#FFFDF9')
@@ -35,7 +43,13 @@ export function PopupApp() {
   const [activeTab, setActiveTab] = useState<TabId>('checker')
   const [targetLevel, setTargetLevel] = useState<'AA' | 'AAA'>('AA')
   const [textSize, setTextSize] = useState<'normal' | 'large'>('normal')
+  const [contrastMetric, setContrastMetric] = useState<ContrastMetric>('wcag2')
   const [error, setError] = useState<{ title?: string; message: string } | null>(null)
+  const [scanningTabId, setScanningTabId] = useState<number | null>(null)
+  const scanProgress = useScanProgress(scanningTabId)
+  const [previewCount, setPreviewCount] = useState(0)
+  const [activeOverlays, setActiveOverlays] = useState<Record<PageOverlay, boolean>>({ annotations: false, heatmap: false })
+  const [pageSimulation, setPageSimulation] = useState<CvdSimulation | null>(null)
   const { toasts, dismissToast, showSuccess, showError } = useToast()
 
   // Handle copy feedback
@@ -114,6 +128,11 @@ export function PopupApp() {
     getColorHistory().then(setHistory)
   }, [])
 
+  // Load preferred contrast metric on mount
+  useEffect(() => {
+    getPreferences().then((prefs) => setContrastMetric(prefs.contrastMetric))
+  }, [])
+
   // Load saved colors and pending eyedropper on mount
   useEffect(() => {
     const initializeColors = async () => {
@@ -139,7 +158,10 @@ export function PopupApp() {
       const pending = await getPendingEyedropper()
       if (pending) {
         const rgb = parseColor(pending.color)
-        if (rgb) {
+        const pairBackground = pending.background ? parseColor(pending.background) : null
+        if (rgb && pending.colorType === 'pair') {
+          if (pairBackground) updateColors(rgb, pairBackground)
+        } else if (rgb) {
           // Use the restored colors (or defaults if none saved)
           if (pending.colorType === 'foreground') {
             updateColors(rgb, currentBg)
@@ -295,6 +317,43 @@ export function PopupApp() {
     }
   }, [ensureContentScriptLoaded])
 
+  // Page tools that take over the pointer (the popup closes so the page can be used)
+  const startPageTool = useCallback(async (type: 'START_INSPECTOR' | 'OPEN_PAIR_PICKER', name: string) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      if (!tab?.id || !tab.url) {
+        setError({ message: 'No active tab found. Please open a webpage first.' })
+        return
+      }
+      if (isRestrictedUrl(tab.url)) {
+        setError({
+          title: getRestrictedPageTitle(tab.url),
+          message: getRestrictedPageMessage(tab.url)
+        })
+        return
+      }
+      if (!(await ensureContentScriptLoaded(tab.id))) {
+        setError({
+          title: 'Content Script Error',
+          message: `Could not start the ${name} on this page. Try refreshing the page and reopening the extension.`
+        })
+        return
+      }
+
+      chrome.tabs.sendMessage(tab.id, { type }, { frameId: 0 })
+      window.close()
+    } catch (err) {
+      console.error(`Error starting ${name}:`, err)
+      setError({ message: `Failed to start the ${name}. Try refreshing the page.` })
+    }
+  }, [ensureContentScriptLoaded])
+
+  // Hover inspector
+  const handleInspect = useCallback(() => startPageTool('START_INSPECTOR', 'inspector'), [startPageTool])
+
+  // Pick foreground and background in one go
+  const handlePickPair = useCallback(() => startPageTool('OPEN_PAIR_PICKER', 'pair picker'), [startPageTool])
+
   // Scan page
   const handleScanPage = useCallback(async () => {
     try {
@@ -324,18 +383,159 @@ export function PopupApp() {
         return
       }
       
-      chrome.tabs.sendMessage(tab.id, { type: 'SCAN_PAGE' })
-      window.close()
+      // Stay open with a progress bar until the results panel appears on the page
+      setScanningTabId(tab.id)
+      chrome.tabs.sendMessage(tab.id, { type: 'SCAN_PAGE' }, (response) => {
+        if (chrome.runtime.lastError || response?.cancelled) {
+          setScanningTabId(null)
+          return
+        }
+        window.close()
+      })
     } catch (err) {
       console.error('Error scanning page:', err)
       setError({ message: 'Failed to scan page. Try refreshing the page.' })
+      setScanningTabId(null)
     }
   }, [ensureContentScriptLoaded])
 
+  const handleCancelScan = useCallback(() => {
+    if (scanningTabId !== null) {
+      chrome.tabs.sendMessage(scanningTabId, { type: 'CANCEL_SCAN' })
+    }
+  }, [scanningTabId])
+
+  // Previews and overlays outlive the popup, so pick up what is on the page
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
+      if (!tab?.id) return
+      chrome.tabs.sendMessage(tab.id, { type: 'GET_FIX_PREVIEWS' }, { frameId: 0 }, (response) => {
+        if (chrome.runtime.lastError) return // no content script on this page
+        setPreviewCount(response?.count ?? 0)
+      })
+      chrome.tabs.sendMessage(tab.id, { type: 'GET_OVERLAYS' }, { frameId: 0 }, (response) => {
+        if (chrome.runtime.lastError) return
+        setActiveOverlays({ annotations: !!response?.annotations, heatmap: !!response?.heatmap })
+        setPageSimulation(response?.vision ?? null)
+      })
+    })
+  }, [])
+
+  // Annotation badges or heatmap; turning one on scans first, so show progress like a scan
+  const handleToggleOverlay = useCallback(async (overlay: PageOverlay) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      if (!tab?.id || !tab.url) {
+        setError({ message: 'No active tab found. Please open a webpage first.' })
+        return
+      }
+      if (isRestrictedUrl(tab.url)) {
+        setError({
+          title: getRestrictedPageTitle(tab.url),
+          message: getRestrictedPageMessage(tab.url)
+        })
+        return
+      }
+      if (!(await ensureContentScriptLoaded(tab.id))) {
+        setError({
+          title: 'Content Script Error',
+          message: 'Could not draw on this page. Try refreshing the page and reopening the extension.'
+        })
+        return
+      }
+
+      if (!activeOverlays[overlay]) setScanningTabId(tab.id)
+      chrome.tabs.sendMessage(tab.id, { type: OVERLAY_TOGGLE_MESSAGES[overlay] }, { frameId: 0 }, (response) => {
+        setScanningTabId(null)
+        if (chrome.runtime.lastError) return
+        setActiveOverlays((previous) => ({ ...previous, [overlay]: !!response?.active }))
+        if (response?.active) window.close()
+      })
+    } catch (err) {
+      console.error(`Error toggling ${overlay}:`, err)
+      setError({ message: 'Failed to draw on the page. Try refreshing the page.' })
+      setScanningTabId(null)
+    }
+  }, [activeOverlays, ensureContentScriptLoaded])
+
+  // Render the page through a color vision simulation (null turns it off)
+  const handleSimulatePage = useCallback(async (simulation: CvdSimulation | null) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      if (!tab?.id || !tab.url || isRestrictedUrl(tab.url)) {
+        showError('Simulation only works on regular web pages')
+        return
+      }
+      if (!(await ensureContentScriptLoaded(tab.id))) {
+        showError('Could not reach the page. Try refreshing it.')
+        return
+      }
+
+      chrome.tabs.sendMessage(tab.id, { type: 'SIMULATE_VISION', simulation }, { frameId: 0 }, (response) => {
+        if (chrome.runtime.lastError || !response?.success) {
+          showError('Could not simulate on this page')
+          return
+        }
+        setPageSimulation(response.simulation)
+      })
+    } catch (err) {
+      console.error('Error simulating vision:', err)
+      showError('Could not simulate on this page')
+    }
+  }, [ensureContentScriptLoaded, showError])
+
+  // Swap a suggested color in for every element on the page that uses the current one
+  const handlePreviewSuggestion = useCallback(async (type: 'foreground' | 'background', rgb: RGB) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      if (!tab?.id || !tab.url || isRestrictedUrl(tab.url)) {
+        showError('Previews only work on regular web pages')
+        return
+      }
+      if (!(await ensureContentScriptLoaded(tab.id))) {
+        showError('Could not reach the page. Try refreshing it.')
+        return
+      }
+
+      chrome.tabs.sendMessage(tab.id, {
+        type: 'PREVIEW_FIX',
+        from: rgbToHex(type === 'foreground' ? foregroundRgb : backgroundRgb),
+        property: type === 'foreground' ? 'color' : 'background-color',
+        value: rgbToHex(rgb),
+      }, { frameId: 0 }, (response) => {
+        if (chrome.runtime.lastError || !response?.success) {
+          showError(response?.error ?? 'Could not preview on this page')
+          return
+        }
+        setPreviewCount(response.active)
+        showSuccess(`Previewing on ${response.count} ${response.count === 1 ? 'element' : 'elements'}`)
+      })
+    } catch (err) {
+      console.error('Error previewing fix:', err)
+      showError('Could not preview on this page')
+    }
+  }, [foregroundRgb, backgroundRgb, ensureContentScriptLoaded, showSuccess, showError])
+
+  const handleRevertPreviews = useCallback(async () => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (tab?.id) chrome.tabs.sendMessage(tab.id, { type: 'REVERT_FIX_PREVIEWS' })
+    setPreviewCount(0)
+  }, [])
+
   return (
     <div className="w-[380px] min-h-[500px] bg-cream dark:bg-dark">
-      <Header onScanPage={handleScanPage} />
+      <Header
+        onScanPage={handleScanPage}
+        overlays={activeOverlays}
+        onToggleOverlay={handleToggleOverlay}
+      />
       
+      {scanningTabId !== null && (
+        <div className="px-4 pt-3">
+          <ScanProgressBar progress={scanProgress} onCancel={handleCancelScan} />
+        </div>
+      )}
+
       <Tabs activeTab={activeTab} onTabChange={setActiveTab} />
 
       {/* Error Message */}
@@ -392,17 +592,39 @@ export function PopupApp() {
               />
             </div>
 
-            {/* Swap Button */}
-            <button
-              onClick={handleSwapColors}
-              className="w-full btn-ghost text-sm flex items-center justify-center gap-2"
-              aria-label="Swap foreground and background colors"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
-              </svg>
-              Swap Colors
-            </button>
+            {/* Swap, Inspect & Pick Pair Buttons */}
+            <div className="flex gap-2">
+              <button
+                onClick={handleSwapColors}
+                className="flex-1 btn-ghost text-sm flex items-center justify-center gap-2"
+                aria-label="Swap foreground and background colors"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+                </svg>
+                Swap
+              </button>
+              <button
+                onClick={handleInspect}
+                className="flex-1 btn-ghost text-sm flex items-center justify-center gap-2"
+                title="Hover text on the page to see its contrast; click to bring the pair back here"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+                Inspect
+              </button>
+              <button
+                onClick={handlePickPair}
+                className="flex-1 btn-ghost text-sm flex items-center justify-center gap-2"
+                title="Pick the text color, then the background, with the ratio shown live on the page"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+                </svg>
+                Pick Pair
+              </button>
+            </div>
 
             {/* Level & Size Selection */}
             <div className="flex gap-2">
@@ -434,6 +656,9 @@ export function PopupApp() {
                 backgroundHex={backgroundHex}
                 targetLevel={targetLevel}
                 textSize={textSize}
+                metric={contrastMetric}
+                pageSimulation={pageSimulation}
+                onSimulatePage={handleSimulatePage}
               />
             )}
 
@@ -442,6 +667,9 @@ export function PopupApp() {
               <SuggestionsList
                 suggestions={suggestions}
                 onApply={handleApplySuggestion}
+                onPreview={handlePreviewSuggestion}
+                previewCount={previewCount}
+                onRevertPreviews={handleRevertPreviews}
                 targetLevel={targetLevel}
               />
             )}
@@ -457,7 +685,7 @@ export function PopupApp() {
         )}
 
         {activeTab === 'settings' && (
-          <Settings />
+          <Settings onPreferencesChange={(prefs) => setContrastMetric(prefs.contrastMetric)} />
         )}
       </div>
 
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react'
+import { ScanProgress, combineScanProgress } from '@/lib/scanner'
+
+/**
+ * Follow SCAN_PROGRESS messages from every frame of the tab being scanned
+ * Returns null until the first report arrives, or while no scan is running
+ */
+export function useScanProgress(tabId: number | null): ScanProgress | null {
+  const [progress, setProgress] = useState<ScanProgress | null>(null)
+
+  useEffect(() => {
+    setProgress(null)
+    if (tabId === null) return
+
+    const byFrame = new Map<number, ScanProgress>()
+    const listener = (message: { type?: string; progress?: ScanProgress }, sender: chrome.runtime.MessageSender) => {
+      if (message.type !== 'SCAN_PROGRESS' || !message.progress || sender.tab?.id !== tabId) return
+      byFrame.set(sender.frameId ?? 0, message.progress)
+      setProgress(combineScanProgress(Array.from(byFrame.values())))
+    }
+
+    chrome.runtime.onMessage.addListener(listener)
+    return () => chrome.runtime.onMessage.removeListener(listener)
+  }, [tabId])
+
+  return progress
+}
+
+interface ScanProgressBarProps {
+  progress: ScanProgress | null
+  onCancel: () => void
+}
+
+export function ScanProgressBar({ progress, onCancel }: ScanProgressBarProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-warm-brown dark:text-cream/60">
+        <span>
+          {progress
+            ? `Scanning... ${progress.percent}% (${progress.processed.toLocaleString()} of ${progress.total.toLocaleString()} elements)`
+            : 'Starting scan...'}
+        </span>
+        <button onClick={onCancel} className="btn-ghost text-xs py-0.5 px-2">
+          Cancel
+        </button>
+      </div>
+      <div
+        className="h-1.5 bg-beige dark:bg-warm-brown/20 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-label="Scan progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={progress?.percent ?? 0}
+      >
+        <div
+          className="h-full bg-primary transition-all duration-200"
+          style={{ width: `${progress?.percent ?? 0}%` }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { ContrastMetric } from '@/lib/contrast'
 import { 
   getPreferences, 
   updatePreferences, 
@@ -20,6 +21,10 @@ export function Settings({ onPreferencesChange }: SettingsProps) {
     darkMode: false,
     showNotifications: true,
     maxHistoryItems: 20,
+    contrastMetric: 'wcag2',
+    pixelSampling: false,
+    focusIndicators: false,
+    interactiveStates: true,
   })
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -222,6 +227,19 @@ export function Settings({ onPreferencesChange }: SettingsProps) {
               <option value="large">Large Text (18pt+ or 14pt+ bold)</option>
             </select>
           </div>
+
+          <div className="p-3 bg-beige dark:bg-warm-brown/10 rounded-lg">
+            <label className="text-sm text-dark dark:text-cream block mb-2">Contrast Metric</label>
+            <select
+              value={preferences.contrastMetric}
+              onChange={(e) => handlePreferenceChange('contrastMetric', e.target.value as ContrastMetric)}
+              className="input text-sm"
+            >
+              <option value="wcag2">WCAG 2 ratio</option>
+              <option value="apca">APCA Lc (WCAG 3 draft)</option>
+              <option value="both">Both</option>
+            </select>
+          </div>
           
           <div className="p-3 bg-beige dark:bg-warm-brown/10 rounded-lg">
             <label className="text-sm text-dark dark:text-cream block mb-2">Max History Items</label>
@@ -239,6 +257,66 @@ export function Settings({ onPreferencesChange }: SettingsProps) {
         </div>
       </section>
 
+      {/* Page Scanner */}
+      <section>
+        <h3 className="font-semibold text-dark dark:text-cream mb-3 flex items-center gap-2">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+          </svg>
+          Page Scanner
+        </h3>
+        
+        <div className="space-y-2">
+          <label className="flex items-center justify-between p-3 bg-beige dark:bg-warm-brown/10 rounded-lg cursor-pointer">
+            <div>
+              <span className="text-sm text-dark dark:text-cream block">Sample Image Backgrounds</span>
+              <span className="text-xs text-warm-brown dark:text-cream/60">Read screenshot pixels behind text over images and gradients</span>
+            </div>
+            <div className="relative">
+              <input
+                type="checkbox"
+                checked={preferences.pixelSampling}
+                onChange={(e) => handlePreferenceChange('pixelSampling', e.target.checked)}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-border peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between p-3 bg-beige dark:bg-warm-brown/10 rounded-lg cursor-pointer">
+            <div>
+              <span className="text-sm text-dark dark:text-cream block">Scan Interactive States</span>
+              <span className="text-xs text-warm-brown dark:text-cream/60">Check :hover, :focus-visible, :active, :visited and :disabled colors</span>
+            </div>
+            <div className="relative">
+              <input
+                type="checkbox"
+                checked={preferences.interactiveStates}
+                onChange={(e) => handlePreferenceChange('interactiveStates', e.target.checked)}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-border peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between p-3 bg-beige dark:bg-warm-brown/10 rounded-lg cursor-pointer">
+            <div>
+              <span className="text-sm text-dark dark:text-cream block">Check Focus Indicators</span>
+              <span className="text-xs text-warm-brown dark:text-cream/60">Focus each element to test its focus ring (2.4.7 / 2.4.13)</span>
+            </div>
+            <div className="relative">
+              <input
+                type="checkbox"
+                checked={preferences.focusIndicators}
+                onChange={(e) => handlePreferenceChange('focusIndicators', e.target.checked)}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-border peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+            </div>
+          </label>
+        </div>
+      </section>
+
       {/* Notifications */}
       <section>
         <h3 className="font-semibold text-dark dark:text-cream mb-3 flex items-center gap-2">
@@ -4,10 +4,13 @@ import { SuggestionResult, ColorSuggestion } from '@/lib/suggestions'
 interface SuggestionsListProps {
   suggestions: SuggestionResult
   onApply: (type: 'foreground' | 'background', rgb: RGB) => void
+  onPreview: (type: 'foreground' | 'background', rgb: RGB) => void
+  previewCount: number // overrides currently previewed on the page
+  onRevertPreviews: () => void
   targetLevel: 'AA' | 'AAA'
 }
 
-export function SuggestionsList({ suggestions, onApply, targetLevel }: SuggestionsListProps) {
+export function SuggestionsList({ suggestions, onApply, onPreview, previewCount, onRevertPreviews, targetLevel }: SuggestionsListProps) {
   // Determine which suggestion requires less change
   const fgChange = suggestions.bestForeground?.percentChange ?? Infinity
   const bgChange = suggestions.bestBackground?.percentChange ?? Infinity
@@ -47,6 +50,7 @@ export function SuggestionsList({ suggestions, onApply, targetLevel }: Suggestio
           suggestion={suggestions.bestForeground}
           originalHex={rgbToHex(suggestions.original.foreground)}
           onApply={() => onApply('foreground', suggestions.bestForeground!.color)}
+          onPreview={() => onPreview('foreground', suggestions.bestForeground!.color)}
           isRecommended={recommendForeground}
         />
       )}
@@ -58,10 +62,20 @@ export function SuggestionsList({ suggestions, onApply, targetLevel }: Suggestio
           suggestion={suggestions.bestBackground}
           originalHex={rgbToHex(suggestions.original.background)}
           onApply={() => onApply('background', suggestions.bestBackground!.color)}
+          onPreview={() => onPreview('background', suggestions.bestBackground!.color)}
           isRecommended={!recommendForeground}
         />
       )}
 
+      {previewCount > 0 && (
+        <div className="flex items-center justify-between text-xs text-warm-brown dark:text-cream/70">
+          <span>{previewCount} {previewCount === 1 ? 'preview' : 'previews'} active on the page</span>
+          <button onClick={onRevertPreviews} className="btn-ghost text-xs py-0.5 px-2">
+            Revert all
+          </button>
+        </div>
+      )}
+
       <p className="text-xs text-warm-brown dark:text-cream/60 italic">
         These suggestions preserve your original color&apos;s hue and saturation—only the lightness is adjusted to meet accessibility requirements.
       </p>
@@ -75,10 +89,11 @@ interface SuggestionCardProps {
   suggestion: ColorSuggestion
   originalHex: string
   onApply: () => void
+  onPreview: () => void
   isRecommended?: boolean
 }
 
-function SuggestionCard({ title, description, suggestion, originalHex, onApply, isRecommended }: SuggestionCardProps) {
+function SuggestionCard({ title, description, suggestion, originalHex, onApply, onPreview, isRecommended }: SuggestionCardProps) {
   return (
     <div className={`rounded-lg p-3 space-y-2 ${
       isRecommended 
@@ -140,16 +155,25 @@ function SuggestionCard({ title, description, suggestion, originalHex, onApply,
         <span className="text-xs text-warm-brown dark:text-cream/60">
           {suggestion.adjustment === 'lighter' ? '↑ Made lighter' : '↓ Made darker'} by {suggestion.percentChange.toFixed(1)}%
         </span>
-        <button
-          onClick={onApply}
-          className={`text-xs py-1 px-3 rounded font-medium transition-colors ${
-            isRecommended
-              ? 'bg-green-600 hover:bg-green-700 text-white'
-              : 'btn-primary'
-          }`}
-        >
-          Apply This Fix
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onPreview}
+            className="btn-ghost text-xs py-1 px-2"
+            title={`Show ${suggestion.hex} in place of ${originalHex} on the page`}
+          >
+            Preview
+          </button>
+          <button
+            onClick={onApply}
+            className={`text-xs py-1 px-3 rounded font-medium transition-colors ${
+              isRecommended
+                ? 'bg-green-600 hover:bg-green-700 text-white'
+                : 'btn-primary'
+            }`}
+          >
+            Apply This Fix
+          </button>
+        </div>
       </div>
     </div>
   )